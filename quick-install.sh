@@ -218,6 +218,16 @@ server {
             add_header Access-Control-Allow-Origin *;
         }
         
+        location ~* \.m4s\$ {
+            add_header Content-Type 'video/iso.segment';
+            add_header Access-Control-Allow-Origin *;
+        }
+        
+        location ~* \.mpd\$ {
+            add_header Content-Type 'application/dash+xml';
+            add_header Access-Control-Allow-Origin *;
+        }
+        
         # CORS preflight
         if (\$request_method = 'OPTIONS') {
             add_header Access-Control-Allow-Origin *;
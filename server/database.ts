@@ -8,6 +8,14 @@ const __dirname = path.dirname(__filename);
 const dbPath = path.join(__dirname, '..', 'anisuplayer.db');
 const db: InstanceType<typeof Database> = new Database(dbPath);
 
+// Add a column to an existing table (older databases were created without it)
+function ensureColumn(table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 export function initializeDatabase() {
   // Videos table
   db.exec(`
@@ -66,6 +74,217 @@ export function initializeDatabase() {
     )
   `);
 
+  // Queue columns - everything needed to pick a job up again after a restart
+  ensureColumn('encoding_jobs', 'input_path', 'TEXT');
+  ensureColumn('encoding_jobs', 'source_width', 'INTEGER');
+  ensureColumn('encoding_jobs', 'source_height', 'INTEGER');
+
+  // Encoding profiles table (named ladders managed from the dashboard)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS encoding_profiles (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT,
+      rungs TEXT NOT NULL DEFAULT '[]',
+      audio_bitrate TEXT DEFAULT '128k',
+      preset TEXT DEFAULT 'medium',
+      is_default INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Jobs keep a snapshot of the ladder, so editing a profile doesn't affect queued jobs
+  ensureColumn('encoding_jobs', 'profile_id', 'TEXT');
+  ensureColumn('encoding_jobs', 'ladder', 'TEXT');
+
+  // Codec-aware renditions (H.264 / HEVC / AV1) for the master playlist
+  ensureColumn('encoding_profiles', 'codecs', `TEXT DEFAULT '["h264"]'`);
+  ensureColumn('video_sources', 'codec', 'TEXT');
+  ensureColumn('video_sources', 'codecs', 'TEXT');
+  ensureColumn('video_sources', 'width', 'INTEGER');
+  ensureColumn('video_sources', 'height', 'INTEGER');
+  ensureColumn('video_sources', 'bandwidth', 'INTEGER');
+
+  // Segment container for H.264 renditions ('ts' or 'fmp4', HEVC/AV1 are always fMP4)
+  ensureColumn('encoding_profiles', 'segment_format', `TEXT DEFAULT 'ts'`);
+
+  // Audio-only renditions (one per source audio stream), shared by the demuxed video renditions of a video
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS audio_tracks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      video_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      label TEXT NOT NULL,
+      language TEXT,
+      url TEXT NOT NULL,
+      codecs TEXT,
+      bandwidth INTEGER,
+      channels INTEGER,
+      is_default INTEGER DEFAULT 0,
+      FOREIGN KEY (video_id) REFERENCES videos(id) ON DELETE CASCADE
+    )
+  `);
+
+  // WebVTT index of the trickplay sprite sheets (progress bar hover previews)
+  ensureColumn('videos', 'thumbnail_track', 'TEXT');
+
+  // 'reencode' jobs add or replace renditions of an existing video from its kept original
+  ensureColumn('encoding_jobs', 'mode', `TEXT DEFAULT 'initial'`);
+
+  // Failure classification and retry bookkeeping (transient failures are retried automatically with backoff)
+  ensureColumn('encoding_jobs', 'attempts', 'INTEGER DEFAULT 0');
+  ensureColumn('encoding_jobs', 'auto_retries', 'INTEGER DEFAULT 0');
+  ensureColumn('encoding_jobs', 'failure_class', 'TEXT');
+  ensureColumn('encoding_jobs', 'next_retry_at', 'DATETIME');
+
+  // Queue order: priority (0 low, 1 normal, 2 high) first, then the manual order of the queue
+  ensureColumn('encoding_jobs', 'priority', 'INTEGER DEFAULT 1');
+  ensureColumn('encoding_jobs', 'queue_position', 'REAL');
+  db.exec('UPDATE encoding_jobs SET queue_position = rowid WHERE queue_position IS NULL');
+
+  // Encoding queue settings (single row): encoding window, default priority, ffmpeg threads and niceness
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS queue_settings (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      window_enabled INTEGER DEFAULT 0,
+      window_start TEXT DEFAULT '01:00',
+      window_end TEXT DEFAULT '07:00',
+      default_priority INTEGER DEFAULT 1,
+      threads INTEGER DEFAULT 0,
+      niceness INTEGER DEFAULT 0,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Forced H.264 encoder ('auto', 'cpu' or a hardware encoder) and the video encoders each job actually used
+  ensureColumn('queue_settings', 'encoder', `TEXT DEFAULT 'auto'`);
+  ensureColumn('encoding_jobs', 'encoder', 'TEXT');
+
+  // Expected size of a job's renditions, checked against the free disk space / storage quota before it starts
+  ensureColumn('encoding_jobs', 'estimated_size', 'INTEGER');
+
+  // Imports (mode 'import'): remote file or HLS playlist downloaded before it is encoded, resumed from downloaded_bytes
+  ensureColumn('encoding_jobs', 'source_url', 'TEXT');
+  ensureColumn('encoding_jobs', 'downloaded_bytes', 'INTEGER');
+  ensureColumn('encoding_jobs', 'download_size', 'INTEGER');
+  ensureColumn('encoding_jobs', 'segments_downloaded', 'INTEGER');
+
+  // Progress of each rendition of the running ffmpeg pass as JSON ({ "720p": 42.5 }), from the media each output has written
+  ensureColumn('encoding_jobs', 'rendition_progress', 'TEXT');
+
+  // ffprobe results of linked sources (width/height/codec/bandwidth above), detected_resolution is the label the frame size matches
+  ensureColumn('video_sources', 'detected_resolution', 'TEXT');
+  ensureColumn('video_sources', 'probe_error', 'TEXT');
+  ensureColumn('video_sources', 'probed_at', 'DATETIME');
+
+  // Variants found in a linked HLS master playlist point at the master's row (refreshed when it is read again)
+  ensureColumn('video_sources', 'master_id', 'INTEGER');
+
+  // Reachability of external links (link_error is the HTTP status or network error of the last failed check)
+  ensureColumn('video_sources', 'link_status', 'TEXT');
+  ensureColumn('video_sources', 'link_error', 'TEXT');
+  ensureColumn('video_sources', 'link_checked_at', 'DATETIME');
+  ensureColumn('subtitles', 'link_status', 'TEXT');
+  ensureColumn('subtitles', 'link_error', 'TEXT');
+  ensureColumn('subtitles', 'link_checked_at', 'DATETIME');
+
+  // Source file of each video, kept for re-encodes until the retention policy (or the user) deletes it
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS video_originals (
+      video_id TEXT PRIMARY KEY,
+      url TEXT NOT NULL,
+      original_name TEXT,
+      file_size INTEGER,
+      retain INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (video_id) REFERENCES videos(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Outgoing webhooks (events is a JSON array, empty = every event)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      events TEXT NOT NULL DEFAULT '[]',
+      enabled INTEGER DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // One row per event sent to a webhook, retried with backoff until it succeeds or runs out of attempts
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL,
+      event TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT DEFAULT 'pending',
+      attempts INTEGER DEFAULT 0,
+      response_status INTEGER,
+      error TEXT,
+      next_attempt_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      delivered_at DATETIME,
+      FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Last HLS integrity check of each video (report is the JSON result with the damaged renditions)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS video_integrity (
+      video_id TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      report TEXT NOT NULL,
+      checked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (video_id) REFERENCES videos(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Every check of an external source or subtitle URL (kind is 'source' or 'subtitle', target_id the row's id)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS link_checks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      video_id TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      target_id INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      ok INTEGER NOT NULL,
+      status_code INTEGER,
+      error TEXT,
+      response_ms INTEGER,
+      checked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (video_id) REFERENCES videos(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Mirrors: more URLs of the same source, tried by priority (lowest first) and spread by weight within a priority.
+  // The source's own url is a mirror too, with the priority / weight columns below
+  ensureColumn('video_sources', 'priority', 'INTEGER DEFAULT 0');
+  ensureColumn('video_sources', 'weight', 'INTEGER DEFAULT 1');
+  ensureColumn('video_sources', 'failover_count', 'INTEGER DEFAULT 0');
+  ensureColumn('video_sources', 'last_failover_at', 'DATETIME');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS source_mirrors (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_id INTEGER NOT NULL,
+      video_id TEXT NOT NULL,
+      url TEXT NOT NULL,
+      priority INTEGER DEFAULT 1,
+      weight INTEGER DEFAULT 1,
+      failover_count INTEGER DEFAULT 0,
+      last_failover_at DATETIME,
+      link_status TEXT,
+      link_error TEXT,
+      link_checked_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (source_id) REFERENCES video_sources(id) ON DELETE CASCADE,
+      FOREIGN KEY (video_id) REFERENCES videos(id) ON DELETE CASCADE
+    )
+  `);
+
   console.log('📦 Database initialized successfully');
 }
 
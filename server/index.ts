@@ -19,6 +19,19 @@ import authRoutes from './routes/auth.js';
 import videoRoutes from './routes/videos.js';
 import cdnRoutes from './routes/cdn.js';
 import encodingRoutes from './routes/encoding.js';
+import profileRoutes from './routes/profiles.js';
+import webhookRoutes from './routes/webhooks.js';
+import storageRoutes from './routes/storage.js';
+import { resumeEncodingQueue } from './services/encoder.js';
+import { seedDefaultProfile } from './services/profiles.js';
+import { startWebhookWorker } from './services/webhooks.js';
+import { startOriginalsRetention } from './services/originals.js';
+import { startJobLogCleanup } from './services/jobLogs.js';
+import { getStorageStatus } from './services/storage.js';
+import { startOrphanCleanup } from './services/orphans.js';
+import { startIntegrityChecks } from './services/integrity.js';
+import { resumeImports } from './services/importer.js';
+import { startLinkHealthChecks } from './services/linkHealth.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -44,6 +57,31 @@ const subtitlesDir = path.join(storageDir, 'subtitles');
 
 // Initialize database
 initializeDatabase();
+seedDefaultProfile();
+
+// Pick up encoding jobs that were queued or interrupted before the last shutdown
+resumeEncodingQueue();
+
+// Continue downloads of linked videos interrupted by the last shutdown
+resumeImports();
+
+// Delete originals past the retention period
+startOriginalsRetention();
+
+// Retry webhook deliveries that failed (or were still pending) before the last shutdown
+startWebhookWorker();
+
+// Remove ffmpeg logs of deleted or old encoding jobs
+startJobLogCleanup();
+
+// Delete files left behind by failed uploads, crashed jobs and deleted videos
+startOrphanCleanup();
+
+// Find renditions with missing or truncated segments
+startIntegrityChecks();
+
+// Find external sources and subtitles whose host stopped serving them
+startLinkHealthChecks();
 
 // Middleware
 // CORS configuration - allow all origins in production, specific in development
@@ -69,6 +107,11 @@ app.use('/storage', express.static(path.join(__dirname, '..', 'storage'), {
       res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
     } else if (filePath.endsWith('.ts')) {
       res.setHeader('Content-Type', 'video/mp2t');
+    } else if (filePath.endsWith('.m4s')) {
+      // fMP4 (CMAF) media segments, the init segment is a regular .mp4
+      res.setHeader('Content-Type', 'video/iso.segment');
+    } else if (filePath.endsWith('.mpd')) {
+      res.setHeader('Content-Type', 'application/dash+xml');
     } else if (filePath.endsWith('.mp4') || filePath.endsWith('.m4v')) {
       res.setHeader('Content-Type', 'video/mp4');
     } else if (filePath.endsWith('.webm')) {
@@ -92,13 +135,16 @@ app.use('/storage', express.static(path.join(__dirname, '..', 'storage'), {
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/videos', videoRoutes);
+app.use('/api/encoding/profiles', profileRoutes);
 app.use('/api/encoding', encodingRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/storage', storageRoutes);
 app.use('/api/cdn', cdnRoutes); // Move CDN API to /api/cdn to avoid conflict with React Router
 app.use('/cdn', cdnRoutes); // Keep /cdn for backward compatibility (will be handled by Nginx in production)
 
-// Health check
+// Health check (storage headroom included so monitoring and the dashboard can warn before the disk fills up)
 app.get('/api/health', (req, res) => {
-  res.json({ status: 'ok', message: 'AnisuPlayer API is running' });
+  res.json({ status: 'ok', message: 'AnisuPlayer API is running', storage: getStorageStatus() });
 });
 
 app.listen(PORT, () => {
@@ -3,6 +3,7 @@ import path from 'path';
 import fs from 'fs';
 import { fileURLToPath } from 'url';
 import db from '../database.js';
+import { PLAYER_MIRRORS_JSON_SQL, recordFailover } from '../services/mirrors.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -21,7 +22,13 @@ router.get('/:id', (req: Request, res: Response) => {
           'resolution', vs.resolution,
           'url', vs.url,
           'is_local', vs.is_local,
-          'file_size', vs.file_size
+          'file_size', vs.file_size,
+          'codec', vs.codec,
+          'height', vs.height,
+          'priority', vs.priority,
+          'weight', vs.weight,
+          'link_status', vs.link_status,
+          'mirrors', ${PLAYER_MIRRORS_JSON_SQL}
         )) FROM video_sources vs WHERE vs.video_id = v.id) as sources,
         (SELECT json_group_array(json_object(
           'id', s.id,
@@ -52,6 +59,30 @@ router.get('/:id', (req: Request, res: Response) => {
   }
 });
 
+// The player gave up on a URL of a source (its own url or a mirror) and switched to the next mirror
+router.post('/:id/failover', (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { sourceId, url, reason } = req.body;
+
+    if (!Number.isInteger(sourceId) || typeof url !== 'string') {
+      res.status(400).json({ error: 'sourceId and url are required' });
+      return;
+    }
+
+    if (!recordFailover(id, sourceId, url)) {
+      res.status(404).json({ error: 'Video source not found' });
+      return;
+    }
+
+    console.warn(`🔀 Player failed over from ${url} (video ${id}, source ${sourceId})${typeof reason === 'string' ? `: ${reason.slice(0, 200)}` : ''}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error recording failover:', error);
+    res.status(500).json({ error: 'Failed to record failover' });
+  }
+});
+
 // Stream video file (MP4)
 router.get('/:id/stream/:sourceId', (req: Request, res: Response) => {
   try {
@@ -1,7 +1,28 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import fs from 'fs';
 import jwt from 'jsonwebtoken';
 import db from '../database.js';
-import { cancelEncoding, deleteVideoFiles } from '../services/encoder.js';
+import {
+  cancelEncodingJob,
+  pauseEncodingJob,
+  resumeEncodingJob,
+  retryEncodingJob,
+  processQueue,
+  CANCEL_MODES,
+  CancelMode
+} from '../services/encoder.js';
+import { emitEncodingEvent, subscribeEncodingEvents } from '../services/events.js';
+import { readJobLog } from '../services/jobLogs.js';
+import {
+  getQueueSettings,
+  saveQueueSettings,
+  validateQueueSettings,
+  isInEncodingWindow,
+  PRIORITY_LEVELS,
+  PRIORITY_VALUES
+} from '../services/queueSettings.js';
+import { getEncoderCapabilities, probeEncoderCapabilities } from '../services/encoderCapabilities.js';
+import { cancelImportJob, pauseImportJob, resumeImportJob, retryImportJob } from '../services/importer.js';
 
 const router = Router();
 
@@ -39,7 +60,8 @@ router.get('/jobs', authMiddleware, (req: Request, res: Response) => {
     const parsedJobs = jobs.map((job: any) => ({
       ...job,
       resolutions_completed: JSON.parse(job.resolutions_completed || '[]'),
-      resolutions_pending: JSON.parse(job.resolutions_pending || '[]')
+      resolutions_pending: JSON.parse(job.resolutions_pending || '[]'),
+      rendition_progress: JSON.parse(job.rendition_progress || '{}')
     }));
 
     res.json(parsedJobs);
@@ -49,6 +71,32 @@ router.get('/jobs', authMiddleware, (req: Request, res: Response) => {
   }
 });
 
+// Live job state changes (Server-Sent Events): queued, started, progress, resolution, completed, failed, cancelled, paused, resumed
+router.get('/events', authMiddleware, (req: Request, res: Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    // Don't let nginx buffer the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.write('retry: 3000\n\n');
+
+  const unsubscribe = subscribeEncodingEvents((event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  // Comment line keeps idle connections open through proxies
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, 25000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
 // Get specific encoding job
 router.get('/jobs/:jobId', (req: Request, res: Response) => {
   try {
@@ -69,7 +117,8 @@ router.get('/jobs/:jobId', (req: Request, res: Response) => {
     const parsedJob = {
       ...job,
       resolutions_completed: JSON.parse((job as any).resolutions_completed || '[]'),
-      resolutions_pending: JSON.parse((job as any).resolutions_pending || '[]')
+      resolutions_pending: JSON.parse((job as any).resolutions_pending || '[]'),
+      rendition_progress: JSON.parse((job as { rendition_progress: string | null }).rendition_progress || '{}')
     };
 
     res.json(parsedJob);
@@ -79,6 +128,25 @@ router.get('/jobs/:jobId', (req: Request, res: Response) => {
   }
 });
 
+// Get the ffmpeg log of a job (command lines, output tail of each pass and job lifecycle)
+router.get('/jobs/:jobId/logs', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+
+    const job = db.prepare('SELECT id FROM encoding_jobs WHERE id = ?').get(jobId);
+    if (!job) {
+      res.status(404).json({ error: 'Encoding job not found' });
+      return;
+    }
+
+    const log = readJobLog(jobId);
+    res.json({ jobId, log: log?.log ?? '', previous: log?.previous ?? null, size: log?.size ?? 0 });
+  } catch (error) {
+    console.error('Error fetching encoding job logs:', error);
+    res.status(500).json({ error: 'Failed to fetch encoding job logs' });
+  }
+});
+
 // Get active encoding jobs
 router.get('/active', authMiddleware, (req: Request, res: Response) => {
   try {
@@ -86,14 +154,15 @@ router.get('/active', authMiddleware, (req: Request, res: Response) => {
       SELECT ej.*, v.title as video_title
       FROM encoding_jobs ej
       JOIN videos v ON v.id = ej.video_id
-      WHERE ej.status IN ('pending', 'encoding')
+      WHERE ej.status IN ('pending', 'encoding', 'paused')
       ORDER BY ej.started_at DESC
     `).all();
 
     const parsedJobs = jobs.map((job: any) => ({
       ...job,
       resolutions_completed: JSON.parse(job.resolutions_completed || '[]'),
-      resolutions_pending: JSON.parse(job.resolutions_pending || '[]')
+      resolutions_pending: JSON.parse(job.resolutions_pending || '[]'),
+      rendition_progress: JSON.parse(job.rendition_progress || '{}')
     }));
 
     res.json(parsedJobs);
@@ -103,10 +172,22 @@ router.get('/active', authMiddleware, (req: Request, res: Response) => {
   }
 });
 
-// Cancel encoding job
-router.post('/jobs/:jobId/cancel', authMiddleware, (req: Request, res: Response) => {
+const CANCEL_RESPONSES: Record<CancelMode, string> = {
+  keep_renditions: 'Encoding job cancelled, finished renditions kept',
+  keep_original: 'Encoding job cancelled, original kept for a later encode',
+  delete: 'Encoding job cancelled and video deleted'
+};
+
+// Cancel encoding job, body { mode }: 'keep_renditions' (default), 'keep_original' or 'delete'
+router.post('/jobs/:jobId/cancel', authMiddleware, async (req: Request, res: Response) => {
   try {
     const { jobId } = req.params;
+    const mode: CancelMode = req.body?.mode ?? 'keep_renditions';
+
+    if (!CANCEL_MODES.includes(mode)) {
+      res.status(400).json({ error: `Invalid cancel mode, expected one of: ${CANCEL_MODES.join(', ')}` });
+      return;
+    }
 
     // Get the job info first
     const job = db.prepare(`
@@ -118,37 +199,290 @@ router.post('/jobs/:jobId/cancel', authMiddleware, (req: Request, res: Response)
       return;
     }
 
-    if (job.status !== 'pending' && job.status !== 'encoding') {
+    if (!['pending', 'encoding', 'paused', 'downloading'].includes(job.status)) {
       res.status(400).json({ error: 'Job is not active and cannot be cancelled' });
       return;
     }
 
-    // Cancel the encoding process
-    const cancelled = cancelEncoding(jobId);
-
-    if (!cancelled) {
-      // Job might be pending (not started yet), just mark it as cancelled
-      db.prepare(`
-        UPDATE encoding_jobs 
-        SET status = 'cancelled',
-            error = 'Cancelled by user'
-        WHERE id = ?
-      `).run(jobId);
-
-      // Delete video and files
-      deleteVideoFiles(job.video_id);
-      
-      db.prepare('DELETE FROM video_sources WHERE video_id = ?').run(job.video_id);
-      db.prepare('DELETE FROM subtitles WHERE video_id = ?').run(job.video_id);
-      db.prepare('DELETE FROM videos WHERE id = ?').run(job.video_id);
+    // Imports discard what was downloaded, 'delete' also deletes the video
+    if (job.mode === 'import') {
+      cancelImportJob(jobId, mode);
+      res.json({ success: true, message: mode === 'delete' ? 'Import cancelled and video deleted' : 'Import cancelled' });
+      return;
     }
 
-    res.json({ success: true, message: 'Encoding job cancelled and video deleted' });
+    await cancelEncodingJob(jobId, mode);
+
+    res.json({ success: true, message: CANCEL_RESPONSES[mode] });
   } catch (error) {
     console.error('Error cancelling encoding job:', error);
     res.status(500).json({ error: 'Failed to cancel encoding job' });
   }
 });
 
+// Pause encoding job (a running ffmpeg is suspended and continues where it stopped on resume)
+router.post('/jobs/:jobId/pause', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const job = db.prepare('SELECT status, mode FROM encoding_jobs WHERE id = ?').get(jobId) as { status: string; mode: string | null } | undefined;
+
+    if (!job) {
+      res.status(404).json({ error: 'Encoding job not found' });
+      return;
+    }
+
+    // A paused download continues from the partial file
+    if (job.mode === 'import' && job.status === 'downloading') {
+      pauseImportJob(jobId);
+      res.json({ success: true, message: 'Download paused' });
+      return;
+    }
+
+    if (job.status !== 'pending' && job.status !== 'encoding') {
+      res.status(400).json({ error: 'Only queued or encoding jobs can be paused' });
+      return;
+    }
+
+    if (!pauseEncodingJob(jobId)) {
+      res.status(404).json({ error: 'Encoding job not found' });
+      return;
+    }
+    res.json({ success: true, message: 'Encoding job paused' });
+  } catch (error) {
+    console.error('Error pausing encoding job:', error);
+    res.status(500).json({ error: 'Failed to pause encoding job' });
+  }
+});
+
+// Resume paused encoding job
+router.post('/jobs/:jobId/resume', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const job = db.prepare('SELECT status, mode FROM encoding_jobs WHERE id = ?').get(jobId) as { status: string; mode: string | null } | undefined;
+
+    if (!job) {
+      res.status(404).json({ error: 'Encoding job not found' });
+      return;
+    }
+
+    if (job.status !== 'paused') {
+      res.status(400).json({ error: 'Job is not paused' });
+      return;
+    }
+
+    if (job.mode === 'import') {
+      resumeImportJob(jobId);
+      res.json({ success: true, message: 'Download resumed' });
+      return;
+    }
+
+    if (!resumeEncodingJob(jobId)) {
+      res.status(404).json({ error: 'Encoding job not found' });
+      return;
+    }
+    res.json({ success: true, message: 'Encoding job resumed' });
+  } catch (error) {
+    console.error('Error resuming encoding job:', error);
+    res.status(500).json({ error: 'Failed to resume encoding job' });
+  }
+});
+
+// Retry a failed job (renditions it already finished are kept)
+router.post('/jobs/:jobId/retry', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const job = db.prepare(`
+      SELECT video_id, status, input_path, mode FROM encoding_jobs WHERE id = ?
+    `).get(jobId) as { video_id: string; status: string; input_path: string | null; mode: string | null } | undefined;
+
+    if (!job) {
+      res.status(404).json({ error: 'Encoding job not found' });
+      return;
+    }
+
+    if (job.status !== 'failed') {
+      res.status(400).json({ error: 'Only failed jobs can be retried' });
+      return;
+    }
+
+    // A failed import downloads again, continuing from what it already has
+    if (job.mode === 'import') {
+      retryImportJob(jobId);
+      res.json({ success: true, message: 'Import started again' });
+      return;
+    }
+
+    if (!job.input_path || !fs.existsSync(job.input_path)) {
+      res.status(409).json({ error: 'The source file of this job is no longer available, upload the video again' });
+      return;
+    }
+
+    const activeJob = db.prepare(`
+      SELECT id FROM encoding_jobs WHERE video_id = ? AND id != ? AND status IN ('pending', 'encoding', 'paused')
+    `).get(job.video_id, jobId);
+    if (activeJob) {
+      res.status(409).json({ error: 'Another encoding job for this video is still active' });
+      return;
+    }
+
+    retryEncodingJob(jobId);
+    res.json({ success: true, message: 'Encoding job queued for retry' });
+  } catch (error) {
+    console.error('Error retrying encoding job:', error);
+    res.status(500).json({ error: 'Failed to retry encoding job' });
+  }
+});
+
+// Get the queue settings (encoding window, default priority, ffmpeg limits)
+router.get('/settings', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const settings = getQueueSettings();
+    res.json({ settings, inWindow: isInEncodingWindow(settings), priorities: PRIORITY_LEVELS });
+  } catch (error) {
+    console.error('Error fetching queue settings:', error);
+    res.status(500).json({ error: 'Failed to fetch queue settings' });
+  }
+});
+
+// Update the queue settings
+router.put('/settings', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const current = getQueueSettings();
+    const { window_enabled, window_start, window_end, default_priority, threads, niceness, encoder } = req.body;
+    const updated = {
+      window_enabled: window_enabled ?? current.window_enabled,
+      window_start: window_start ?? current.window_start,
+      window_end: window_end ?? current.window_end,
+      default_priority: default_priority ?? current.default_priority,
+      threads: threads ?? current.threads,
+      niceness: niceness ?? current.niceness,
+      encoder: encoder ?? current.encoder
+    };
+
+    const validationError = validateQueueSettings(updated);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const settings = saveQueueSettings(updated);
+
+    // The window may have just opened
+    processQueue();
+
+    res.json({ success: true, settings, inWindow: isInEncodingWindow(settings) });
+  } catch (error) {
+    console.error('Error updating queue settings:', error);
+    res.status(500).json({ error: 'Failed to update queue settings' });
+  }
+});
+
+// ffmpeg version, encoders and hwaccels from the last probe, plus the encoder chosen in the settings
+router.get('/capabilities', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const capabilities = await getEncoderCapabilities();
+    res.json({ ...capabilities, encoder: getQueueSettings().encoder });
+  } catch (error) {
+    console.error('Error fetching encoder capabilities:', error);
+    res.status(500).json({ error: 'Failed to fetch encoder capabilities' });
+  }
+});
+
+// Ask ffmpeg again (e.g. after installing drivers or a new build)
+router.post('/capabilities/probe', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const capabilities = await probeEncoderCapabilities();
+    res.json({ ...capabilities, encoder: getQueueSettings().encoder });
+  } catch (error) {
+    console.error('Error probing encoder capabilities:', error);
+    res.status(500).json({ error: 'Failed to probe encoder capabilities' });
+  }
+});
+
+// Change the priority of a queued job
+router.put('/jobs/:jobId/priority', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const { priority } = req.body;
+
+    if (!PRIORITY_VALUES.includes(priority)) {
+      res.status(400).json({ error: `Invalid priority, expected one of: ${PRIORITY_VALUES.join(', ')}` });
+      return;
+    }
+
+    const job = db.prepare('SELECT video_id, status, mode FROM encoding_jobs WHERE id = ?').get(jobId) as { video_id: string; status: string; mode: string | null } | undefined;
+
+    if (!job) {
+      res.status(404).json({ error: 'Encoding job not found' });
+      return;
+    }
+
+    if ((job.status !== 'pending' && job.status !== 'paused') || job.mode === 'import') {
+      res.status(400).json({ error: 'Only queued jobs can be reprioritized' });
+      return;
+    }
+
+    db.prepare('UPDATE encoding_jobs SET priority = ? WHERE id = ?').run(priority, jobId);
+    emitEncodingEvent('queued', jobId, job.video_id);
+    processQueue();
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error updating encoding job priority:', error);
+    res.status(500).json({ error: 'Failed to update encoding job priority' });
+  }
+});
+
+// Move a queued job one place up or down among the queued jobs of the same priority
+router.post('/jobs/:jobId/move', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const { direction } = req.body;
+
+    if (direction !== 'up' && direction !== 'down') {
+      res.status(400).json({ error: 'Direction must be "up" or "down"' });
+      return;
+    }
+
+    const job = db.prepare(`
+      SELECT video_id, status, mode, priority, queue_position FROM encoding_jobs WHERE id = ?
+    `).get(jobId) as { video_id: string; status: string; mode: string | null; priority: number; queue_position: number } | undefined;
+
+    if (!job) {
+      res.status(404).json({ error: 'Encoding job not found' });
+      return;
+    }
+
+    if ((job.status !== 'pending' && job.status !== 'paused') || job.mode === 'import') {
+      res.status(400).json({ error: 'Only queued jobs can be moved' });
+      return;
+    }
+
+    const neighbour = db.prepare(`
+      SELECT id, video_id, queue_position FROM encoding_jobs
+      WHERE status IN ('pending', 'paused') AND mode IS NOT 'import' AND priority = ? AND queue_position ${direction === 'up' ? '<' : '>'} ?
+      ORDER BY queue_position ${direction === 'up' ? 'DESC' : 'ASC'}
+      LIMIT 1
+    `).get(job.priority, job.queue_position) as { id: string; video_id: string; queue_position: number } | undefined;
+
+    if (!neighbour) {
+      res.status(400).json({ error: `Job is already at the ${direction === 'up' ? 'top' : 'bottom'} of its priority` });
+      return;
+    }
+
+    // Swap places with the neighbouring job
+    db.prepare('UPDATE encoding_jobs SET queue_position = ? WHERE id = ?').run(neighbour.queue_position, jobId);
+    db.prepare('UPDATE encoding_jobs SET queue_position = ? WHERE id = ?').run(job.queue_position, neighbour.id);
+
+    emitEncodingEvent('queued', jobId, job.video_id);
+    emitEncodingEvent('queued', neighbour.id, neighbour.video_id);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error moving encoding job:', error);
+    res.status(500).json({ error: 'Failed to move encoding job' });
+  }
+});
+
 export default router;
 
@@ -0,0 +1,197 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { nanoid } from 'nanoid';
+import db from '../database.js';
+import {
+  listProfiles,
+  getProfile,
+  validateProfileInput,
+  normalizeRungs,
+  normalizeCodecs,
+  X264_PRESETS,
+  VIDEO_CODECS,
+  SEGMENT_FORMATS
+} from '../services/profiles.js';
+
+const router = Router();
+
+// Get JWT secret dynamically
+const getJwtSecret = () => process.env.JWT_SECRET || 'anisuplayer_default_secret';
+
+// Auth middleware
+const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const token = req.cookies.auth_token;
+
+  if (!token) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    jwt.verify(token, getJwtSecret());
+    next();
+  } catch (error) {
+    console.error('JWT verification error:', error);
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Get all encoding profiles
+router.get('/', authMiddleware, (req: Request, res: Response) => {
+  try {
+    res.json({ profiles: listProfiles(), presets: X264_PRESETS, codecs: VIDEO_CODECS, segmentFormats: SEGMENT_FORMATS });
+  } catch (error) {
+    console.error('Error fetching encoding profiles:', error);
+    res.status(500).json({ error: 'Failed to fetch encoding profiles' });
+  }
+});
+
+// Create encoding profile
+router.post('/', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { name, description, rungs, codecs, segment_format, dash, audio_bitrate, preset } = req.body;
+
+    const validationError = validateProfileInput({ name, rungs, codecs, segment_format, dash, audio_bitrate, preset });
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const existing = db.prepare('SELECT id FROM encoding_profiles WHERE name = ?').get(name);
+    if (existing) {
+      res.status(409).json({ error: 'A profile with this name already exists' });
+      return;
+    }
+
+    const id = nanoid(10);
+    db.prepare(`
+      INSERT INTO encoding_profiles (id, name, description, rungs, codecs, segment_format, audio_bitrate, preset)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id,
+      name,
+      description || '',
+      JSON.stringify(normalizeRungs(rungs)),
+      JSON.stringify(normalizeCodecs(codecs)),
+      segment_format || 'ts',
+      audio_bitrate || '128k',
+      preset || 'medium'
+    );
+
+    res.json({ success: true, profile: getProfile(id) });
+  } catch (error) {
+    console.error('Error creating encoding profile:', error);
+    res.status(500).json({ error: 'Failed to create encoding profile' });
+  }
+});
+
+// Update encoding profile
+router.put('/:id', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const profile = getProfile(id);
+
+    if (!profile) {
+      res.status(404).json({ error: 'Encoding profile not found' });
+      return;
+    }
+
+    const { name, description, rungs, codecs, segment_format, dash, audio_bitrate, preset } = req.body;
+    const updated = {
+      name: name ?? profile.name,
+      description: description ?? profile.description,
+      rungs: rungs ?? profile.rungs,
+      codecs: codecs ?? profile.codecs,
+      segment_format: segment_format ?? profile.segment_format,
+      audio_bitrate: audio_bitrate ?? profile.audio_bitrate,
+      preset: preset ?? profile.preset
+    };
+
+    // dash follows the segment format, it is only checked when the request asks for it
+    const validationError = validateProfileInput({ ...updated, dash });
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const duplicate = db.prepare('SELECT id FROM encoding_profiles WHERE name = ? AND id != ?').get(updated.name, id);
+    if (duplicate) {
+      res.status(409).json({ error: 'A profile with this name already exists' });
+      return;
+    }
+
+    db.prepare(`
+      UPDATE encoding_profiles
+      SET name = ?,
+          description = ?,
+          rungs = ?,
+          codecs = ?,
+          segment_format = ?,
+          audio_bitrate = ?,
+          preset = ?,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(
+      updated.name,
+      updated.description,
+      JSON.stringify(normalizeRungs(updated.rungs)),
+      JSON.stringify(normalizeCodecs(updated.codecs)),
+      updated.segment_format,
+      updated.audio_bitrate,
+      updated.preset,
+      id
+    );
+
+    res.json({ success: true, profile: getProfile(id) });
+  } catch (error) {
+    console.error('Error updating encoding profile:', error);
+    res.status(500).json({ error: 'Failed to update encoding profile' });
+  }
+});
+
+// Make a profile the default for new uploads
+router.put('/:id/default', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!getProfile(id)) {
+      res.status(404).json({ error: 'Encoding profile not found' });
+      return;
+    }
+
+    db.prepare('UPDATE encoding_profiles SET is_default = 0').run();
+    db.prepare('UPDATE encoding_profiles SET is_default = 1 WHERE id = ?').run(id);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error setting default encoding profile:', error);
+    res.status(500).json({ error: 'Failed to set default encoding profile' });
+  }
+});
+
+// Delete encoding profile (queued jobs keep their own copy of the ladder)
+router.delete('/:id', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const profile = getProfile(id);
+
+    if (!profile) {
+      res.status(404).json({ error: 'Encoding profile not found' });
+      return;
+    }
+
+    if (profile.is_default) {
+      res.status(400).json({ error: 'The default profile cannot be deleted' });
+      return;
+    }
+
+    db.prepare('DELETE FROM encoding_profiles WHERE id = ?').run(id);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting encoding profile:', error);
+    res.status(500).json({ error: 'Failed to delete encoding profile' });
+  }
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { getStorageStatus } from '../services/storage.js';
+import { scanOrphanedFiles, cleanupOrphanedFiles } from '../services/orphans.js';
+
+const router = Router();
+
+// Get JWT secret dynamically
+const getJwtSecret = () => process.env.JWT_SECRET || 'anisuplayer_default_secret';
+
+// Auth middleware
+const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const token = req.cookies.auth_token;
+
+  if (!token) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    jwt.verify(token, getJwtSecret());
+    next();
+  } catch (error) {
+    console.error('JWT verification error:', error);
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Disk usage, quota and headroom
+router.get('/', authMiddleware, (req: Request, res: Response) => {
+  try {
+    res.json(getStorageStatus());
+  } catch (error) {
+    console.error('Error fetching storage status:', error);
+    res.status(500).json({ error: 'Failed to fetch storage status' });
+  }
+});
+
+// Dry run: files no row refers to (and rows whose file is gone), nothing is deleted
+router.get('/orphans', authMiddleware, (req: Request, res: Response) => {
+  try {
+    res.json(scanOrphanedFiles());
+  } catch (error) {
+    console.error('Error scanning for orphaned files:', error);
+    res.status(500).json({ error: 'Failed to scan storage' });
+  }
+});
+
+// Delete the orphaned files now instead of waiting for the daily cleanup
+router.post('/orphans/cleanup', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const report = cleanupOrphanedFiles();
+    res.json({ success: true, ...report });
+  } catch (error) {
+    console.error('Error cleaning up orphaned files:', error);
+    res.status(500).json({ error: 'Failed to clean up storage' });
+  }
+});
+
+export default router;
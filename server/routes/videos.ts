@@ -6,7 +6,25 @@ import { fileURLToPath } from 'url';
 import { nanoid } from 'nanoid';
 import jwt from 'jsonwebtoken';
 import db from '../database.js';
-import { startEncodingJob, getVideoInfo, generateThumbnail } from '../services/encoder.js';
+import { startEncodingJob, startReencodeJob, findUnknownResolutions, deleteVideo, getVideoInfo, generateThumbnail, generateThumbnailTrack } from '../services/encoder.js';
+import { getOriginal, getOriginalPath, registerOriginal, setOriginalRetained, purgeOriginal, getOriginalsRetentionDays } from '../services/originals.js';
+import { getProfile, getDefaultProfile } from '../services/profiles.js';
+import { dispatchWebhookEvent } from '../services/webhooks.js';
+import { checkStorageFor } from '../services/storage.js';
+import { verifyVideo, getIntegrityReport, getDamagedRenditions } from '../services/integrity.js';
+import { startImportJob, cancelImportJob } from '../services/importer.js';
+import { probeLinkedSources } from '../services/sourceProbe.js';
+import { discoverLinkedVariants } from '../services/linkedPlaylists.js';
+import { checkVideoLinks, getLinkHealth } from '../services/linkHealth.js';
+import {
+  MIRRORS_JSON_SQL,
+  validateMirrorInput,
+  addMirror,
+  updateMirror,
+  deleteMirror,
+  updateSourcePriority
+} from '../services/mirrors.js';
+import type { MirrorInput } from '../services/mirrors.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -66,6 +84,21 @@ const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
   }
 };
 
+// Reject an upload before multer writes it when the disk (or the storage quota) can't take it,
+// the request size is a close enough estimate of the file
+const storageGuard = (req: Request, res: Response, next: NextFunction) => {
+  const size = parseInt(req.headers['content-length'] || '0', 10) || 0;
+  const storageError = checkStorageFor(size);
+
+  if (storageError) {
+    console.warn(`💾 Upload rejected: ${storageError}`);
+    res.status(507).json({ error: `Not enough storage space. ${storageError}` });
+    return;
+  }
+
+  next();
+};
+
 // Get all videos
 router.get('/', authMiddleware, (req: Request, res: Response) => {
   try {
@@ -76,7 +109,9 @@ router.get('/', authMiddleware, (req: Request, res: Response) => {
           'resolution', vs.resolution,
           'url', vs.url,
           'is_local', vs.is_local,
-          'file_size', vs.file_size
+          'file_size', vs.file_size,
+          'codec', vs.codec,
+          'height', vs.height
         )) FROM video_sources vs WHERE vs.video_id = v.id) as sources,
         (SELECT json_group_array(json_object(
           'id', s.id,
@@ -84,7 +119,12 @@ router.get('/', authMiddleware, (req: Request, res: Response) => {
           'language', s.language,
           'url', s.url,
           'is_default', s.is_default
-        )) FROM subtitles s WHERE s.video_id = v.id) as subtitles
+        )) FROM subtitles s WHERE s.video_id = v.id) as subtitles,
+        (SELECT vi.status FROM video_integrity vi WHERE vi.video_id = v.id) as integrity_status,
+        (SELECT COUNT(*) FROM video_sources vs WHERE vs.video_id = v.id AND vs.link_status = 'broken')
+          + (SELECT COUNT(*) FROM subtitles s WHERE s.video_id = v.id AND s.link_status = 'broken')
+          + (SELECT COUNT(*) FROM source_mirrors m WHERE m.video_id = v.id AND m.link_status = 'broken'
+              AND m.source_id IN (SELECT id FROM video_sources)) as broken_links
       FROM videos v
       ORDER BY v.created_at DESC
     `).all();
@@ -114,7 +154,9 @@ router.get('/:id', (req: Request, res: Response) => {
           'resolution', vs.resolution,
           'url', vs.url,
           'is_local', vs.is_local,
-          'file_size', vs.file_size
+          'file_size', vs.file_size,
+          'codec', vs.codec,
+          'height', vs.height
         )) FROM video_sources vs WHERE vs.video_id = v.id) as sources,
         (SELECT json_group_array(json_object(
           'id', s.id,
@@ -145,16 +187,109 @@ router.get('/:id', (req: Request, res: Response) => {
   }
 });
 
-// Create video with links
+// Get a video with what the dashboard shows about its sources: probe results, link checks, mirrors and failovers
+router.get('/:id/details', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const video = db.prepare(`
+      SELECT v.*, 
+        (SELECT json_group_array(json_object(
+          'id', vs.id,
+          'resolution', vs.resolution,
+          'url', vs.url,
+          'is_local', vs.is_local,
+          'file_size', vs.file_size,
+          'codec', vs.codec,
+          'width', vs.width,
+          'height', vs.height,
+          'bandwidth', vs.bandwidth,
+          'detected_resolution', vs.detected_resolution,
+          'probe_error', vs.probe_error,
+          'probed_at', vs.probed_at,
+          'master_id', vs.master_id,
+          'link_status', vs.link_status,
+          'link_error', vs.link_error,
+          'link_checked_at', vs.link_checked_at,
+          'priority', vs.priority,
+          'weight', vs.weight,
+          'failover_count', vs.failover_count,
+          'mirrors', ${MIRRORS_JSON_SQL}
+        )) FROM video_sources vs WHERE vs.video_id = v.id) as sources,
+        (SELECT json_group_array(json_object(
+          'id', s.id,
+          'label', s.label,
+          'language', s.language,
+          'url', s.url,
+          'is_default', s.is_default,
+          'link_status', s.link_status,
+          'link_error', s.link_error
+        )) FROM subtitles s WHERE s.video_id = v.id) as subtitles
+      FROM videos v
+      WHERE v.id = ?
+    `).get(id) as { sources: string | null; subtitles: string | null } | undefined;
+
+    if (!video) {
+      res.status(404).json({ error: 'Video not found' });
+      return;
+    }
+
+    const parsedVideo = {
+      ...video,
+      sources: JSON.parse(video.sources || '[]'),
+      subtitles: JSON.parse(video.subtitles || '[]')
+    };
+
+    res.json(parsedVideo);
+  } catch (error) {
+    console.error('Error fetching video details:', error);
+    res.status(500).json({ error: 'Failed to fetch video details' });
+  }
+});
+
+// Mirrors of a linked source are given as URLs or { url, priority?, weight? }
+const toMirrorInputs = (mirrors: unknown): MirrorInput[] =>
+  Array.isArray(mirrors) ? mirrors.map(m => typeof m === 'string' ? { url: m } : m as MirrorInput) : [];
+
+// Create video with links. With import: true the first source (an MP4/MKV file or an HLS playlist) is downloaded
+// and encoded like an upload instead of being played from the remote host
 router.post('/link', authMiddleware, (req: Request, res: Response) => {
   try {
-    const { title, description, sources, subtitles, thumbnail } = req.body;
+    const { title, description, sources, subtitles, thumbnail, profileId } = req.body;
+    const shouldImport = req.body.import === true || req.body.import === 'true';
 
     if (!title || !sources || sources.length === 0) {
       res.status(400).json({ error: 'Title and at least one source are required' });
       return;
     }
 
+    for (const source of sources) {
+      const validationError = validateMirrorInput({ priority: source.priority, weight: source.weight }, false)
+        || toMirrorInputs(source.mirrors).map(mirror => validateMirrorInput(mirror, true)).find(Boolean);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+    }
+
+    if (shouldImport) {
+      let protocol = '';
+      try {
+        protocol = new URL(sources[0].url).protocol;
+      } catch {
+        // Reported below
+      }
+      if (protocol !== 'http:' && protocol !== 'https:') {
+        res.status(400).json({ error: 'Imported sources must be http(s) URLs' });
+        return;
+      }
+
+      if (profileId && !getProfile(profileId)) {
+        res.status(400).json({ error: 'Encoding profile not found' });
+        return;
+      }
+    }
+
     const videoId = nanoid(12);
 
     // Insert video
@@ -163,14 +298,26 @@ router.post('/link', authMiddleware, (req: Request, res: Response) => {
       VALUES (?, ?, ?, ?)
     `).run(videoId, title, description || '', thumbnail || '');
 
-    // Insert sources
+    if (shouldImport) {
+      const jobId = startImportJob(videoId, sources[0].url, profileId || undefined);
+
+      dispatchWebhookEvent('video.linked', { video_id: videoId, title, import: true, job_id: jobId, sources: [{ url: sources[0].url }] });
+
+      res.json({ success: true, videoId, jobId, message: 'Import started' });
+      return;
+    }
+
+    // Insert sources and their mirrors
     const insertSource = db.prepare(`
-      INSERT INTO video_sources (video_id, resolution, url, is_local)
-      VALUES (?, ?, ?, 0)
+      INSERT INTO video_sources (video_id, resolution, url, is_local, priority, weight)
+      VALUES (?, ?, ?, 0, ?, ?)
     `);
 
     for (const source of sources) {
-      insertSource.run(videoId, source.resolution, source.url);
+      const { lastInsertRowid } = insertSource.run(videoId, source.resolution, source.url, source.priority ?? 0, source.weight ?? 1);
+      for (const mirror of toMirrorInputs(source.mirrors)) {
+        addMirror(videoId, Number(lastInsertRowid), mirror);
+      }
     }
 
     // Insert subtitles if provided
@@ -191,7 +338,21 @@ router.post('/link', authMiddleware, (req: Request, res: Response) => {
       }
     }
 
+    dispatchWebhookEvent('video.linked', {
+      video_id: videoId,
+      title,
+      sources: sources.map((s: { resolution: string; url: string }) => ({ resolution: s.resolution, url: s.url }))
+    });
+
     res.json({ success: true, videoId });
+
+    // Variants of master playlists, duration, thumbnail and the actual size of each source are filled in once the hosts answer
+    discoverLinkedVariants(videoId)
+      .then(() => probeLinkedSources(videoId))
+      .then(() => checkVideoLinks(videoId))
+      .catch(error => {
+        console.error(`Error probing linked sources of video ${videoId}:`, error);
+      });
   } catch (error) {
     console.error('Error creating video:', error);
     res.status(500).json({ error: 'Failed to create video' });
@@ -199,14 +360,14 @@ router.post('/link', authMiddleware, (req: Request, res: Response) => {
 });
 
 // Upload video file
-router.post('/upload', authMiddleware, upload.single('video'), async (req: Request, res: Response) => {
+router.post('/upload', authMiddleware, storageGuard, upload.single('video'), async (req: Request, res: Response) => {
   try {
     if (!req.file) {
       res.status(400).json({ error: 'No video file uploaded' });
       return;
     }
 
-    const { title, description, enableEncoding } = req.body;
+    const { title, description, enableEncoding, profileId } = req.body;
     const shouldEncode = enableEncoding === 'true' || enableEncoding === true;
     
     console.log(`📤 Video upload received: ${req.file.originalname} (${(req.file.size / 1024 / 1024).toFixed(2)} MB)`);
@@ -217,6 +378,12 @@ router.post('/upload', authMiddleware, upload.single('video'), async (req: Reque
       return;
     }
 
+    if (shouldEncode && profileId && !getProfile(profileId)) {
+      fs.unlinkSync(req.file.path);
+      res.status(400).json({ error: 'Encoding profile not found' });
+      return;
+    }
+
     const videoId = nanoid(12);
     const uploadedFilePath = req.file.path;
 
@@ -230,9 +397,13 @@ router.post('/upload', authMiddleware, upload.single('video'), async (req: Reque
       // Start encoding job (existing behavior)
       try {
         console.log(`🎬 Starting encoding for video ${videoId}...`);
-        const jobId = await startEncodingJob(videoId, uploadedFilePath);
+        // Moved to the originals folder once encoded
+        registerOriginal(videoId, uploadedFilePath, req.file.originalname);
+        const jobId = await startEncodingJob(videoId, uploadedFilePath, profileId || undefined);
         console.log(`✅ Encoding job ${jobId} started successfully for video ${videoId}`);
 
+        dispatchWebhookEvent('video.uploaded', { video_id: videoId, title, encoding: true, job_id: jobId });
+
         res.json({
           success: true,
           videoId,
@@ -242,6 +413,7 @@ router.post('/upload', authMiddleware, upload.single('video'), async (req: Reque
       } catch (encodingError) {
         console.error('❌ Error starting encoding job:', encodingError);
         // Clean up video record if encoding fails
+        purgeOriginal(videoId);
         db.prepare('DELETE FROM videos WHERE id = ?').run(videoId);
         if (fs.existsSync(uploadedFilePath)) {
           fs.unlinkSync(uploadedFilePath);
@@ -278,6 +450,7 @@ router.post('/upload', authMiddleware, upload.single('video'), async (req: Reque
         const finalFileName = `original${ext}`;
         const finalFilePath = path.join(videoDir, finalFileName);
         fs.renameSync(uploadedFilePath, finalFilePath);
+        registerOriginal(videoId, finalFilePath, req.file.originalname);
 
         // Determine resolution name from video height
         let resolutionName = 'original';
@@ -301,6 +474,11 @@ router.post('/upload', authMiddleware, upload.single('video'), async (req: Reque
           VALUES (?, ?, ?, 1, ?)
         `).run(videoId, resolutionName, relativeUrl, fileSize);
 
+        // Trickplay sprites need a full pass over the file, generate them in the background
+        generateThumbnailTrack(finalFilePath, videoId, videoInfo);
+
+        dispatchWebhookEvent('video.uploaded', { video_id: videoId, title, encoding: false, url: relativeUrl });
+
         res.json({
           success: true,
           videoId,
@@ -309,6 +487,7 @@ router.post('/upload', authMiddleware, upload.single('video'), async (req: Reque
       } catch (error) {
         console.error('Error processing video without encoding:', error);
         // Clean up on error
+        purgeOriginal(videoId);
         db.prepare('DELETE FROM videos WHERE id = ?').run(videoId);
         const videoDir = path.join(__dirname, '..', '..', 'storage', 'videos', videoId);
         if (fs.existsSync(videoDir)) {
@@ -326,6 +505,372 @@ router.post('/upload', authMiddleware, upload.single('video'), async (req: Reque
   }
 });
 
+// Encode an existing video again from its kept original (add rungs, re-encode, or encode a video uploaded without encoding)
+router.post('/:id/encode', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { profileId, resolutions } = req.body;
+
+    const video = db.prepare('SELECT id FROM videos WHERE id = ?').get(id);
+    if (!video) {
+      res.status(404).json({ error: 'Video not found' });
+      return;
+    }
+
+    if (resolutions !== undefined && (!Array.isArray(resolutions) || resolutions.some((r: unknown) => typeof r !== 'string'))) {
+      res.status(400).json({ error: 'Resolutions must be a list of rung names (e.g. ["1440p"])' });
+      return;
+    }
+
+    const profile = profileId ? getProfile(profileId) : getDefaultProfile();
+    if (profileId && !profile) {
+      res.status(400).json({ error: 'Encoding profile not found' });
+      return;
+    }
+
+    const unknown = findUnknownResolutions(profile, resolutions || []);
+    if (unknown.length > 0) {
+      res.status(400).json({ error: `Not in profile ${profile?.name || 'built-in'}: ${unknown.join(', ')}` });
+      return;
+    }
+
+    const activeJob = db.prepare(`
+      SELECT id FROM encoding_jobs WHERE video_id = ? AND status IN ('pending', 'encoding', 'paused')
+    `).get(id);
+    if (activeJob) {
+      res.status(409).json({ error: 'This video already has an encoding job in progress' });
+      return;
+    }
+
+    if (!getOriginalPath(id)) {
+      res.status(409).json({ error: 'No original file is kept for this video' });
+      return;
+    }
+
+    try {
+      const jobId = await startReencodeJob(id, profile?.id, resolutions || []);
+      res.json({ success: true, videoId: id, jobId, message: 'Encoding job queued' });
+    } catch (encodingError) {
+      console.error('❌ Error starting re-encode job:', encodingError);
+      res.status(500).json({
+        error: 'Failed to start encoding job',
+        details: encodingError instanceof Error ? encodingError.message : 'Unknown error'
+      });
+    }
+  } catch (error) {
+    console.error('Error starting re-encode:', error);
+    res.status(500).json({ error: 'Failed to start encoding job' });
+  }
+});
+
+// Last integrity check of the video's HLS renditions (null if it has none or was never checked)
+router.get('/:id/integrity', authMiddleware, (req: Request, res: Response) => {
+  try {
+    res.json({ integrity: getIntegrityReport(req.params.id) });
+  } catch (error) {
+    console.error('Error fetching integrity report:', error);
+    res.status(500).json({ error: 'Failed to fetch integrity report' });
+  }
+});
+
+// Check every segment of the video's renditions now
+router.post('/:id/verify', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const video = db.prepare('SELECT id FROM videos WHERE id = ?').get(id);
+    if (!video) {
+      res.status(404).json({ error: 'Video not found' });
+      return;
+    }
+
+    res.json({ integrity: await verifyVideo(id) });
+  } catch (error) {
+    console.error('Error verifying video:', error);
+    res.status(500).json({ error: 'Failed to verify video' });
+  }
+});
+
+// Read linked master playlists again (variants, audio, subtitles) and run ffprobe against every other linked
+// source (size, codec, bitrate, duration and thumbnail)
+router.post('/:id/probe', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const video = db.prepare('SELECT id FROM videos WHERE id = ?').get(id);
+    if (!video) {
+      res.status(404).json({ error: 'Video not found' });
+      return;
+    }
+
+    const discovery = await discoverLinkedVariants(id);
+    res.json({ discovery, sources: await probeLinkedSources(id) });
+  } catch (error) {
+    console.error('Error probing video sources:', error);
+    res.status(500).json({ error: 'Failed to probe video sources' });
+  }
+});
+
+// Status and recent check history of the video's external source and subtitle links
+router.get('/:id/links', authMiddleware, (req: Request, res: Response) => {
+  try {
+    res.json({ links: getLinkHealth(req.params.id) });
+  } catch (error) {
+    console.error('Error fetching link health:', error);
+    res.status(500).json({ error: 'Failed to fetch link health' });
+  }
+});
+
+// Check the video's external links now
+router.post('/:id/check-links', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const video = db.prepare('SELECT id FROM videos WHERE id = ?').get(id);
+    if (!video) {
+      res.status(404).json({ error: 'Video not found' });
+      return;
+    }
+
+    res.json({ links: await checkVideoLinks(id) });
+  } catch (error) {
+    console.error('Error checking video links:', error);
+    res.status(500).json({ error: 'Failed to check video links' });
+  }
+});
+
+// Priority and weight of a source's own URL among its mirrors
+router.put('/:id/sources/:sourceId', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { id, sourceId } = req.params;
+    const input: MirrorInput = { priority: req.body.priority, weight: req.body.weight };
+
+    const validationError = validateMirrorInput(input, false);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    if (!updateSourcePriority(id, Number(sourceId), input)) {
+      res.status(404).json({ error: 'Video source not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error updating video source:', error);
+    res.status(500).json({ error: 'Failed to update video source' });
+  }
+});
+
+// Add a mirror URL to a source
+router.post('/:id/sources/:sourceId/mirrors', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { id, sourceId } = req.params;
+    const input: MirrorInput = { url: req.body.url, priority: req.body.priority, weight: req.body.weight };
+
+    const source = db.prepare('SELECT id FROM video_sources WHERE id = ? AND video_id = ?').get(sourceId, id);
+    if (!source) {
+      res.status(404).json({ error: 'Video source not found' });
+      return;
+    }
+
+    const validationError = validateMirrorInput(input, true);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    res.json({ mirror: addMirror(id, Number(sourceId), input) });
+  } catch (error) {
+    console.error('Error adding mirror:', error);
+    res.status(500).json({ error: 'Failed to add mirror' });
+  }
+});
+
+// Change the URL, priority or weight of a mirror
+router.put('/:id/sources/:sourceId/mirrors/:mirrorId', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { sourceId, mirrorId } = req.params;
+    const input: MirrorInput = { url: req.body.url, priority: req.body.priority, weight: req.body.weight };
+
+    const validationError = validateMirrorInput(input, false);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const mirror = updateMirror(Number(sourceId), Number(mirrorId), input);
+    if (!mirror) {
+      res.status(404).json({ error: 'Mirror not found' });
+      return;
+    }
+
+    res.json({ mirror });
+  } catch (error) {
+    console.error('Error updating mirror:', error);
+    res.status(500).json({ error: 'Failed to update mirror' });
+  }
+});
+
+router.delete('/:id/sources/:sourceId/mirrors/:mirrorId', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { sourceId, mirrorId } = req.params;
+
+    if (!deleteMirror(Number(sourceId), Number(mirrorId))) {
+      res.status(404).json({ error: 'Mirror not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting mirror:', error);
+    res.status(500).json({ error: 'Failed to delete mirror' });
+  }
+});
+
+// Re-encode only the renditions the last integrity check found damaged, audio renditions included
+router.post('/:id/repair', authMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const video = db.prepare('SELECT id FROM videos WHERE id = ?').get(id);
+    if (!video) {
+      res.status(404).json({ error: 'Video not found' });
+      return;
+    }
+
+    const report = await verifyVideo(id);
+    if (!report || report.status !== 'broken') {
+      res.status(400).json({ error: 'No damaged renditions found', integrity: report });
+      return;
+    }
+
+    const activeJob = db.prepare(`
+      SELECT id FROM encoding_jobs WHERE video_id = ? AND status IN ('pending', 'encoding', 'paused')
+    `).get(id);
+    if (activeJob) {
+      res.status(409).json({ error: 'This video already has an encoding job in progress' });
+      return;
+    }
+
+    if (!getOriginalPath(id)) {
+      res.status(409).json({ error: 'No original file is kept for this video, it can only be re-uploaded' });
+      return;
+    }
+
+    // Same profile as the renditions were encoded with, so the repaired ones match the rest
+    const lastJob = db.prepare(`
+      SELECT profile_id FROM encoding_jobs WHERE video_id = ? AND status = 'completed' ORDER BY completed_at DESC LIMIT 1
+    `).get(id) as { profile_id: string | null } | undefined;
+    const profile = (lastJob?.profile_id && getProfile(lastJob.profile_id)) || getDefaultProfile();
+
+    // Only the damaged renditions are encoded again, by their exact names (720p leaves 720p_hevc alone)
+    const damaged = getDamagedRenditions(report);
+    const renditions = [...damaged.audio, ...damaged.video];
+
+    try {
+      const jobId = await startReencodeJob(id, profile?.id, damaged.video, { exact: true, audio: damaged.audio });
+      console.log(`🩺 Repairing video ${id}: ${renditions.join(', ')}`);
+      res.json({ success: true, videoId: id, jobId, resolutions: renditions, message: 'Repair job queued' });
+    } catch (encodingError) {
+      console.error('❌ Error starting repair job:', encodingError);
+      res.status(500).json({
+        error: 'Failed to start repair job',
+        details: encodingError instanceof Error ? encodingError.message : 'Unknown error'
+      });
+    }
+  } catch (error) {
+    console.error('Error repairing video:', error);
+    res.status(500).json({ error: 'Failed to repair video' });
+  }
+});
+
+// Get the original source file of a video and the retention policy applied to it
+router.get('/:id/original', authMiddleware, (req: Request, res: Response) => {
+  try {
+    res.json({ original: getOriginal(req.params.id), retentionDays: getOriginalsRetentionDays() });
+  } catch (error) {
+    console.error('Error fetching original:', error);
+    res.status(500).json({ error: 'Failed to fetch original' });
+  }
+});
+
+// Download the original source file
+router.get('/:id/original/download', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const filePath = getOriginalPath(id);
+
+    if (!filePath) {
+      res.status(404).json({ error: 'No original file is kept for this video' });
+      return;
+    }
+
+    const original = getOriginal(id);
+    res.download(filePath, original?.original_name || path.basename(filePath));
+  } catch (error) {
+    console.error('Error downloading original:', error);
+    res.status(500).json({ error: 'Failed to download original' });
+  }
+});
+
+// Retain the original regardless of the retention policy (or release it)
+router.put('/:id/original', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { retain } = req.body;
+
+    if (!getOriginal(id)) {
+      res.status(404).json({ error: 'No original file is kept for this video' });
+      return;
+    }
+
+    if (typeof retain !== 'boolean') {
+      res.status(400).json({ error: 'retain must be true or false' });
+      return;
+    }
+
+    setOriginalRetained(id, retain);
+    res.json({ success: true, original: getOriginal(id) });
+  } catch (error) {
+    console.error('Error updating original:', error);
+    res.status(500).json({ error: 'Failed to update original' });
+  }
+});
+
+// Delete the original source file (renditions are kept, the video can no longer be re-encoded)
+router.delete('/:id/original', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const original = getOriginal(id);
+
+    if (!original) {
+      res.status(404).json({ error: 'No original file is kept for this video' });
+      return;
+    }
+
+    if (original.is_source) {
+      res.status(409).json({ error: 'The original is the only source of this video, encode it first' });
+      return;
+    }
+
+    const activeJob = db.prepare(`
+      SELECT id FROM encoding_jobs WHERE video_id = ? AND status IN ('pending', 'encoding', 'paused')
+    `).get(id);
+    if (activeJob) {
+      res.status(409).json({ error: 'This video has an encoding job in progress' });
+      return;
+    }
+
+    purgeOriginal(id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting original:', error);
+    res.status(500).json({ error: 'Failed to delete original' });
+  }
+});
+
 // Add subtitle to video (via URL)
 router.post('/:id/subtitles', authMiddleware, (req: Request, res: Response) => {
   try {
@@ -337,11 +882,13 @@ router.post('/:id/subtitles', authMiddleware, (req: Request, res: Response) => {
       return;
     }
 
-    db.prepare(`
+    const result = db.prepare(`
       INSERT INTO subtitles (video_id, label, language, url, is_default)
       VALUES (?, ?, ?, ?, ?)
     `).run(id, label, language, url, is_default ? 1 : 0);
 
+    dispatchWebhookEvent('subtitle.added', { video_id: id, subtitle_id: Number(result.lastInsertRowid), label, language, url });
+
     res.json({ success: true });
   } catch (error) {
     console.error('Error adding subtitle:', error);
@@ -734,6 +1281,8 @@ router.post('/:id/subtitles/upload', authMiddleware, (req: Request, res: Respons
       VALUES (?, ?, ?, ?, ?)
     `).run(id, label, language, relativePath, is_default === 'true' ? 1 : 0);
 
+    dispatchWebhookEvent('subtitle.added', { video_id: id, subtitle_id: Number(result.lastInsertRowid), label, language, url: relativePath });
+
     res.json({ 
       success: true, 
       subtitleId: result.lastInsertRowid,
@@ -751,7 +1300,7 @@ router.delete('/:id/subtitles/:subtitleId', authMiddleware, (req: Request, res:
     const { id, subtitleId } = req.params;
 
     // Get subtitle info
-    const subtitle = db.prepare('SELECT url FROM subtitles WHERE id = ? AND video_id = ?').get(subtitleId, id) as any;
+    const subtitle = db.prepare('SELECT url, label, language FROM subtitles WHERE id = ? AND video_id = ?').get(subtitleId, id) as { url: string; label: string; language: string } | undefined;
     
     if (!subtitle) {
       res.status(404).json({ error: 'Subtitle not found' });
@@ -769,6 +1318,13 @@ router.delete('/:id/subtitles/:subtitleId', authMiddleware, (req: Request, res:
     // Delete from database
     db.prepare('DELETE FROM subtitles WHERE id = ?').run(subtitleId);
 
+    dispatchWebhookEvent('subtitle.deleted', {
+      video_id: id,
+      subtitle_id: Number(subtitleId),
+      label: subtitle.label,
+      language: subtitle.language
+    });
+
     res.json({ success: true });
   } catch (error) {
     console.error('Error deleting subtitle:', error);
@@ -799,25 +1355,13 @@ router.delete('/:id', authMiddleware, (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    // Delete the entire video folder if it exists
-    const videoDir = path.join(__dirname, '..', '..', 'storage', 'videos', id);
-    if (fs.existsSync(videoDir)) {
-      fs.rmSync(videoDir, { recursive: true, force: true });
-      console.log(`Deleted video folder: ${videoDir}`);
-    }
-
-    // Delete thumbnail if exists
-    const thumbnailPath = path.join(__dirname, '..', '..', 'storage', 'thumbnails', `${id}.jpg`);
-    if (fs.existsSync(thumbnailPath)) {
-      fs.unlinkSync(thumbnailPath);
-      console.log(`Deleted thumbnail: ${thumbnailPath}`);
-    }
+    // Stop downloads still writing into the uploads folder
+    const imports = db.prepare(`
+      SELECT id FROM encoding_jobs WHERE video_id = ? AND mode = 'import' AND status IN ('downloading', 'paused', 'failed')
+    `).all(id) as { id: string }[];
+    imports.forEach(job => cancelImportJob(job.id, 'keep_original'));
 
-    // Delete from database (cascading will handle related records)
-    db.prepare('DELETE FROM video_sources WHERE video_id = ?').run(id);
-    db.prepare('DELETE FROM subtitles WHERE video_id = ?').run(id);
-    db.prepare('DELETE FROM encoding_jobs WHERE video_id = ?').run(id);
-    db.prepare('DELETE FROM videos WHERE id = ?').run(id);
+    deleteVideo(id);
 
     res.json({ success: true, message: 'Video and all files deleted' });
   } catch (error) {
@@ -0,0 +1,201 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { nanoid } from 'nanoid';
+import db from '../database.js';
+import {
+  listWebhooks,
+  getWebhook,
+  validateWebhookInput,
+  generateWebhookSecret,
+  sendTestDelivery,
+  redeliver,
+  WEBHOOK_EVENTS
+} from '../services/webhooks.js';
+
+const router = Router();
+
+// Get JWT secret dynamically
+const getJwtSecret = () => process.env.JWT_SECRET || 'anisuplayer_default_secret';
+
+// Auth middleware
+const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const token = req.cookies.auth_token;
+
+  if (!token) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    jwt.verify(token, getJwtSecret());
+    next();
+  } catch (error) {
+    console.error('JWT verification error:', error);
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Get all webhooks
+router.get('/', authMiddleware, (req: Request, res: Response) => {
+  try {
+    res.json({ webhooks: listWebhooks(), events: WEBHOOK_EVENTS });
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({ error: 'Failed to fetch webhooks' });
+  }
+});
+
+// Get the delivery log (most recent first, optionally for a single webhook)
+router.get('/deliveries', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const webhookId = typeof req.query.webhookId === 'string' ? req.query.webhookId : null;
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 50, 1), 200);
+
+    const deliveries = db.prepare(`
+      SELECT wd.*, w.url as webhook_url
+      FROM webhook_deliveries wd
+      LEFT JOIN webhooks w ON w.id = wd.webhook_id
+      WHERE (? IS NULL OR wd.webhook_id = ?)
+      ORDER BY wd.created_at DESC, wd.rowid DESC
+      LIMIT ?
+    `).all(webhookId, webhookId, limit);
+
+    res.json({ deliveries });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch webhook deliveries' });
+  }
+});
+
+// Send a delivery again
+router.post('/deliveries/:id/redeliver', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const delivery = db.prepare('SELECT webhook_id FROM webhook_deliveries WHERE id = ?').get(id) as { webhook_id: string } | undefined;
+
+    if (!delivery) {
+      res.status(404).json({ error: 'Delivery not found' });
+      return;
+    }
+
+    if (!getWebhook(delivery.webhook_id)) {
+      res.status(400).json({ error: 'The webhook of this delivery was deleted' });
+      return;
+    }
+
+    if (!redeliver(id)) {
+      res.status(400).json({ error: 'Delivery is still pending' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    res.status(500).json({ error: 'Failed to redeliver webhook' });
+  }
+});
+
+// Create webhook (a signing secret is generated unless one is provided)
+router.post('/', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { url, events, secret } = req.body;
+
+    const validationError = validateWebhookInput({ url, events });
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    const id = nanoid(10);
+    db.prepare(`
+      INSERT INTO webhooks (id, url, secret, events)
+      VALUES (?, ?, ?, ?)
+    `).run(id, url, secret || generateWebhookSecret(), JSON.stringify(events || []));
+
+    res.json({ success: true, webhook: getWebhook(id) });
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+// Update webhook
+router.put('/:id', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const webhook = getWebhook(id);
+
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    const { url, events, enabled, rotateSecret } = req.body;
+    const updated = {
+      url: url ?? webhook.url,
+      events: events ?? webhook.events,
+      enabled: enabled ?? webhook.enabled
+    };
+
+    const validationError = validateWebhookInput(updated);
+    if (validationError) {
+      res.status(400).json({ error: validationError });
+      return;
+    }
+
+    db.prepare(`
+      UPDATE webhooks SET url = ?, events = ?, enabled = ?, secret = ? WHERE id = ?
+    `).run(
+      updated.url,
+      JSON.stringify(updated.events),
+      updated.enabled ? 1 : 0,
+      rotateSecret ? generateWebhookSecret() : webhook.secret,
+      id
+    );
+
+    res.json({ success: true, webhook: getWebhook(id) });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+// Send a test ("ping") delivery
+router.post('/:id/test', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const webhook = getWebhook(req.params.id);
+
+    if (!webhook) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    const deliveryId = sendTestDelivery(webhook);
+    res.json({ success: true, deliveryId });
+  } catch (error) {
+    console.error('Error sending test webhook:', error);
+    res.status(500).json({ error: 'Failed to send test webhook' });
+  }
+});
+
+// Delete webhook and its delivery log
+router.delete('/:id', authMiddleware, (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!getWebhook(id)) {
+      res.status(404).json({ error: 'Webhook not found' });
+      return;
+    }
+
+    db.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').run(id);
+    db.prepare('DELETE FROM webhooks WHERE id = ?').run(id);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+export default router;
@@ -0,0 +1,356 @@
+import fs from 'fs';
+import path from 'path';
+import { parseMediaPlaylist } from './hls.js';
+
+export interface DashRepresentation {
+  id: string;
+  // fMP4 HLS playlist whose init + media segments the representation points to
+  playlistPath: string;
+  bandwidth: number;
+  codecs: string;
+  width?: number | null;
+  height?: number | null;
+  channels?: number | null;
+}
+
+export interface DashAdaptationSet {
+  contentType: 'video' | 'audio';
+  lang?: string | null;
+  label?: string | null;
+  // Signalled with the "main" role so DASH clients start with it
+  isDefault?: boolean;
+  // No manifest is written when none of its representations can be referenced
+  required?: boolean;
+  representations: DashRepresentation[];
+}
+
+// Timescale of the playlist durations, used when the segment boxes can't be read
+const PLAYLIST_TIMESCALE = 1000;
+
+interface Mp4Box {
+  type: string;
+  // Payload, after the box header
+  start: number;
+  end: number;
+}
+
+interface SegmentTime {
+  t: number;
+  d: number;
+}
+
+interface SegmentTemplate {
+  timescale: number;
+  initialization: string;
+  media: string;
+  startNumber: number;
+  times: SegmentTime[];
+  // Read from the segment boxes, otherwise the rounded playlist durations from t=0
+  exact: boolean;
+  // Presentation window in seconds, from the first segment's decode time to the end of the last one
+  start: number;
+  end: number;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDuration = (seconds: number) => `PT${seconds.toFixed(3)}S`;
+
+// Boxes found between start and end of a buffer (one level, children are read from the payload)
+function parseBoxes(buffer: Buffer, start = 0, end = buffer.length): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+
+    boxes.push({ type: buffer.toString('latin1', offset + 4, offset + 8), start: offset + header, end: offset + size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+// Follow a path of box types (e.g. moov > trak > mdia > mdhd), null when one is missing
+function findBox(buffer: Buffer, types: string[]): Mp4Box | null {
+  let box: Mp4Box | undefined;
+  let start = 0;
+  let end = buffer.length;
+
+  for (const type of types) {
+    box = parseBoxes(buffer, start, end).find(child => child.type === type);
+    if (!box) return null;
+    ({ start, end } = box);
+  }
+
+  return box || null;
+}
+
+// Read the moof boxes of a segment without loading its media data
+function readMoofBoxes(segmentPath: string): Buffer[] {
+  const fd = fs.openSync(segmentPath, 'r');
+  const moofs: Buffer[] = [];
+
+  try {
+    const fileSize = fs.fstatSync(fd).size;
+    const header = Buffer.alloc(16);
+    let offset = 0;
+
+    while (offset + 8 <= fileSize) {
+      fs.readSync(fd, header, 0, 16, offset);
+      let size = header.readUInt32BE(0);
+      if (size === 1) size = Number(header.readBigUInt64BE(8));
+      else if (size === 0) size = fileSize - offset;
+      if (size < 8) break;
+
+      if (header.toString('latin1', 4, 8) === 'moof') {
+        const moof = Buffer.alloc(size);
+        fs.readSync(fd, moof, 0, size, offset);
+        moofs.push(moof);
+      }
+      offset += size;
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  return moofs;
+}
+
+// Decode time and duration of a segment in the track timescale (tfdt + sample durations of its fragments)
+function readSegmentTime(segmentPath: string, trexDuration: number): SegmentTime | null {
+  let t: number | null = null;
+  let d = 0;
+
+  for (const moof of readMoofBoxes(segmentPath)) {
+    const traf = findBox(moof, ['moof', 'traf']);
+    if (!traf) return null;
+
+    const children = parseBoxes(moof, traf.start, traf.end);
+    const tfhd = children.find(box => box.type === 'tfhd');
+    const tfdt = children.find(box => box.type === 'tfdt');
+    if (!tfhd || !tfdt) return null;
+
+    if (t === null) {
+      t = moof[tfdt.start] === 1 ? Number(moof.readBigUInt64BE(tfdt.start + 4)) : moof.readUInt32BE(tfdt.start + 4);
+    }
+
+    // tfhd: optional fields before default-sample-duration are base-data-offset and sample-description-index
+    const tfhdFlags = moof.readUInt32BE(tfhd.start) & 0xffffff;
+    let defaultDuration = trexDuration;
+    if (tfhdFlags & 0x08) {
+      const offset = tfhd.start + 8 + (tfhdFlags & 0x01 ? 8 : 0) + (tfhdFlags & 0x02 ? 4 : 0);
+      defaultDuration = moof.readUInt32BE(offset);
+    }
+
+    for (const trun of children.filter(box => box.type === 'trun')) {
+      const flags = moof.readUInt32BE(trun.start) & 0xffffff;
+      const sampleCount = moof.readUInt32BE(trun.start + 4);
+
+      if (!(flags & 0x100)) {
+        d += sampleCount * defaultDuration;
+        continue;
+      }
+
+      // Per-sample fields follow data-offset and first-sample-flags, in the order duration, size, flags, composition offset
+      let offset = trun.start + 8 + (flags & 0x01 ? 4 : 0) + (flags & 0x04 ? 4 : 0);
+      const sampleSize = [0x100, 0x200, 0x400, 0x800].filter(flag => flags & flag).length * 4;
+      for (let i = 0; i < sampleCount; i++, offset += sampleSize) {
+        d += moof.readUInt32BE(offset);
+      }
+    }
+  }
+
+  return t === null || d === 0 ? null : { t, d };
+}
+
+// Timescale-exact segment times read from the init and media segments, null when they can't be read
+function readSegmentTimes(dir: string, mapUri: string, segmentUris: string[]): { timescale: number; times: SegmentTime[] } | null {
+  try {
+    const init = fs.readFileSync(path.join(dir, mapUri));
+    const mdhd = findBox(init, ['moov', 'trak', 'mdia', 'mdhd']);
+    if (!mdhd) return null;
+
+    const timescale = init.readUInt32BE(mdhd.start + (init[mdhd.start] === 1 ? 20 : 12));
+    const trex = findBox(init, ['moov', 'mvex', 'trex']);
+    const trexDuration = trex ? init.readUInt32BE(trex.start + 12) : 0;
+
+    const times: SegmentTime[] = [];
+    for (const uri of segmentUris) {
+      const time = readSegmentTime(path.join(dir, uri), trexDuration);
+      if (!time) return null;
+      times.push(time);
+    }
+
+    return timescale > 0 ? { timescale, times } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Read the SegmentTemplate of a representation from its HLS playlist (fMP4 only)
+function buildSegmentTemplate(playlistPath: string): SegmentTemplate | null {
+  if (!fs.existsSync(playlistPath)) return null;
+
+  const playlist = parseMediaPlaylist(fs.readFileSync(playlistPath, 'utf-8'));
+  if (!playlist.mapUri || playlist.segments.length === 0) return null;
+
+  // ffmpeg names segments <name>_000.m4s, <name>_001.m4s, ...
+  const match = playlist.segments[0].uri.match(/^(.*_)(\d+)(\.m4s)$/);
+  if (!match) return null;
+
+  const dir = path.dirname(playlistPath);
+  if (!fs.existsSync(path.join(dir, playlist.mapUri))) return null;
+
+  const [, prefix, firstNumber, extension] = match;
+  const exact = readSegmentTimes(dir, playlist.mapUri, playlist.segments.map(segment => segment.uri));
+
+  let timescale = PLAYLIST_TIMESCALE;
+  let times: SegmentTime[] = [];
+  if (exact) {
+    ({ timescale, times } = exact);
+  } else {
+    console.warn(`⚠️ Could not read the segment timing of ${playlistPath}, using the playlist durations`);
+    let time = 0;
+    for (const segment of playlist.segments) {
+      const d = Math.round(segment.duration * PLAYLIST_TIMESCALE);
+      times.push({ t: time, d });
+      time += d;
+    }
+  }
+
+  const last = times[times.length - 1];
+  return {
+    timescale,
+    initialization: playlist.mapUri,
+    media: `${prefix}$Number%0${firstNumber.length}d$${extension}`,
+    startNumber: parseInt(firstNumber, 10),
+    times,
+    exact: !!exact,
+    start: times[0].t / timescale,
+    end: (last.t + last.d) / timescale
+  };
+}
+
+// SegmentTemplate element, presentationStart (seconds) is mapped to the start of the period
+function renderSegmentTemplate(template: SegmentTemplate, presentationStart: number): string[] {
+  // Collapse contiguous segments of equal duration into a single <S> with a repeat count
+  const entries: { t: number; d: number; r: number }[] = [];
+
+  for (const { t, d } of template.times) {
+    const last = entries[entries.length - 1];
+    if (last && last.d === d && last.t + last.d * (last.r + 1) === t) {
+      last.r++;
+    } else {
+      entries.push({ t, d, r: 0 });
+    }
+  }
+
+  const timeline = entries.map(e => e.r > 0 ? `<S t="${e.t}" d="${e.d}" r="${e.r}"/>` : `<S t="${e.t}" d="${e.d}"/>`);
+  const attributes = [
+    `timescale="${template.timescale}"`,
+    `presentationTimeOffset="${Math.round(presentationStart * template.timescale)}"`,
+    `initialization="${escapeXml(template.initialization)}"`,
+    `media="${escapeXml(template.media)}"`,
+    `startNumber="${template.startNumber}"`
+  ];
+
+  return [
+    `<SegmentTemplate ${attributes.join(' ')}>`,
+    '  <SegmentTimeline>',
+    ...timeline.map(s => `    ${s}`),
+    '  </SegmentTimeline>',
+    '</SegmentTemplate>'
+  ];
+}
+
+// Write a static MPD referencing existing fMP4 renditions, returns false if no video (or a required set) could be referenced
+export function writeDashManifest(mpdPath: string, adaptationSets: DashAdaptationSet[]): boolean {
+  const templates = new Map<DashRepresentation, SegmentTemplate>();
+  for (const rep of adaptationSets.flatMap(set => set.representations)) {
+    const template = buildSegmentTemplate(rep.playlistPath);
+    if (template) templates.set(rep, template);
+  }
+
+  // The period starts with the earliest rendition, so a start PTS above 0 doesn't become a gap
+  const exactStarts = [...templates.values()].filter(t => t.exact).map(t => t.start);
+  const presentationStart = exactStarts.length > 0 ? Math.min(...exactStarts) : 0;
+  const periodStart = (template: SegmentTemplate) => template.exact ? presentationStart : 0;
+  const duration = Math.max(0, ...[...templates.values()].map(t => t.end - periodStart(t)));
+
+  const body: string[] = [];
+  let setId = 0;
+  let hasVideo = false;
+
+  for (const set of adaptationSets) {
+    const representations: string[] = [];
+
+    for (const rep of set.representations) {
+      const template = templates.get(rep);
+      if (!template) continue;
+
+      const attributes = [
+        `id="${escapeXml(rep.id)}"`,
+        `bandwidth="${rep.bandwidth}"`,
+        `codecs="${escapeXml(rep.codecs)}"`
+      ];
+      if (rep.width && rep.height) {
+        attributes.push(`width="${rep.width}"`, `height="${rep.height}"`);
+      }
+
+      representations.push(`      <Representation ${attributes.join(' ')}>`);
+      if (rep.channels) {
+        representations.push(`        <AudioChannelConfiguration schemeIdUri="urn:mpeg:dash:23003:3:audio_channel_configuration:2011" value="${rep.channels}"/>`);
+      }
+      representations.push(...renderSegmentTemplate(template, periodStart(template)).map(line => `        ${line}`));
+      representations.push('      </Representation>');
+    }
+
+    if (representations.length === 0) {
+      if (set.required) return false;
+      continue;
+    }
+    if (set.contentType === 'video') hasVideo = true;
+
+    const attributes = [
+      `id="${setId++}"`,
+      `contentType="${set.contentType}"`,
+      `mimeType="${set.contentType}/mp4"`,
+      'segmentAlignment="true"',
+      'startWithSAP="1"'
+    ];
+    if (set.lang) attributes.push(`lang="${escapeXml(set.lang)}"`);
+
+    body.push(`    <AdaptationSet ${attributes.join(' ')}>`);
+    if (set.label) body.push(`      <Label>${escapeXml(set.label)}</Label>`);
+    if (set.isDefault) body.push('      <Role schemeIdUri="urn:mpeg:dash:role:2011" value="main"/>');
+    body.push(...representations);
+    body.push('    </AdaptationSet>');
+  }
+
+  if (!hasVideo) return false;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" profiles="urn:mpeg:dash:profile:isoff-live:2011" type="static" mediaPresentationDuration="${formatDuration(duration)}" minBufferTime="PT2S">`,
+    '  <Period id="0" start="PT0S">',
+    ...body,
+    '  </Period>',
+    '</MPD>'
+  ];
+
+  // Write then rename so players never fetch a half-written manifest while it is regenerated
+  fs.writeFileSync(`${mpdPath}.tmp`, lines.join('\n') + '\n');
+  fs.renameSync(`${mpdPath}.tmp`, mpdPath);
+  return true;
+}
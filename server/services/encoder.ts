@@ -1,54 +1,365 @@
 import ffmpeg from 'fluent-ffmpeg';
 import path from 'path';
 import fs from 'fs';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { fileURLToPath } from 'url';
 import { nanoid } from 'nanoid';
 import db from '../database.js';
-
-const execAsync = promisify(exec);
+import { getProfile, getDefaultProfile, VIDEO_CODECS } from './profiles.js';
+import type { EncodingProfile, VideoCodec, SegmentFormat } from './profiles.js';
+import { AAC_LC_CODEC, buildVideoCodecString, getWrittenDuration, measureRendition, writeMasterPlaylist } from './hls.js';
+import type { MasterAudioRendition } from './hls.js';
+import { writeDashManifest } from './dash.js';
+import type { DashAdaptationSet } from './dash.js';
+import { generateTrickplay } from './trickplay.js';
+import { emitEncodingEvent } from './events.js';
+import { appendJobLog } from './jobLogs.js';
+import { getQueueSettings, isInEncodingWindow, PRIORITY_LEVELS } from './queueSettings.js';
+import { probeEncoderCapabilities } from './encoderCapabilities.js';
+import type { HardwareEncoder } from './encoderCapabilities.js';
+import { dispatchWebhookEvent } from './webhooks.js';
+import { getOriginalPath, keepOriginal, purgeOriginal } from './originals.js';
+import { checkStorageFor } from './storage.js';
+import { verifyVideo } from './integrity.js';
+import type { TrickplaySource } from './trickplay.js';
+import { classifyEncodingFailure, TRANSIENT_FAILURES } from './failures.js';
+import type { EncodingFailureClass } from './failures.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 interface Resolution {
+  kind: 'video';
   name: string;
+  label: string;
+  codec: VideoCodec;
+  segmentFormat: SegmentFormat;
   width: number;
   height: number;
   bitrate: string;
   audioBitrate: string;
+  crf: number;
+  preset: string;
+  // Video-only rendition, audio comes from the separate audio rendition(s)
+  separateAudio?: boolean;
+}
+
+// Audio-only rendition of one source audio stream, shared by all demuxed video renditions
+interface AudioRendition {
+  kind: 'audio';
+  name: string;
+  label: string;
+  language?: string | null;
+  // Absolute ffprobe stream index (missing in snapshots that only encoded the first audio stream)
+  streamIndex?: number;
+  isDefault?: boolean;
+  bitrate: string;
+  channels: number;
+}
+
+// Audio stream of the source file as reported by ffprobe
+interface SourceAudioStream {
+  index: number;
+  language: string;
+  title: string | null;
+  isDefault: boolean;
 }
 
+type LadderEntry = Resolution | AudioRendition;
+
+// Fallback ladder for jobs queued without a profile snapshot
 // Resolutions ordered from LOWEST to HIGHEST
 // This ensures lower quality encodes first (faster), then higher quality
 const RESOLUTIONS: Resolution[] = [
-  { name: '360p', width: 640, height: 360, bitrate: '600k', audioBitrate: '96k' },
-  { name: '480p', width: 854, height: 480, bitrate: '1000k', audioBitrate: '128k' },
-  { name: '720p', width: 1280, height: 720, bitrate: '2500k', audioBitrate: '128k' },
-  { name: '1080p', width: 1920, height: 1080, bitrate: '5000k', audioBitrate: '192k' }
+  { kind: 'video', name: '360p', label: '360p', codec: 'h264', segmentFormat: 'ts', width: 640, height: 360, bitrate: '600k', audioBitrate: '96k', crf: 23, preset: 'medium' },
+  { kind: 'video', name: '480p', label: '480p', codec: 'h264', segmentFormat: 'ts', width: 854, height: 480, bitrate: '1000k', audioBitrate: '128k', crf: 23, preset: 'medium' },
+  { kind: 'video', name: '720p', label: '720p', codec: 'h264', segmentFormat: 'ts', width: 1280, height: 720, bitrate: '2500k', audioBitrate: '128k', crf: 23, preset: 'medium' },
+  { kind: 'video', name: '1080p', label: '1080p', codec: 'h264', segmentFormat: 'ts', width: 1920, height: 1080, bitrate: '5000k', audioBitrate: '192k', crf: 23, preset: 'medium' }
 ];
 
-// Track active encoding processes for cancellation
+// Per-codec settings relative to the H.264 rung (HEVC/AV1 reach the same quality with less bitrate)
+const CODEC_SETTINGS: Record<VideoCodec, { encoder: string; bitrateFactor: number; crfOffset: number }> = {
+  h264: { encoder: 'libx264', bitrateFactor: 1, crfOffset: 0 },
+  hevc: { encoder: 'libx265', bitrateFactor: 0.6, crfOffset: 5 },
+  av1: { encoder: 'libsvtav1', bitrateFactor: 0.5, crfOffset: 10 }
+};
+
+// libx264 preset names mapped to SVT-AV1 presets (0 = slowest, 13 = fastest)
+const SVT_AV1_PRESETS: Record<string, number> = {
+  ultrafast: 12, superfast: 11, veryfast: 10, faster: 9, fast: 8,
+  medium: 7, slow: 6, slower: 5, veryslow: 4
+};
+
+// Turn an encoding profile into the ladder used by the encoder
+// H.264 rungs come first (lowest to highest) so the video is playable everywhere as early as possible
+function resolutionsFromProfile(profile: EncodingProfile): Resolution[] {
+  const rungs = [...profile.rungs].sort((a, b) => a.height - b.height);
+  const codecs = profile.codecs && profile.codecs.length > 0 ? profile.codecs : ['h264' as VideoCodec];
+
+  return VIDEO_CODECS.filter(codec => codecs.includes(codec)).flatMap(codec =>
+    rungs.map(rung => {
+      const settings = CODEC_SETTINGS[codec];
+
+      // Nominal 16:9 width, the real width is derived from the source aspect ratio
+      let width = Math.round(rung.height * 16 / 9);
+      if (width % 2 !== 0) width += 1;
+
+      return {
+        kind: 'video' as const,
+        name: codec === 'h264' ? rung.name : `${rung.name}_${codec}`,
+        label: rung.name,
+        codec,
+        // HEVC and AV1 in HLS require fragmented MP4 segments
+        segmentFormat: codec === 'h264' ? profile.segment_format : 'fmp4' as SegmentFormat,
+        width,
+        height: rung.height,
+        bitrate: `${Math.round(parseInt(rung.bitrate) * settings.bitrateFactor)}k`,
+        audioBitrate: rung.audioBitrate || profile.audio_bitrate,
+        crf: (rung.crf ?? 23) + settings.crfOffset,
+        preset: profile.preset
+      };
+    })
+  );
+}
+
+// Ladder snapshots written before codec support only contain (muxed) H.264 rungs
+function normalizeLadder(ladder: Partial<LadderEntry>[]): LadderEntry[] {
+  return ladder.map(entry => {
+    if (entry.kind === 'audio') return entry as AudioRendition;
+
+    const r = entry as Partial<Resolution>;
+    return {
+      ...r,
+      kind: 'video',
+      label: r.label || r.name,
+      codec: r.codec || 'h264',
+      segmentFormat: r.segmentFormat || (r.codec && r.codec !== 'h264' ? 'fmp4' : 'ts')
+    } as Resolution;
+  });
+}
+
+// One audio rendition per source audio stream, the stream flagged as default (or the first one) plays by default
+function buildAudioRenditions(streams: SourceAudioStream[], bitrate: string): AudioRendition[] {
+  const defaultStream = streams.find(s => s.isDefault) || streams[0];
+  const labels = new Set<string>();
+
+  return streams.map((stream, i) => {
+    // NAME must be unique within the audio group
+    let label = stream.title || (stream.language !== 'und' ? stream.language : `Audio ${i + 1}`);
+    if (labels.has(label)) label = `${label} (${i + 1})`;
+    labels.add(label);
+
+    return {
+      kind: 'audio' as const,
+      name: `audio_${i}`,
+      label,
+      language: stream.language !== 'und' ? stream.language : null,
+      streamIndex: stream.index,
+      isDefault: stream === defaultStream,
+      bitrate,
+      channels: 2
+    };
+  });
+}
+
+// Row shape of the encoding_jobs table
+export interface EncodingJobRow {
+  id: string;
+  video_id: string;
+  status: string;
+  progress: number;
+  current_resolution: string | null;
+  resolutions_completed: string;
+  resolutions_pending: string;
+  started_at: string | null;
+  completed_at: string | null;
+  estimated_time_remaining: number | null;
+  error: string | null;
+  input_path: string | null;
+  source_width: number | null;
+  source_height: number | null;
+  profile_id: string | null;
+  ladder: string | null;
+  // 'initial' for the upload's own job, 'reencode' for jobs adding/replacing renditions of an existing video,
+  // 'import' for the download of a linked file that is handed over to an initial job once it is complete
+  mode: string | null;
+  // Runs started so far, and how many of them were automatic retries of a transient failure
+  attempts: number | null;
+  auto_retries: number | null;
+  failure_class: EncodingFailureClass | null;
+  next_retry_at: string | null;
+  priority: number | null;
+  queue_position: number | null;
+  // Bytes the renditions are expected to take, a job only starts once they fit
+  estimated_size: number | null;
+  // Import jobs: remote URL, bytes downloaded so far and the total (null while unknown)
+  source_url: string | null;
+  downloaded_bytes: number | null;
+  download_size: number | null;
+  // HLS imports: segments downloaded so far, all of them once they are joined into input_path
+  segments_downloaded: number | null;
+}
+
+// What happens to the video when its job is cancelled:
+// keep_renditions lists whatever finished, keep_original drops the renditions but keeps the source for a later
+// re-encode, delete removes the video and all its files
+export type CancelMode = 'keep_renditions' | 'keep_original' | 'delete';
+export const CANCEL_MODES: CancelMode[] = ['keep_renditions', 'keep_original', 'delete'];
+
+// Track active encoding processes for cancellation and pausing
 const activeEncodings: Map<string, { 
   command: any; 
   videoId: string;
   cancelled: boolean;
+  cancelMode: CancelMode;
+  // Paused jobs keep their ffmpeg process (SIGSTOP) but don't count against the concurrency limit
+  paused: boolean;
+  pausedAt: number | null;
+  // Time spent paused, left out of the remaining time estimate
+  pausedMs: number;
 }> = new Map();
 
-// Export function to cancel encoding
-export function cancelEncoding(jobId: string): boolean {
+// Progress is streamed live on every ffmpeg tick but only persisted this often
+const PROGRESS_WRITE_INTERVAL = 5000;
+
+// Lines of ffmpeg output kept in the job log when a pass ends
+const OUTPUT_TAIL_LINES = 200;
+
+// Maximum number of jobs encoding at the same time (read dynamically, env is loaded after imports)
+const getMaxConcurrentEncodings = () => Math.max(1, parseInt(process.env.MAX_CONCURRENT_ENCODINGS || '1', 10) || 1);
+
+// Delay before each automatic retry of a transient failure (seconds), the job stays failed after the last one
+const RETRY_DELAYS = [60, 300, 1800];
+// Jobs waiting for disk space are looked at again after this long (seconds)
+const STORAGE_WAIT_DELAY = 300;
+// Muxing overhead (segment headers, playlists) on top of the bitrates
+const SIZE_OVERHEAD = 1.1;
+// How often scheduled retries are looked for
+const RETRY_POLL_INTERVAL = 30000;
+
+// Cancel a job: a running one is killed and cleaned up by its own job loop, a queued or paused one right away
+export async function cancelEncodingJob(jobId: string, mode: CancelMode): Promise<void> {
   const encoding = activeEncodings.get(jobId);
   if (encoding) {
     encoding.cancelled = true;
+    encoding.cancelMode = mode;
+    encoding.paused = false;
     try {
-      encoding.command.kill('SIGKILL');
+      encoding.command?.kill('SIGKILL');
     } catch (e) {
       console.error('Error killing ffmpeg process:', e);
     }
-    return true;
+    return;
+  }
+
+  const job = db.prepare('SELECT * FROM encoding_jobs WHERE id = ?').get(jobId) as EncodingJobRow | undefined;
+  if (job) {
+    await finishCancelledJob(job, mode);
+  }
+}
+
+// Pause a job: a running ffmpeg is stopped in place (SIGSTOP), a queued job is held back from the queue.
+// Returns false if the job doesn't exist
+export function pauseEncodingJob(jobId: string): boolean {
+  const job = db.prepare('SELECT video_id FROM encoding_jobs WHERE id = ?').get(jobId) as { video_id: string } | undefined;
+  if (!job) return false;
+
+  const encoding = activeEncodings.get(jobId);
+  if (encoding) {
+    encoding.paused = true;
+    encoding.pausedAt = Date.now();
+    try {
+      encoding.command?.kill('SIGSTOP');
+    } catch (e) {
+      console.error('Error pausing ffmpeg process:', e);
+    }
+  }
+
+  db.prepare(`UPDATE encoding_jobs SET status = 'paused', estimated_time_remaining = NULL WHERE id = ?`).run(jobId);
+  emitEncodingEvent('paused', jobId, job.video_id);
+  appendJobLog(jobId, 'Job paused');
+  console.log(`⏸️  Encoding job ${jobId} paused`);
+
+  // The freed slot goes to the next queued job
+  processQueue();
+  return true;
+}
+
+// Resume a paused job: its ffmpeg continues where it stopped (SIGCONT), a job without one goes back to the queue.
+// A resumed process continues even if the slot it left was taken meanwhile, the limit catches up as jobs finish.
+// Returns false if the job doesn't exist
+export function resumeEncodingJob(jobId: string): boolean {
+  const job = db.prepare('SELECT video_id FROM encoding_jobs WHERE id = ?').get(jobId) as { video_id: string } | undefined;
+  if (!job) return false;
+
+  const encoding = activeEncodings.get(jobId);
+
+  if (encoding) {
+    encoding.paused = false;
+    encoding.pausedMs += Date.now() - (encoding.pausedAt ?? Date.now());
+    encoding.pausedAt = null;
+    try {
+      encoding.command?.kill('SIGCONT');
+    } catch (e) {
+      console.error('Error resuming ffmpeg process:', e);
+    }
+    db.prepare(`UPDATE encoding_jobs SET status = 'encoding' WHERE id = ?`).run(jobId);
+  } else {
+    db.prepare(`UPDATE encoding_jobs SET status = 'pending' WHERE id = ?`).run(jobId);
+  }
+
+  emitEncodingEvent('resumed', jobId, job.video_id);
+  appendJobLog(jobId, 'Job resumed');
+  console.log(`▶️  Encoding job ${jobId} resumed`);
+  processQueue();
+  return true;
+}
+
+// Queue a failed job again, it continues after the renditions it already finished
+export function retryEncodingJob(jobId: string): void {
+  const job = db.prepare('SELECT video_id FROM encoding_jobs WHERE id = ?').get(jobId) as { video_id: string };
+
+  db.prepare(`
+    UPDATE encoding_jobs
+    SET status = 'pending',
+        error = NULL,
+        auto_retries = 0,
+        next_retry_at = NULL,
+        completed_at = NULL,
+        estimated_time_remaining = NULL
+    WHERE id = ?
+  `).run(jobId);
+  emitEncodingEvent('queued', jobId, job.video_id);
+  appendJobLog(jobId, 'Job queued again for a manual retry');
+  console.log(`🔁 Encoding job ${jobId} queued for retry`);
+
+  processQueue();
+}
+
+// A job stops at its next check once cancelled, or once its video was deleted (which drops it from the map)
+const isJobCancelled = (jobId: string) => activeEncodings.get(jobId)?.cancelled ?? true;
+
+// Stop the running jobs of a video that is being deleted. They leave the map right away so the job loop
+// doesn't touch the rows or files of the deleted video once ffmpeg exits
+export function stopVideoEncodings(videoId: string): void {
+  for (const [jobId, encoding] of activeEncodings) {
+    if (encoding.videoId !== videoId) continue;
+
+    encoding.cancelled = true;
+    try {
+      encoding.command?.kill('SIGKILL');
+    } catch (e) {
+      console.error('Error killing ffmpeg process:', e);
+    }
+    activeEncodings.delete(jobId);
+    console.log(`⏹️ Encoding job ${jobId} stopped, video ${videoId} is being deleted`);
+  }
+}
+
+// Hold a paused job before it starts its next ffmpeg pass
+async function waitWhilePaused(jobId: string): Promise<void> {
+  while (activeEncodings.get(jobId)?.paused) {
+    await new Promise(resolve => setTimeout(resolve, 1000));
   }
-  return false;
 }
 
 // Export function to get active job ID for a video
@@ -63,6 +374,9 @@ export function getActiveJobForVideo(videoId: string): string | null {
 
 // Delete video and all associated files
 export function deleteVideoFiles(videoId: string): void {
+  // The original may still be in the uploads folder if the video was never encoded
+  purgeOriginal(videoId);
+
   const videoDir = path.join(__dirname, '..', '..', 'storage', 'videos', videoId);
   if (fs.existsSync(videoDir)) {
     fs.rmSync(videoDir, { recursive: true, force: true });
@@ -76,7 +390,30 @@ export function deleteVideoFiles(videoId: string): void {
   }
 }
 
-export async function getVideoInfo(filePath: string): Promise<{ width: number; height: number; duration: number }> {
+// Delete a video with its files and database rows (foreign keys aren't enforced, so row by row).
+// Downloads of the video are cancelled by the caller
+export function deleteVideo(videoId: string): void {
+  const video = db.prepare('SELECT title FROM videos WHERE id = ?').get(videoId) as { title: string } | undefined;
+
+  // A running encode would write into the folder again and update the deleted rows when ffmpeg exits
+  stopVideoEncodings(videoId);
+  deleteVideoFiles(videoId);
+
+  db.prepare('DELETE FROM source_mirrors WHERE video_id = ?').run(videoId);
+  db.prepare('DELETE FROM video_sources WHERE video_id = ?').run(videoId);
+  db.prepare('DELETE FROM audio_tracks WHERE video_id = ?').run(videoId);
+  db.prepare('DELETE FROM subtitles WHERE video_id = ?').run(videoId);
+  db.prepare('DELETE FROM encoding_jobs WHERE video_id = ?').run(videoId);
+  db.prepare('DELETE FROM video_integrity WHERE video_id = ?').run(videoId);
+  db.prepare('DELETE FROM link_checks WHERE video_id = ?').run(videoId);
+  db.prepare('DELETE FROM videos WHERE id = ?').run(videoId);
+
+  if (video) {
+    dispatchWebhookEvent('video.deleted', { video_id: videoId, title: video.title });
+  }
+}
+
+export async function getVideoInfo(filePath: string): Promise<{ width: number; height: number; duration: number; audioStreams: SourceAudioStream[] }> {
   return new Promise((resolve, reject) => {
     ffmpeg.ffprobe(filePath, (err, metadata) => {
       if (err) {
@@ -93,7 +430,15 @@ export async function getVideoInfo(filePath: string): Promise<{ width: number; h
       resolve({
         width: videoStream.width || 1920,
         height: videoStream.height || 1080,
-        duration: metadata.format.duration || 0
+        duration: metadata.format.duration || 0,
+        audioStreams: metadata.streams
+          .filter(s => s.codec_type === 'audio')
+          .map(s => ({
+            index: s.index,
+            language: s.tags?.language || 'und',
+            title: s.tags?.title || null,
+            isDefault: s.disposition?.default === 1
+          }))
       });
     });
   });
@@ -101,8 +446,8 @@ export async function getVideoInfo(filePath: string): Promise<{ width: number; h
 
 // Get target resolutions (already ordered from lowest to highest)
 // Filter to only include resolutions <= source height
-function getTargetResolutions(sourceHeight: number): Resolution[] {
-  return RESOLUTIONS.filter(r => r.height <= sourceHeight);
+function getTargetResolutions(ladder: Resolution[], sourceHeight: number): Resolution[] {
+  return ladder.filter(r => r.height <= sourceHeight);
 }
 
 // Calculate proper dimensions maintaining aspect ratio and ensuring even numbers
@@ -120,178 +465,324 @@ function calculateDimensions(sourceWidth: number, sourceHeight: number, targetHe
   return { width, height };
 }
 
-// Check for GPU availability
-async function checkGPUAvailable(): Promise<{ available: boolean; type: 'nvenc' | 'qsv' | 'vaapi' | 'amf' | null }> {
-  try {
-    // Use ffmpeg command to list encoders
-    const { stdout, stderr } = await execAsync('ffmpeg -hide_banner -encoders 2>&1');
-    const output = stdout || stderr || '';
-    
-    // Check for NVIDIA NVENC (highest priority for performance)
-    if (output.includes('h264_nvenc')) {
-      console.log('✅ GPU detected: NVIDIA NVENC (h264_nvenc)');
-      return { available: true, type: 'nvenc' };
-    }
-    
-    // Check for AMD AMF (Advanced Media Framework)
-    if (output.includes('h264_amf')) {
-      console.log('✅ GPU detected: AMD AMF (h264_amf)');
-      return { available: true, type: 'amf' };
-    }
-    
-    // Check for Intel Quick Sync (h264_qsv)
-    if (output.includes('h264_qsv')) {
-      console.log('✅ GPU detected: Intel Quick Sync (h264_qsv)');
-      return { available: true, type: 'qsv' };
-    }
-    
-    // Check for VAAPI (Linux - supports Intel, AMD, and others)
-    if (output.includes('h264_vaapi')) {
-      console.log('✅ GPU detected: VAAPI (h264_vaapi) - supports Intel/AMD/others');
-      return { available: true, type: 'vaapi' };
-    }
-    
-    console.log('⚠️  No GPU encoder found, will use CPU encoding (libx264)');
-    return { available: false, type: null };
-  } catch (error) {
-    console.log('⚠️  Could not check GPU encoders, will use CPU encoding:', error);
-    return { available: false, type: null };
+// List encoder names supported by the installed ffmpeg (null if ffmpeg can't be queried)
+async function listFFmpegEncoders(): Promise<Set<string> | null> {
+  const { encoders, error } = await probeEncoderCapabilities();
+  return error && encoders.length === 0 ? null : new Set(encoders.map(e => e.name));
+}
+
+// Probe an encoded rendition and build its CODECS attribute (video + audio)
+function probeRenditionCodecs(playlistPath: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(playlistPath, (err, metadata) => {
+      if (err) {
+        console.error('Error probing rendition codecs:', err.message);
+        resolve(null);
+        return;
+      }
+
+      const videoStream = metadata.streams.find(s => s.codec_type === 'video');
+      const hasAudio = metadata.streams.some(s => s.codec_type === 'audio');
+      const videoCodec = videoStream ? buildVideoCodecString(videoStream) : null;
+
+      if (!videoCodec) {
+        resolve(null);
+        return;
+      }
+
+      resolve(hasAudio ? `${videoCodec},${AAC_LC_CODEC}` : videoCodec);
+    });
+  });
+}
+
+type GPUConfig = { available: boolean; type: HardwareEncoder | null; forced: boolean };
+
+// Hardware H.264 encoder to use: the one forced in the queue settings, or the best one ffmpeg reports
+async function checkGPUAvailable(): Promise<GPUConfig> {
+  const { encoder } = getQueueSettings();
+
+  if (encoder === 'cpu') {
+    console.log('💻 CPU-only encoding forced in settings');
+    return { available: false, type: null, forced: true };
+  }
+  if (encoder !== 'auto') {
+    console.log(`🎮 Encoder forced in settings: h264_${encoder}`);
+    return { available: true, type: encoder, forced: true };
+  }
+
+  const { detected } = await probeEncoderCapabilities();
+  return { available: detected !== null, type: detected, forced: false };
+}
+
+// Remember which video encoders actually produced the renditions of a job (comma separated)
+function recordJobEncoders(jobId: string, encoders: string[]): void {
+  const row = db.prepare('SELECT encoder FROM encoding_jobs WHERE id = ?').get(jobId) as { encoder: string | null } | undefined;
+  if (!row) return;
+
+  const used = new Set([...(row.encoder ? row.encoder.split(', ') : []), ...encoders]);
+  db.prepare('UPDATE encoding_jobs SET encoder = ? WHERE id = ?').run([...used].join(', '), jobId);
+}
+
+// Video encoder options of one rendition plus the filter that scales the shared decoded frames for it
+function buildVideoOutput(resolution: Resolution, width: number, height: number, gpuType: GPUConfig['type']): { filter: string; options: string[]; encoder: string } {
+  const scale = `scale=${width}:${height}`;
+  const rateControl = [
+    `-b:v ${resolution.bitrate}`,
+    `-maxrate ${resolution.bitrate}`,
+    `-bufsize ${parseInt(resolution.bitrate) * 2}k`
+  ];
+
+  if (resolution.codec === 'hevc') {
+    // HEVC (libx265), tagged hvc1 so Apple devices accept it
+    console.log(`💻 Using CPU (libx265) for ${resolution.name}`);
+    return {
+      filter: scale,
+      encoder: 'libx265',
+      options: [
+        '-c:v libx265',
+        `-preset ${resolution.preset}`,
+        `-crf ${resolution.crf}`,
+        '-tag:v hvc1',
+        '-pix_fmt yuv420p',
+        '-x265-params log-level=error',
+        `-maxrate ${resolution.bitrate}`,
+        `-bufsize ${parseInt(resolution.bitrate) * 2}k`
+      ]
+    };
+  }
+
+  if (resolution.codec === 'av1') {
+    // AV1 (SVT-AV1), capped CRF
+    console.log(`💻 Using CPU (libsvtav1) for ${resolution.name}`);
+    return {
+      filter: scale,
+      encoder: 'libsvtav1',
+      options: [
+        '-c:v libsvtav1',
+        `-preset ${SVT_AV1_PRESETS[resolution.preset] ?? 7}`,
+        `-crf ${resolution.crf}`,
+        '-pix_fmt yuv420p',
+        `-svtav1-params mbr=${parseInt(resolution.bitrate)}`
+      ]
+    };
+  }
+
+  // H.264 - prioritize GPU, fallback to CPU
+  switch (gpuType) {
+    case 'nvenc':
+      // NVIDIA NVENC
+      console.log(`🎮 Using GPU (NVIDIA NVENC) for ${resolution.name}`);
+      return {
+        filter: scale,
+        encoder: 'h264_nvenc',
+        options: [
+          '-c:v h264_nvenc',
+          '-preset p4', // NVENC preset (p1-p7, p4 is balanced)
+          '-rc vbr',
+          '-cq 23',
+          ...rateControl
+        ]
+      };
+    case 'amf':
+      // AMD AMF (Advanced Media Framework)
+      console.log(`🎮 Using GPU (AMD AMF) for ${resolution.name}`);
+      return {
+        filter: scale,
+        encoder: 'h264_amf',
+        options: [
+          '-c:v h264_amf',
+          '-quality speed', // balanced, speed, quality
+          '-rc vbr_peak',
+          '-qmin 18',
+          '-qmax 28',
+          ...rateControl
+        ]
+      };
+    case 'qsv':
+      // Intel Quick Sync, fed with NV12 frames from the shared software scaler
+      console.log(`🎮 Using GPU (Intel Quick Sync) for ${resolution.name}`);
+      return {
+        filter: `${scale},format=nv12`,
+        encoder: 'h264_qsv',
+        options: [
+          '-c:v h264_qsv',
+          '-preset medium',
+          '-global_quality 23',
+          ...rateControl
+        ]
+      };
+    case 'vaapi':
+      // VAAPI (Linux - supports Intel, AMD, and others), frames are uploaded after scaling
+      console.log(`🎮 Using GPU (VAAPI) for ${resolution.name}`);
+      return {
+        filter: `${scale},format=nv12,hwupload`,
+        encoder: 'h264_vaapi',
+        options: [
+          '-c:v h264_vaapi',
+          '-qp 23',
+          ...rateControl
+        ]
+      };
+    default:
+      // CPU fallback (libx264)
+      console.log(`💻 Using CPU (libx264) for ${resolution.name}`);
+      return {
+        filter: scale,
+        encoder: 'libx264',
+        options: [
+          '-c:v libx264',
+          `-preset ${resolution.preset}`,
+          `-crf ${resolution.crf}`,
+          ...rateControl
+        ]
+      };
   }
 }
 
-async function encodeToHLS(
+// HLS muxer options of one rendition
+function buildHLSOptions(outputDir: string, name: string, segmentFormat: SegmentFormat): string[] {
+  // fMP4 (CMAF) renditions get an init segment plus .m4s media segments
+  const useFmp4 = segmentFormat === 'fmp4';
+  const options = [
+    '-f hls',
+    '-hls_time 6',
+    '-hls_list_size 0',
+    '-hls_segment_filename', path.join(outputDir, `${name}_%03d.${useFmp4 ? 'm4s' : 'ts'}`),
+    '-hls_playlist_type vod'
+  ];
+
+  if (useFmp4) {
+    options.push(
+      '-hls_segment_type fmp4',
+      `-hls_fmp4_init_filename ${name}_init.mp4`,
+      '-hls_flags independent_segments'
+    );
+  }
+
+  return options;
+}
+
+// Encode several renditions in a single ffmpeg pass: the source is decoded once and split/scaled
+// into every video rendition, audio renditions are encoded from the same input
+async function encodeRenditions(
   inputPath: string,
   outputDir: string,
-  resolution: Resolution,
+  entries: LadderEntry[],
   sourceWidth: number,
   sourceHeight: number,
   jobId: string,
   onProgress: (progress: number) => void,
   useGPU: boolean = true
 ): Promise<void> {
-  const { width, height } = calculateDimensions(sourceWidth, sourceHeight, resolution.height);
-  const playlistPath = path.join(outputDir, `${resolution.name}.m3u8`);
-  const segmentPattern = path.join(outputDir, `${resolution.name}_%03d.ts`);
+  const videos = entries.filter((e): e is Resolution => e.kind === 'video');
+  const names = entries.map(e => e.name).join(', ');
 
-  // Check GPU availability if useGPU is true
-  let gpuConfig: { available: boolean; type: 'nvenc' | 'qsv' | 'vaapi' | 'amf' | null } = { available: false, type: null };
-  if (useGPU) {
+  // Check GPU availability if useGPU is true (GPU encoders are only used for H.264)
+  let gpuConfig: GPUConfig = { available: false, type: null, forced: false };
+  if (useGPU && videos.some(v => v.codec === 'h264')) {
     try {
       gpuConfig = await checkGPUAvailable();
     } catch (gpuError) {
       console.log('⚠️  Error checking GPU, falling back to CPU:', gpuError);
-      gpuConfig = { available: false, type: null };
+      gpuConfig = { available: false, type: null, forced: false };
     }
   }
-  
-  // Log which encoder will be used
-  if (gpuConfig.available) {
-    console.log(`🎮 Using GPU encoder: ${gpuConfig.type} for ${resolution.name}`);
-  } else {
-    console.log(`💻 Using CPU encoder (libx264) for ${resolution.name}`);
-  }
 
   return new Promise((resolve, reject) => {
-    const outputOptions: string[] = [];
-    
-    // Video encoder settings - prioritize GPU, fallback to CPU
-    if (gpuConfig.available && gpuConfig.type === 'nvenc') {
-      // NVIDIA NVENC
-      outputOptions.push(
-        '-c:v h264_nvenc',
-        '-preset p4', // NVENC preset (p1-p7, p4 is balanced)
-        '-rc vbr',
-        '-cq 23',
-        `-b:v ${resolution.bitrate}`,
-        `-maxrate ${resolution.bitrate}`,
-        `-bufsize ${parseInt(resolution.bitrate) * 2}k`,
-        `-vf scale=${width}:${height}`
-      );
-      console.log(`🎮 Using GPU (NVIDIA NVENC) for ${resolution.name}`);
-    } else if (gpuConfig.available && gpuConfig.type === 'amf') {
-      // AMD AMF (Advanced Media Framework)
-      outputOptions.push(
-        '-c:v h264_amf',
-        '-quality speed', // balanced, speed, quality
-        '-rc vbr_peak',
-        '-qmin 18',
-        '-qmax 28',
-        `-b:v ${resolution.bitrate}`,
-        `-maxrate ${resolution.bitrate}`,
-        `-bufsize ${parseInt(resolution.bitrate) * 2}k`,
-        `-vf scale=${width}:${height}`
-      );
-      console.log(`🎮 Using GPU (AMD AMF) for ${resolution.name}`);
-    } else if (gpuConfig.available && gpuConfig.type === 'qsv') {
-      // Intel Quick Sync
-      outputOptions.push(
-        '-c:v h264_qsv',
-        '-preset medium',
-        '-global_quality 23',
-        `-b:v ${resolution.bitrate}`,
-        `-maxrate ${resolution.bitrate}`,
-        `-bufsize ${parseInt(resolution.bitrate) * 2}k`,
-        `-vf scale_qsv=w=${width}:h=${height}`
-      );
-      console.log(`🎮 Using GPU (Intel Quick Sync) for ${resolution.name}`);
-    } else if (gpuConfig.available && gpuConfig.type === 'vaapi') {
-      // VAAPI (Linux - supports Intel, AMD, and others)
-      outputOptions.push(
-        '-c:v h264_vaapi',
-        '-qp 23',
-        `-b:v ${resolution.bitrate}`,
-        `-maxrate ${resolution.bitrate}`,
-        `-bufsize ${parseInt(resolution.bitrate) * 2}k`,
-        `-vf scale_vaapi=w=${width}:h=${height}`
-      );
-      console.log(`🎮 Using GPU (VAAPI) for ${resolution.name}`);
-    } else {
-      // CPU fallback (libx264)
-      outputOptions.push(
-        '-c:v libx264',
-        '-preset medium',
-        '-crf 23',
-        `-vf scale=${width}:${height}`,
-        `-b:v ${resolution.bitrate}`,
-        `-maxrate ${resolution.bitrate}`,
-        `-bufsize ${parseInt(resolution.bitrate) * 2}k`
-      );
-      console.log(`💻 Using CPU (libx264) for ${resolution.name}`);
+    // Thread and niceness limits keep the API responsive while encoding
+    const { threads, niceness } = getQueueSettings();
+    const command = ffmpeg(inputPath, { stdoutLines: OUTPUT_TAIL_LINES, niceness });
+    // The build configuration adds nothing to the job log
+    command.inputOptions(['-hide_banner']);
+
+    if (gpuConfig.type === 'vaapi') {
+      command.inputOptions(['-vaapi_device /dev/dri/renderD128']);
     }
-    
-    // Audio settings (same for all)
-    outputOptions.push(
-      '-c:a aac',
-      `-b:a ${resolution.audioBitrate}`,
-      '-ar 44100'
-    );
-    
-    // HLS settings
-    outputOptions.push(
-      '-f hls',
-      '-hls_time 6',
-      '-hls_list_size 0',
-      '-hls_segment_filename', segmentPattern,
-      '-hls_playlist_type vod'
-    );
 
-    console.log(`🚀 Starting FFmpeg encoding for ${resolution.name}...`);
-    console.log(`📋 Command options: ${outputOptions.join(' ')}`);
-    
-    const command = ffmpeg(inputPath)
-      .outputOptions(outputOptions)
-      .output(playlistPath)
+    if (threads > 0) {
+      command.inputOptions([`-threads ${threads}`, `-filter_complex_threads ${threads}`]);
+    }
+
+    // Decode once, split the video into one branch per rendition and scale each branch
+    const filters: string[] = [];
+    const outputs = videos.map((resolution, i) => {
+      const { width, height } = calculateDimensions(sourceWidth, sourceHeight, resolution.height);
+      const output = buildVideoOutput(resolution, width, height, gpuConfig.type);
+      filters.push(`[s${i}]${output.filter}[v${i}]`);
+      return output;
+    });
+
+    if (videos.length > 0) {
+      const branches = videos.map((_, i) => `[s${i}]`).join('');
+      command.complexFilter([`[0:v:0]split=${videos.length}${branches}`, ...filters].join(';'));
+    }
+
+    for (const entry of entries) {
+      const outputOptions: string[] = [];
+
+      if (entry.kind === 'audio') {
+        // One source audio stream, always fMP4 so it can be shared by TS and fMP4 video renditions
+        outputOptions.push(
+          `-map ${entry.streamIndex !== undefined ? `0:${entry.streamIndex}` : '0:a:0'}`,
+          '-c:a aac',
+          `-b:a ${entry.bitrate}`,
+          `-ac ${entry.channels}`,
+          '-ar 44100',
+          ...buildHLSOptions(outputDir, entry.name, 'fmp4')
+        );
+      } else {
+        const index = videos.indexOf(entry);
+        outputOptions.push(`-map [v${index}]`, ...outputs[index].options);
+
+        // Audio settings (same for all), demuxed renditions carry no audio
+        if (!entry.separateAudio) {
+          outputOptions.push(
+            '-map 0:a:0?',
+            '-c:a aac',
+            `-b:a ${entry.audioBitrate}`,
+            '-ar 44100'
+          );
+        }
+
+        if (entry.segmentFormat === 'fmp4') {
+          // Keyframes every 6s so segment boundaries line up across renditions (DASH switching)
+          outputOptions.push('-force_key_frames expr:gte(t,n_forced*6)');
+        }
+
+        outputOptions.push(...buildHLSOptions(outputDir, entry.name, entry.segmentFormat));
+      }
+
+      if (threads > 0) {
+        outputOptions.push(`-threads ${threads}`);
+      }
+
+      command
+        .output(path.join(outputDir, `${entry.name}.m3u8`))
+        .outputOptions(outputOptions);
+    }
+
+    console.log(`🚀 Starting FFmpeg encoding for ${names}...`);
+
+    command
       .on('start', (commandLine) => {
-        console.log(`▶️  FFmpeg command started for ${resolution.name}`);
+        console.log(`▶️  FFmpeg command started for ${names}`);
         console.log(`📝 Command: ${commandLine}`);
+        const encoders = [...new Set(outputs.map(o => o.encoder))].join(', ') || 'audio only';
+        appendJobLog(jobId, `Encoding ${names} with ${encoders}${gpuConfig.forced ? ' (forced in settings)' : ''}\n$ ${commandLine}`);
+
+        // Paused while the process was being spawned
+        if (activeEncodings.get(jobId)?.paused) {
+          command.kill('SIGSTOP');
+        }
       })
       .on('progress', (progress) => {
         // Check if cancelled
-        const encoding = activeEncodings.get(jobId);
-        if (encoding?.cancelled) {
+        if (isJobCancelled(jobId)) {
           command.kill('SIGKILL');
           return;
         }
+        // Output still buffered when the process was stopped
+        if (activeEncodings.get(jobId)?.paused) return;
         
         // Use percent if available, otherwise use frames processed
         let progressPercent = 0;
@@ -308,39 +799,44 @@ async function encodeToHLS(
         
         // Log progress for debugging
         if (progressPercent > 0 && progressPercent % 10 < 1) {
-          console.log(`📊 ${resolution.name} encoding progress: ${progressPercent.toFixed(1)}%`);
+          console.log(`📊 ${names} encoding progress: ${progressPercent.toFixed(1)}%`);
         }
       })
-      .on('end', () => {
-        console.log(`✅ FFmpeg encoding completed for ${resolution.name}`);
+      .on('end', (_stdout, stderr) => {
+        console.log(`✅ FFmpeg encoding completed for ${names}`);
+        appendJobLog(jobId, `ffmpeg finished ${names}\n${stderr || ''}`);
+        recordJobEncoders(jobId, outputs.map(o => o.encoder));
         resolve();
       })
-      .on('error', async (err) => {
+      .on('error', async (err, _stdout, stderr) => {
         // Check if error is due to cancellation
-        const encoding = activeEncodings.get(jobId);
-        if (encoding?.cancelled) {
+        if (isJobCancelled(jobId)) {
+          appendJobLog(jobId, `ffmpeg stopped for ${names} (job cancelled)`);
           reject(new Error('CANCELLED'));
           return;
         }
+
+        appendJobLog(jobId, `ffmpeg failed for ${names}\n${stderr || err.message}`);
         
-        console.error(`❌ FFmpeg error for ${resolution.name}:`, err.message);
+        console.error(`❌ FFmpeg error for ${names}:`, err.message);
         console.error(`📋 Full error:`, err);
         
-        // If GPU encoding failed and we haven't tried CPU yet, retry with CPU
-        if (gpuConfig.available && useGPU) {
-          console.log(`🔄 GPU encoding failed for ${resolution.name}, falling back to CPU...`);
+        // If GPU encoding failed and we haven't tried CPU yet, retry with CPU (a forced encoder fails instead)
+        if (gpuConfig.available && useGPU && !gpuConfig.forced) {
+          console.log(`🔄 GPU encoding failed for ${names}, falling back to CPU...`);
           try {
-            await encodeToHLS(inputPath, outputDir, resolution, sourceWidth, sourceHeight, jobId, onProgress, false);
+            await encodeRenditions(inputPath, outputDir, entries, sourceWidth, sourceHeight, jobId, onProgress, false);
             resolve();
             return;
           } catch (cpuErr) {
-            console.error(`❌ CPU encoding also failed for ${resolution.name}:`, cpuErr);
+            console.error(`❌ CPU encoding also failed for ${names}:`, cpuErr);
             reject(cpuErr);
             return;
           }
         }
         
-        reject(err);
+        // ffmpeg's output is what the job failure gets classified from
+        reject(Object.assign(err, { stderr }));
       });
 
     // Store reference to command for cancellation
@@ -353,23 +849,150 @@ async function encodeToHLS(
   });
 }
 
-async function generateMasterPlaylist(outputDir: string, resolutions: Resolution[], videoId: string): Promise<void> {
-  const lines = ['#EXTM3U', '#EXT-X-VERSION:3'];
-  
-  // Sort resolutions from lowest to highest for master playlist
-  // (already in order, but ensure consistency)
-  const sortedResolutions = [...resolutions].sort((a, b) => a.height - b.height);
-  
-  for (const res of sortedResolutions) {
-    const bandwidth = parseInt(res.bitrate) * 1000;
-    const { width, height } = { width: res.width, height: res.height };
-    
-    lines.push(`#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${width}x${height},NAME="${res.name}"`);
-    lines.push(`${res.name}.m3u8`);
+// Row shape of a local HLS rendition in video_sources
+interface RenditionSourceRow {
+  resolution: string;
+  url: string;
+  codec: string | null;
+  codecs: string | null;
+  width: number | null;
+  height: number | null;
+  bandwidth: number | null;
+}
+
+// Row shape of the audio_tracks table
+interface AudioTrackRow {
+  id: number;
+  video_id: string;
+  name: string;
+  label: string;
+  language: string | null;
+  url: string;
+  codecs: string | null;
+  bandwidth: number | null;
+  channels: number | null;
+  is_default: number;
+}
+
+const AUDIO_GROUP_ID = 'audio';
+
+function getLocalRenditions(videoId: string): RenditionSourceRow[] {
+  return db.prepare(`
+    SELECT resolution, url, codec, codecs, width, height, bandwidth FROM video_sources
+    WHERE video_id = ? AND is_local = 1 AND resolution NOT IN ('auto', 'dash') AND url LIKE ?
+  `).all(videoId, `/storage/videos/${videoId}/%.m3u8`) as RenditionSourceRow[];
+}
+
+function getAudioTracks(videoId: string): AudioTrackRow[] {
+  return db.prepare('SELECT * FROM audio_tracks WHERE video_id = ? ORDER BY is_default DESC, id ASC').all(videoId) as AudioTrackRow[];
+}
+
+// Video-only renditions have no audio codec in their CODECS string
+const isDemuxed = (row: RenditionSourceRow) => !!row.codecs && !row.codecs.includes('mp4a');
+
+// Build master.m3u8 from the renditions recorded in video_sources
+// H.264 variants are listed first so clients without codec selection start with the most compatible one
+async function generateMasterPlaylist(outputDir: string, videoId: string): Promise<void> {
+  const rows = getLocalRenditions(videoId);
+  const audioTracks = getAudioTracks(videoId);
+  const audioBandwidth = Math.max(0, ...audioTracks.map(t => t.bandwidth || 0));
+  const audioCodecs = audioTracks[0]?.codecs || AAC_LC_CODEC;
+
+  const codecOrder = (codec: string | null) => {
+    const index = VIDEO_CODECS.indexOf((codec || 'h264') as VideoCodec);
+    return index === -1 ? VIDEO_CODECS.length : index;
+  };
+
+  const variants = rows
+    .map(row => {
+      const uri = path.basename(row.url);
+      const stats = measureRendition(path.join(outputDir, uri));
+      // Demuxed variants are played together with the alternate audio renditions
+      const withAudioGroup = audioTracks.length > 0 && isDemuxed(row);
+
+      return {
+        uri,
+        name: row.codec && row.codec !== 'h264' ? `${row.resolution} ${row.codec.toUpperCase()}` : row.resolution,
+        codec: row.codec,
+        bandwidth: (stats?.bandwidth || row.bandwidth || 0) + (withAudioGroup ? audioBandwidth : 0),
+        averageBandwidth: stats?.averageBandwidth || null,
+        width: row.width,
+        height: row.height ?? (parseInt(row.resolution) || null),
+        codecs: withAudioGroup ? `${row.codecs},${audioCodecs}` : row.codecs,
+        audioGroup: withAudioGroup ? AUDIO_GROUP_ID : null
+      };
+    })
+    .filter(v => v.bandwidth > 0)
+    .sort((a, b) => codecOrder(a.codec) - codecOrder(b.codec) || (a.height || 0) - (b.height || 0));
+
+  const audio: MasterAudioRendition[] = audioTracks.map(track => ({
+    groupId: AUDIO_GROUP_ID,
+    name: track.label,
+    uri: path.basename(track.url),
+    language: track.language,
+    channels: track.channels,
+    isDefault: !!track.is_default
+  }));
+
+  writeMasterPlaylist(path.join(outputDir, 'master.m3u8'), variants, audio);
+}
+
+// Write manifest.mpd for the demuxed fMP4 renditions and register it as the 'dash' source
+// MPEG-TS and muxed renditions can't be referenced from DASH and are left out, so MPEG-TS profiles
+// get no manifest (their HEVC / AV1 renditions alone would leave DASH clients without H.264)
+function generateDashManifest(outputDir: string, videoId: string): void {
+  const mpdPath = path.join(outputDir, 'manifest.mpd');
+  const rows = getLocalRenditions(videoId).filter(isDemuxed);
+  const adaptationSets: DashAdaptationSet[] = [];
+
+  // One adaptation set per codec, players can't switch codecs inside a set
+  for (const codec of VIDEO_CODECS) {
+    const representations = rows
+      .filter(row => (row.codec || 'h264') === codec)
+      .sort((a, b) => (a.height || 0) - (b.height || 0))
+      .map(row => ({
+        id: path.basename(row.url, '.m3u8'),
+        playlistPath: path.join(outputDir, path.basename(row.url)),
+        bandwidth: row.bandwidth || 0,
+        codecs: row.codecs as string,
+        width: row.width,
+        height: row.height
+      }));
+
+    if (representations.length > 0 || codec === 'h264') {
+      adaptationSets.push({ contentType: 'video', required: codec === 'h264', representations });
+    }
   }
-  
-  const masterPath = path.join(outputDir, 'master.m3u8');
-  fs.writeFileSync(masterPath, lines.join('\n'));
+
+  for (const track of getAudioTracks(videoId)) {
+    adaptationSets.push({
+      contentType: 'audio',
+      lang: track.language,
+      label: track.label,
+      isDefault: !!track.is_default,
+      representations: [{
+        id: track.name,
+        playlistPath: path.join(outputDir, path.basename(track.url)),
+        bandwidth: track.bandwidth || 0,
+        codecs: track.codecs || AAC_LC_CODEC,
+        channels: track.channels
+      }]
+    });
+  }
+
+  db.prepare(`DELETE FROM video_sources WHERE video_id = ? AND resolution = 'dash'`).run(videoId);
+
+  if (!writeDashManifest(mpdPath, adaptationSets)) {
+    if (fs.existsSync(mpdPath)) fs.unlinkSync(mpdPath);
+    return;
+  }
+
+  db.prepare(`
+    INSERT INTO video_sources (video_id, resolution, url, is_local, file_size)
+    VALUES (?, 'dash', ?, 1, 0)
+  `).run(videoId, `/storage/videos/${videoId}/manifest.mpd`);
+
+  console.log(`📄 DASH manifest written for video ${videoId}`);
 }
 
 export async function generateThumbnail(inputPath: string, videoId: string): Promise<string> {
@@ -398,6 +1021,26 @@ export async function generateThumbnail(inputPath: string, videoId: string): Pro
   });
 }
 
+// Generate trickplay sprites + WebVTT index into storage/videos/<id>/trickplay and store the track URL
+export async function generateThumbnailTrack(inputPath: string, videoId: string, source: TrickplaySource): Promise<string> {
+  const trickplayDir = path.join(__dirname, '..', '..', 'storage', 'videos', videoId, 'trickplay');
+
+  try {
+    console.log(`🖼️  Generating trickplay thumbnails for video ${videoId}...`);
+    if (!await generateTrickplay(inputPath, trickplayDir, source)) {
+      return '';
+    }
+
+    const trackUrl = `/storage/videos/${videoId}/trickplay/thumbnails.vtt`;
+    db.prepare('UPDATE videos SET thumbnail_track = ? WHERE id = ?').run(trackUrl, videoId);
+    console.log(`✅ Trickplay thumbnails generated for video ${videoId}`);
+    return trackUrl;
+  } catch (err) {
+    console.error('Trickplay generation error:', err);
+    return ''; // Previews are optional, don't fail the whole process
+  }
+}
+
 // Extract embedded subtitles from video file
 export async function extractSubtitles(inputPath: string, videoId: string): Promise<{ label: string; language: string; url: string; is_default: boolean }[]> {
   const subtitlesDir = path.join(__dirname, '..', '..', 'storage', 'subtitles', videoId);
@@ -631,10 +1274,68 @@ function convertSrtToVttSimple(srtContent: string): string {
   return vttContent;
 }
 
-export async function startEncodingJob(videoId: string, inputPath: string): Promise<string> {
+// Drop codecs the installed ffmpeg can't encode instead of failing those rungs later
+async function filterAvailableCodecs(ladder: Resolution[]): Promise<Resolution[]> {
+  if (!ladder.some(r => r.codec !== 'h264')) return ladder;
+
+  const encoders = await listFFmpegEncoders();
+  if (!encoders) return ladder;
+
+  let available = ladder;
+  for (const codec of VIDEO_CODECS) {
+    if (codec !== 'h264' && available.some(r => r.codec === codec) && !encoders.has(CODEC_SETTINGS[codec].encoder)) {
+      console.log(`⚠️  ${CODEC_SETTINGS[codec].encoder} is not available in ffmpeg, skipping ${codec} renditions`);
+      available = available.filter(r => r.codec !== codec);
+    }
+  }
+  return available;
+}
+
+// Each source audio stream becomes an alternate audio rendition shared by video-only renditions.
+// fMP4 renditions are always demuxed (DASH can't use muxed segments), MPEG-TS ones only
+// when there is more than one track to choose from. With existingAudio the video already has
+// its audio renditions, new video renditions just share them
+function buildJobEntries(
+  resolutions: Resolution[],
+  audioStreams: SourceAudioStream[],
+  audioBitrate: string,
+  existingAudio = false
+): LadderEntry[] {
+  if (existingAudio && audioStreams.length > 0) {
+    return resolutions.map(r => ({ ...r, separateAudio: true }));
+  }
+
+  if (audioStreams.length > 1 || (audioStreams.length === 1 && resolutions.some(r => r.segmentFormat === 'fmp4'))) {
+    return [
+      ...buildAudioRenditions(audioStreams, audioBitrate),
+      ...resolutions.map(r => r.segmentFormat === 'fmp4' || audioStreams.length > 1 ? { ...r, separateAudio: true } : r)
+    ];
+  }
+
+  return resolutions;
+}
+
+// Rough size of the renditions from their target bitrates (the bitrates are caps, so this errs on the large side)
+function estimateJobSize(entries: LadderEntry[], duration: number): number {
+  const kbps = entries.reduce((total, entry) => {
+    if (entry.kind === 'audio') return total + parseInt(entry.bitrate);
+    return total + parseInt(entry.bitrate) + (entry.separateAudio ? 0 : parseInt(entry.audioBitrate));
+  }, 0);
+
+  return Math.round(kbps * 1000 / 8 * duration * SIZE_OVERHEAD);
+}
+
+export async function startEncodingJob(videoId: string, inputPath: string, profileId?: string): Promise<string> {
   const jobId = nanoid(12);
 
   try {
+    // Resolve the encoding profile (falls back to the default profile)
+    const profile = profileId ? getProfile(profileId) : getDefaultProfile();
+    if (profileId && !profile) {
+      throw new Error(`Encoding profile not found: ${profileId}`);
+    }
+    const ladder = await filterAvailableCodecs(profile ? resolutionsFromProfile(profile) : RESOLUTIONS);
+
     // Validate input file exists
     if (!fs.existsSync(inputPath)) {
       throw new Error(`Input video file not found: ${inputPath}`);
@@ -687,39 +1388,38 @@ export async function startEncodingJob(videoId: string, inputPath: string): Prom
     }
 
     // Determine target resolutions (ordered from lowest to highest)
-    const targetResolutions = getTargetResolutions(videoInfo.height);
+    const targetResolutions = getTargetResolutions(ladder, videoInfo.height);
 
     if (targetResolutions.length === 0) {
       throw new Error('Source video resolution too low');
     }
 
+    const entries = buildJobEntries(targetResolutions, videoInfo.audioStreams, profile?.audio_bitrate || '128k');
+
     // Create encoding job - resolutions pending shows the order (lowest first)
+    // The job is persisted with everything needed to run it, so it survives restarts
     db.prepare(`
-      INSERT INTO encoding_jobs (id, video_id, status, resolutions_pending, started_at)
-      VALUES (?, ?, 'pending', ?, datetime('now'))
-    `).run(jobId, videoId, JSON.stringify(targetResolutions.map(r => r.name)));
-
-    // Register in active encodings
-    activeEncodings.set(jobId, {
-      command: null,
+      INSERT INTO encoding_jobs (id, video_id, status, resolutions_pending, started_at, input_path, source_width, source_height, profile_id, ladder, priority, estimated_size, queue_position)
+      VALUES (?, ?, 'pending', ?, datetime('now'), ?, ?, ?, ?, ?, ?, ?, (SELECT COALESCE(MAX(queue_position), 0) + 1 FROM encoding_jobs))
+    `).run(
+      jobId,
       videoId,
-      cancelled: false
-    });
+      JSON.stringify(entries.map(r => r.name)),
+      inputPath,
+      videoInfo.width,
+      videoInfo.height,
+      profile?.id || null,
+      JSON.stringify(entries),
+      getQueueSettings().default_priority,
+      estimateJobSize(entries, videoInfo.duration)
+    );
 
-    // Start encoding in background (will encode from lowest to highest resolution)
-    // Don't await - let it run in background, but catch errors
-    processEncodingJob(jobId, videoId, inputPath, targetResolutions, videoInfo.width, videoInfo.height)
-      .catch((error) => {
-        console.error(`❌ Error in encoding job ${jobId}:`, error);
-        // Update job status to failed
-        db.prepare(`
-          UPDATE encoding_jobs 
-          SET status = 'failed', error = ?, completed_at = datetime('now')
-          WHERE id = ?
-        `).run(error instanceof Error ? error.message : 'Unknown error', jobId);
-      });
+    emitEncodingEvent('queued', jobId, videoId);
 
-    console.log(`📊 Encoding job ${jobId} registered. Target resolutions: ${targetResolutions.map(r => r.name).join(', ')}`);
+    // Let the queue start it as soon as a slot is free
+    processQueue();
+
+    console.log(`📊 Encoding job ${jobId} queued (profile: ${profile?.name || 'built-in'}). Target resolutions: ${entries.map(r => r.name).join(', ')}`);
     return jobId;
   } catch (error) {
     console.error('Error starting encoding job:', error);
@@ -727,22 +1427,412 @@ export async function startEncodingJob(videoId: string, inputPath: string): Prom
   }
 }
 
-async function processEncodingJob(
-  jobId: string,
-  videoId: string,
-  inputPath: string,
-  resolutions: Resolution[],
-  sourceWidth: number,
-  sourceHeight: number
-) {
+// Requested names missing from the profile's ladder (built-in one without a profile). Both the rung
+// name (720p, re-encoding every codec) and the rendition name (720p_hevc, just that codec) are accepted
+export function findUnknownResolutions(profile: EncodingProfile | null, resolutionNames: string[]): string[] {
+  const ladder = profile ? resolutionsFromProfile(profile) : RESOLUTIONS;
+  return resolutionNames.filter(name => !ladder.some(r => r.label === name || r.name === name));
+}
+
+// Narrower selection used to repair damaged renditions
+export interface ReencodeOptions {
+  // Match resolutionNames against rendition names only (720p is then just the H.264 rendition, not 720p_hevc)
+  exact?: boolean;
+  // Audio renditions (e.g. audio_1) encoded again, the video renditions keep sharing the other ones
+  audio?: string[];
+}
+
+// Queue a job that adds or replaces renditions of an existing video, encoded from its kept original.
+// resolutionNames selects rungs of the profile by name (e.g. ['1440p']) or by rendition name (e.g. '720p_hevc'), all rungs when empty
+export async function startReencodeJob(videoId: string, profileId?: string, resolutionNames: string[] = [], options: ReencodeOptions = {}): Promise<string> {
+  const jobId = nanoid(12);
+
+  const inputPath = getOriginalPath(videoId);
+  if (!inputPath) {
+    throw new Error(`No original file kept for video ${videoId}`);
+  }
+
+  const profile = profileId ? getProfile(profileId) : getDefaultProfile();
+  if (profileId && !profile) {
+    throw new Error(`Encoding profile not found: ${profileId}`);
+  }
+
+  let ladder = profile ? resolutionsFromProfile(profile) : RESOLUTIONS;
+  if (options.exact) {
+    const unknown = resolutionNames.filter(name => !ladder.some(r => r.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Renditions not in profile ${profile?.name || 'built-in'}: ${unknown.join(', ')}`);
+    }
+    ladder = ladder.filter(r => resolutionNames.includes(r.name));
+  } else if (resolutionNames.length > 0) {
+    const unknown = findUnknownResolutions(profile, resolutionNames);
+    if (unknown.length > 0) {
+      throw new Error(`Resolutions not in profile ${profile?.name || 'built-in'}: ${unknown.join(', ')}`);
+    }
+    ladder = ladder.filter(r => resolutionNames.includes(r.label) || resolutionNames.includes(r.name));
+  }
+  ladder = await filterAvailableCodecs(ladder);
+
+  console.log(`📹 Starting re-encode job ${jobId} for video ${videoId} from ${inputPath}`);
+  const videoInfo = await getVideoInfo(inputPath);
+
+  const audioNames = options.audio || [];
+  const targetResolutions = getTargetResolutions(ladder, videoInfo.height);
+  if (targetResolutions.length === 0 && audioNames.length === 0) {
+    throw new Error('Source video resolution too low');
+  }
+
+  // Audio renditions are named after the source stream order, so the same name is the same stream
+  const audioBitrate = profile?.audio_bitrate || '128k';
+  const audio = buildAudioRenditions(videoInfo.audioStreams, audioBitrate).filter(a => audioNames.includes(a.name));
+  const missingAudio = audioNames.filter(name => !audio.some(a => a.name === name));
+  if (missingAudio.length > 0) {
+    throw new Error(`Audio renditions not in the original: ${missingAudio.join(', ')}`);
+  }
+
+  // Reuse the video's audio renditions if it already has some
+  const existingAudio = getAudioTracks(videoId).length > 0;
+  const entries = [...audio, ...buildJobEntries(targetResolutions, videoInfo.audioStreams, audioBitrate, existingAudio)];
+
+  db.prepare(`
+    INSERT INTO encoding_jobs (id, video_id, status, resolutions_pending, started_at, input_path, source_width, source_height, profile_id, ladder, mode, priority, estimated_size, queue_position)
+    VALUES (?, ?, 'pending', ?, datetime('now'), ?, ?, ?, ?, ?, 'reencode', ?, ?, (SELECT COALESCE(MAX(queue_position), 0) + 1 FROM encoding_jobs))
+  `).run(
+    jobId,
+    videoId,
+    JSON.stringify(entries.map(r => r.name)),
+    inputPath,
+    videoInfo.width,
+    videoInfo.height,
+    profile?.id || null,
+    JSON.stringify(entries),
+    getQueueSettings().default_priority,
+    estimateJobSize(entries, videoInfo.duration)
+  );
+
+  emitEncodingEvent('queued', jobId, videoId);
+  processQueue();
+
+  console.log(`📊 Re-encode job ${jobId} queued (profile: ${profile?.name || 'built-in'}). Target resolutions: ${entries.map(r => r.name).join(', ')}`);
+  return jobId;
+}
+
+// Start pending jobs (highest priority first, then in queue order) until the concurrency limit is reached.
+// Outside the encoding window only high priority jobs start, running jobs are left to finish, and jobs
+// whose renditions don't fit on the disk wait for space
+export function processQueue(): void {
+  const limit = getMaxConcurrentEncodings();
+  const inWindow = isInEncodingWindow();
+
+  while ([...activeEncodings.values()].filter(e => !e.paused).length < limit) {
+    const job = db.prepare(`
+      SELECT * FROM encoding_jobs
+      WHERE status = 'pending' AND (next_retry_at IS NULL OR next_retry_at <= datetime('now'))
+        AND (? = 1 OR priority >= ?)
+      ORDER BY priority DESC, queue_position ASC, started_at ASC
+      LIMIT 1
+    `).get(inWindow ? 1 : 0, PRIORITY_LEVELS.high) as EncodingJobRow | undefined;
+
+    if (!job) break;
+
+    const storageError = checkStorageFor(job.estimated_size || 0);
+    if (storageError) {
+      deferJobForStorage(job, storageError);
+      continue;
+    }
+
+    runQueuedJob(job);
+  }
+}
+
+// Keep a job in the queue until there's room for its renditions, rather than failing it half way through
+function deferJobForStorage(job: EncodingJobRow, reason: string): void {
+  const message = `Waiting for disk space: ${reason}`;
+  db.prepare(`
+    UPDATE encoding_jobs
+    SET error = ?, failure_class = 'disk_full', next_retry_at = datetime('now', ?)
+    WHERE id = ?
+  `).run(message, `+${STORAGE_WAIT_DELAY} seconds`, job.id);
+  emitEncodingEvent('queued', job.id, job.video_id);
+
+  // Only log when it starts waiting, the job is looked at again every few minutes
+  if (!job.error?.startsWith('Waiting for disk space')) {
+    appendJobLog(job.id, message);
+    console.warn(`💾 Encoding job ${job.id} waits for disk space: ${reason}`);
+  }
+}
+
+// Notify webhooks that a job finished, the payload carries the job's final state
+function notifyEncodingWebhook(event: 'encoding.completed' | 'encoding.failed', jobId: string, videoId: string): void {
+  const job = db.prepare(`
+    SELECT ej.status, ej.error, ej.failure_class, ej.attempts, ej.resolutions_completed, v.title
+    FROM encoding_jobs ej
+    LEFT JOIN videos v ON v.id = ej.video_id
+    WHERE ej.id = ?
+  `).get(jobId) as {
+    status: string;
+    error: string | null;
+    failure_class: string | null;
+    attempts: number | null;
+    resolutions_completed: string | null;
+    title: string | null;
+  } | undefined;
+
+  dispatchWebhookEvent(event, {
+    job_id: jobId,
+    video_id: videoId,
+    title: job?.title ?? null,
+    status: job?.status ?? null,
+    resolutions: JSON.parse(job?.resolutions_completed || '[]'),
+    ...(event === 'encoding.completed'
+      ? { master_url: `/storage/videos/${videoId}/master.m3u8` }
+      : { error: job?.error ?? null, failure_class: job?.failure_class ?? null, attempts: job?.attempts ?? 0 })
+  });
+}
+
+// Record a failed run: transient failures go back to the queue after a delay, the others (and retries that
+// ran out) fail the job for good
+function failEncodingJob(jobId: string, videoId: string, error: { message?: string; stderr?: string }): void {
+  const failureClass = classifyEncodingFailure(error);
+  const message = error.message || 'Unknown error';
+  const job = db.prepare('SELECT auto_retries FROM encoding_jobs WHERE id = ?').get(jobId) as { auto_retries: number | null } | undefined;
+  // The video (and its jobs) was deleted while the job was running
+  if (!job) return;
+  const retries = job.auto_retries || 0;
+
+  if (TRANSIENT_FAILURES.includes(failureClass) && retries < RETRY_DELAYS.length) {
+    const delay = RETRY_DELAYS[retries];
+    db.prepare(`
+      UPDATE encoding_jobs
+      SET status = 'pending',
+          error = ?,
+          failure_class = ?,
+          auto_retries = ?,
+          next_retry_at = datetime('now', ?),
+          current_resolution = NULL,
+          rendition_progress = NULL,
+          estimated_time_remaining = NULL
+      WHERE id = ?
+    `).run(message, failureClass, retries + 1, `+${delay} seconds`, jobId);
+    emitEncodingEvent('queued', jobId, videoId);
+    appendJobLog(jobId, `Job failed (${failureClass}): ${message}\nAutomatic retry ${retries + 1}/${RETRY_DELAYS.length} in ${delay}s`);
+    console.warn(`⚠️  Encoding job ${jobId} failed (${failureClass}), retry ${retries + 1}/${RETRY_DELAYS.length} in ${delay}s`);
+    return;
+  }
+
+  db.prepare(`
+    UPDATE encoding_jobs 
+    SET status = 'failed', error = ?, failure_class = ?, next_retry_at = NULL, completed_at = datetime('now')
+    WHERE id = ?
+  `).run(message, failureClass, jobId);
+  emitEncodingEvent('failed', jobId, videoId);
+  appendJobLog(jobId, `Job failed (${failureClass}): ${message}`);
+  notifyEncodingWebhook('encoding.failed', jobId, videoId);
+}
+
+function runQueuedJob(job: EncodingJobRow): void {
+  // Jobs from older versions (or whose upload vanished) cannot be resumed
+  if (!job.input_path || !fs.existsSync(job.input_path)) {
+    console.error(`❌ Encoding job ${job.id} has no source file, marking as failed`);
+    failEncodingJob(job.id, job.video_id, { message: 'Source file no longer available' });
+    return;
+  }
+
+  // Register and mark as encoding synchronously so the queue doesn't pick it twice
+  activeEncodings.set(job.id, {
+    command: null,
+    videoId: job.video_id,
+    cancelled: false,
+    cancelMode: 'keep_renditions',
+    paused: false,
+    pausedAt: null,
+    pausedMs: 0
+  });
+  db.prepare(`
+    UPDATE encoding_jobs SET status = 'encoding', attempts = COALESCE(attempts, 0) + 1, next_retry_at = NULL WHERE id = ?
+  `).run(job.id);
+  emitEncodingEvent('started', job.id, job.video_id);
+  appendJobLog(job.id, `Job started (attempt ${(job.attempts || 0) + 1}), source: ${job.input_path}`);
+
+  processEncodingJob(job)
+    .catch((error) => {
+      console.error(`❌ Error in encoding job ${job.id}:`, error);
+      failEncodingJob(job.id, job.video_id, error instanceof Error ? error : { message: 'Unknown error' });
+    })
+    .finally(() => {
+      activeEncodings.delete(job.id);
+      processQueue();
+    });
+}
+
+// Called once on boot: jobs left 'encoding' by a crash/restart go back to the queue (paused ones stay paused)
+export function resumeEncodingQueue(): void {
+  const orphaned = db.prepare(`
+    UPDATE encoding_jobs 
+    SET status = 'pending', current_resolution = NULL, rendition_progress = NULL
+    WHERE status = 'encoding'
+  `).run();
+
+  if (orphaned.changes > 0) {
+    console.log(`♻️  Re-queued ${orphaned.changes} interrupted encoding job(s)`);
+  }
+
+  processQueue();
+  // Picks up automatic retries once their delay has passed, and queued jobs once the encoding window opens
+  setInterval(processQueue, RETRY_POLL_INTERVAL).unref();
+}
+
+// Segments and init segment of a rendition, exact match so "720p" doesn't match the files of "720p_hevc"
+const renditionSegmentPattern = (resolutionName: string) =>
+  new RegExp(`^${resolutionName}_(\\d+\\.(ts|m4s)|init\\.mp4)$`);
+
+// Remove leftovers of a partially written rendition before encoding it again
+function removeRenditionFiles(outputDir: string, resolutionName: string): void {
+  if (!fs.existsSync(outputDir)) return;
+
+  const segmentPattern = renditionSegmentPattern(resolutionName);
+
+  for (const file of fs.readdirSync(outputDir)) {
+    if (file === `${resolutionName}.m3u8` || segmentPattern.test(file)) {
+      fs.unlinkSync(path.join(outputDir, file));
+    }
+  }
+}
+
+// Move a rendition encoded in a staging directory over the live one without interrupting playback:
+// segments first, then the playlist (rename is atomic), then old segments the new playlist doesn't use
+function promoteRendition(stagingDir: string, outputDir: string, resolutionName: string): void {
+  const segmentPattern = renditionSegmentPattern(resolutionName);
+  const playlist = `${resolutionName}.m3u8`;
+  const segments = fs.readdirSync(stagingDir).filter(file => segmentPattern.test(file));
+
+  for (const file of segments) {
+    fs.renameSync(path.join(stagingDir, file), path.join(outputDir, file));
+  }
+  fs.renameSync(path.join(stagingDir, playlist), path.join(outputDir, playlist));
+
+  for (const file of fs.readdirSync(outputDir)) {
+    if (segmentPattern.test(file) && !segments.includes(file)) {
+      fs.unlinkSync(path.join(outputDir, file));
+    }
+  }
+}
+
+// Saved as the job's error so the dashboard shows what was kept
+const CANCEL_MESSAGES: Record<CancelMode, string> = {
+  keep_renditions: 'Cancelled by user, finished renditions kept',
+  keep_original: 'Cancelled by user, original kept for a later encode',
+  delete: 'Cancelled by user, video deleted'
+};
+
+// Apply the cancel mode once the job has no ffmpeg process left (also used for jobs cancelled before starting)
+async function finishCancelledJob(job: EncodingJobRow, mode: CancelMode): Promise<void> {
+  const jobId = job.id;
+  const videoId = job.video_id;
+  const outputDir = path.join(__dirname, '..', '..', 'storage', 'videos', videoId);
+  const isReencode = job.mode === 'reencode';
+
+  db.prepare(`
+    UPDATE encoding_jobs 
+    SET status = 'cancelled',
+        error = ?,
+        current_resolution = NULL,
+        rendition_progress = NULL,
+        estimated_time_remaining = NULL
+    WHERE id = ?
+  `).run(CANCEL_MESSAGES[mode], jobId);
+
+  if (mode === 'delete') {
+    // Sent before deleteVideo drops the job row the event snapshot is read from
+    emitEncodingEvent('cancelled', jobId, videoId);
+    appendJobLog(jobId, 'Job cancelled, video deleted');
+
+    // Delete original upload file
+    if (job.input_path && fs.existsSync(job.input_path)) {
+      fs.unlinkSync(job.input_path);
+    }
+
+    deleteVideo(videoId);
+    console.log(`🗑️ Video ${videoId} and all files deleted due to cancellation`);
+    return;
+  }
+
+  // The job row passed in may predate renditions finished since
+  const { resolutions_completed } = db.prepare('SELECT resolutions_completed FROM encoding_jobs WHERE id = ?').get(jobId) as { resolutions_completed: string | null };
+  let completed: string[] = JSON.parse(resolutions_completed || '[]');
+
+  if (isReencode) {
+    // Promoted renditions were already live, either way only the staging files go
+    fs.rmSync(path.join(outputDir, `staging_${jobId}`), { recursive: true, force: true });
+  } else {
+    const ladder = job.ladder ? normalizeLadder(JSON.parse(job.ladder)) : RESOLUTIONS;
+
+    if (mode === 'keep_original') {
+      ladder.forEach(r => removeRenditionFiles(outputDir, r.name));
+      for (const file of ['master.m3u8', 'manifest.mpd']) {
+        fs.rmSync(path.join(outputDir, file), { force: true });
+      }
+      db.prepare('DELETE FROM video_sources WHERE video_id = ?').run(videoId);
+      db.prepare('DELETE FROM audio_tracks WHERE video_id = ?').run(videoId);
+      db.prepare(`UPDATE encoding_jobs SET resolutions_completed = '[]' WHERE id = ?`).run(jobId);
+      completed = [];
+    } else {
+      ladder.filter(r => !completed.includes(r.name)).forEach(r => removeRenditionFiles(outputDir, r.name));
+    }
+
+    // Keep the upload so the video can be encoded again from the dashboard
+    if (job.input_path) {
+      keepOriginal(videoId, job.input_path);
+    }
+  }
+
+  if (completed.length > 0) {
+    await generateMasterPlaylist(outputDir, videoId);
+    generateDashManifest(outputDir, videoId);
+
+    db.prepare(`DELETE FROM video_sources WHERE video_id = ? AND resolution = 'auto'`).run(videoId);
+    db.prepare(`
+      INSERT INTO video_sources (video_id, resolution, url, is_local, file_size)
+      VALUES (?, 'auto', ?, 1, 0)
+    `).run(videoId, `/storage/videos/${videoId}/master.m3u8`);
+  }
+
+  emitEncodingEvent('cancelled', jobId, videoId);
+  appendJobLog(jobId, `Job cancelled (${mode})`);
+  console.log(`⏹️ Encoding job ${jobId} cancelled (${mode}), video ${videoId} is kept`);
+}
+
+async function processEncodingJob(job: EncodingJobRow) {
+  const jobId = job.id;
+  const videoId = job.video_id;
+  const inputPath = job.input_path as string;
+  const sourceWidth = job.source_width || 1920;
+  const sourceHeight = job.source_height || 1080;
+
   const outputDir = path.join(__dirname, '..', '..', 'storage', 'videos', videoId);
   if (!fs.existsSync(outputDir)) {
     fs.mkdirSync(outputDir, { recursive: true });
   }
 
-  const completedResolutions: string[] = [];
+  // Re-encodes write next to the live renditions and only replace them once a rendition is complete
+  const isReencode = job.mode === 'reencode';
+  const encodeDir = isReencode ? path.join(outputDir, `staging_${jobId}`) : outputDir;
+  if (!fs.existsSync(encodeDir)) {
+    fs.mkdirSync(encodeDir, { recursive: true });
+  }
+
+  // Renditions finished before a restart are kept and not encoded again
+  const completedResolutions: string[] = JSON.parse(job.resolutions_completed || '[]');
+  const pendingResolutions: string[] = JSON.parse(job.resolutions_pending || '[]');
+  const ladder = job.ladder ? normalizeLadder(JSON.parse(job.ladder)) : RESOLUTIONS;
+  const resolutions = ladder.filter(r =>
+    completedResolutions.includes(r.name) || pendingResolutions.includes(r.name)
+  );
   const totalResolutions = resolutions.length;
+  // A run that failed on the GPU is retried on the CPU, unless the encoder is forced in the settings
+  const useGPU = getQueueSettings().encoder !== 'auto' || job.failure_class !== 'gpu_failure';
   let startTime = Date.now();
+  let lastProgressWrite = 0;
 
   // Log encoding order
   console.log(`🎬 Starting encoding job ${jobId} for video ${videoId}`);
@@ -756,99 +1846,244 @@ async function processEncodingJob(
     
     console.log(`🎬 Encoding job ${jobId} status updated to 'encoding'`);
 
-    // Process resolutions in order (lowest to highest)
-    for (let i = 0; i < resolutions.length; i++) {
-      // Check if cancelled
-      const encoding = activeEncodings.get(jobId);
-      if (encoding?.cancelled) {
-        throw new Error('CANCELLED');
+    // Register a finished rendition: audio_tracks for audio, video_sources for video
+    const registerRendition = async (resolution: LadderEntry) => {
+      // Measure the rendition and probe its codec string for the master playlist
+      const playlistPath = path.join(outputDir, `${resolution.name}.m3u8`);
+      const stats = measureRendition(playlistPath);
+      const sourceUrl = `/storage/videos/${videoId}/${resolution.name}.m3u8`;
+
+      if (resolution.kind === 'audio') {
+        db.prepare('DELETE FROM audio_tracks WHERE video_id = ? AND url = ?').run(videoId, sourceUrl);
+        db.prepare(`
+          INSERT INTO audio_tracks (video_id, name, label, language, url, codecs, bandwidth, channels, is_default)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          videoId,
+          resolution.name,
+          resolution.label,
+          resolution.language || null,
+          sourceUrl,
+          AAC_LC_CODEC,
+          stats?.bandwidth || null,
+          resolution.channels,
+          resolution.isDefault === false ? 0 : 1
+        );
+      } else {
+        const codecs = await probeRenditionCodecs(playlistPath);
+        const { width, height } = calculateDimensions(sourceWidth, sourceHeight, resolution.height);
+
+        // Add video source - point to the HLS playlist
+        db.prepare('DELETE FROM video_sources WHERE video_id = ? AND url = ?').run(videoId, sourceUrl);
+        db.prepare(`
+          INSERT INTO video_sources (video_id, resolution, url, is_local, file_size, codec, codecs, width, height, bandwidth)
+          VALUES (?, ?, ?, 1, ?, ?, ?, ?, ?, ?)
+        `).run(
+          videoId,
+          resolution.label,
+          sourceUrl,
+          stats?.totalSize || 0,
+          resolution.codec,
+          codecs,
+          width,
+          height,
+          stats?.bandwidth || null
+        );
       }
 
-      const resolution = resolutions[i];
+      completedResolutions.push(resolution.name);
 
-      console.log(`🔄 Starting encoding for ${resolution.name} (${i + 1}/${totalResolutions})...`);
+      console.log(`✅ Completed ${resolution.name}`);
 
-      // Update current resolution and reset progress for this resolution
+      // Update completed resolutions
+      db.prepare(`
+        UPDATE encoding_jobs 
+        SET resolutions_completed = ?
+        WHERE id = ?
+      `).run(JSON.stringify(completedResolutions), jobId);
+      emitEncodingEvent('resolution', jobId, videoId);
+    };
+
+    // Encode a set of renditions in one ffmpeg pass, all of them are current with their own progress
+    const encodePass = async (entries: LadderEntry[]) => {
+      const baseCompleted = completedResolutions.length;
+      const passStartTime = Date.now();
+
+      // ffmpeg reports one time for the whole pass, each rendition's progress is the media its playlist lists so far
+      const video = db.prepare('SELECT duration FROM videos WHERE id = ?').get(videoId) as { duration: number | null } | undefined;
+      const duration = video?.duration || 0;
+      const measureRenditionProgress = (passPercent: number): Record<string, number> => Object.fromEntries(entries.map(r => [
+        r.name,
+        duration > 0 ? Math.min(100, getWrittenDuration(path.join(encodeDir, `${r.name}.m3u8`)) / duration * 100) : passPercent
+      ]));
+      let renditionProgress = Object.fromEntries(entries.map(r => [r.name, 0]));
+
+      console.log(`🔄 Starting encoding for ${entries.map(r => r.name).join(', ')} (${baseCompleted + entries.length}/${totalResolutions})...`);
+
+      // Update current resolutions and reset progress for this pass
       db.prepare(`
         UPDATE encoding_jobs 
         SET current_resolution = ?,
             resolutions_pending = ?,
-            progress = ?
+            progress = ?,
+            rendition_progress = ?
         WHERE id = ?
       `).run(
-        resolution.name,
-        JSON.stringify(resolutions.slice(i).map(r => r.name)),
-        (i / totalResolutions) * 100, // Base progress for completed resolutions
+        entries.map(r => r.name).join(', '),
+        JSON.stringify(resolutions.filter(r => !completedResolutions.includes(r.name)).map(r => r.name)),
+        (baseCompleted / totalResolutions) * 100, // Base progress for completed resolutions
+        JSON.stringify(renditionProgress),
         jobId
       );
+      emitEncodingEvent('resolution', jobId, videoId);
 
-      try {
-        let resolutionStartTime = Date.now();
-        await encodeToHLS(inputPath, outputDir, resolution, sourceWidth, sourceHeight, jobId, (progress) => {
-          // Calculate overall progress
-          const resolutionProgress = progress / 100;
-          const overallProgress = ((i + resolutionProgress) / totalResolutions) * 100;
-
-          // Estimate time remaining
-          const elapsed = Date.now() - startTime;
-          if (overallProgress > 0) {
-            const estimatedTotal = elapsed / (overallProgress / 100);
-            const estimatedRemaining = Math.max(0, Math.round((estimatedTotal - elapsed) / 1000));
-            
-            // Update job progress
-            db.prepare(`
-              UPDATE encoding_jobs 
-              SET progress = ?,
-                  estimated_time_remaining = ?,
-                  status = 'encoding'
-              WHERE id = ?
-            `).run(overallProgress, estimatedRemaining, jobId);
+      await waitWhilePaused(jobId);
+      if (isJobCancelled(jobId)) {
+        throw new Error('CANCELLED');
+      }
+
+      entries.forEach(r => removeRenditionFiles(encodeDir, r.name));
+
+      const onProgress = (progress: number) => {
+        // Every rendition of the pass advances together
+        const passProgress = (progress / 100) * entries.length;
+        const overallProgress = ((baseCompleted + passProgress) / totalResolutions) * 100;
+
+        // Estimate time remaining
+        const elapsed = Date.now() - startTime - (activeEncodings.get(jobId)?.pausedMs || 0);
+        if (overallProgress > 0) {
+          const estimatedTotal = elapsed / (overallProgress / 100);
+          const estimatedRemaining = Math.max(0, Math.round((estimatedTotal - elapsed) / 1000));
+
+          // The playlists are read as often as the job row is written
+          const write = Date.now() - lastProgressWrite >= PROGRESS_WRITE_INTERVAL;
+          if (write) {
+            renditionProgress = measureRenditionProgress(progress);
           }
-        });
-        
-        const resolutionTime = ((Date.now() - resolutionStartTime) / 1000).toFixed(1);
-        console.log(`✅ Completed ${resolution.name} in ${resolutionTime}s`);
 
-        // Calculate total size of all .ts files for this resolution
-        const tsFiles = fs.readdirSync(outputDir).filter(f => f.startsWith(`${resolution.name}_`) && f.endsWith('.ts'));
-        const totalSize = tsFiles.reduce((acc, file) => {
-          const filePath = path.join(outputDir, file);
-          return acc + fs.statSync(filePath).size;
-        }, 0);
+          emitEncodingEvent('progress', jobId, videoId, {
+            progress: overallProgress,
+            estimated_time_remaining: estimatedRemaining,
+            rendition_progress: renditionProgress
+          });
 
-        // Add video source - point to the HLS playlist
-        db.prepare(`
-          INSERT INTO video_sources (video_id, resolution, url, is_local, file_size)
-          VALUES (?, ?, ?, 1, ?)
-        `).run(videoId, resolution.name, `/storage/videos/${videoId}/${resolution.name}.m3u8`, totalSize);
+          // Update job progress (throttled, live progress goes through the event stream)
+          if (!write) return;
+          lastProgressWrite = Date.now();
+
+          db.prepare(`
+            UPDATE encoding_jobs 
+            SET progress = ?,
+                estimated_time_remaining = ?,
+                rendition_progress = ?,
+                status = 'encoding'
+            WHERE id = ?
+          `).run(overallProgress, estimatedRemaining, JSON.stringify(renditionProgress), jobId);
+        }
+      };
 
-        completedResolutions.push(resolution.name);
+      await encodeRenditions(inputPath, encodeDir, entries, sourceWidth, sourceHeight, jobId, onProgress, useGPU);
 
-        console.log(`✅ Completed ${resolution.name}`);
+      const passTime = ((Date.now() - passStartTime) / 1000).toFixed(1);
+      console.log(`✅ Encoded ${entries.map(r => r.name).join(', ')} in ${passTime}s`);
 
-        // Update completed resolutions
-        db.prepare(`
-          UPDATE encoding_jobs 
-          SET resolutions_completed = ?
-          WHERE id = ?
-        `).run(JSON.stringify(completedResolutions), jobId);
-
-      } catch (encodeError: any) {
-        if (encodeError.message === 'CANCELLED') {
-          throw encodeError;
+      for (const entry of entries) {
+        if (isReencode) {
+          promoteRendition(encodeDir, outputDir, entry.name);
         }
-        console.error(`Error encoding ${resolution.name}:`, encodeError.message);
-        // Continue with other resolutions instead of failing completely
-        continue;
+        await registerRendition(entry);
       }
+    };
+
+    // Without the default audio rendition the demuxed renditions would be silent
+    const isFatal = (error: Error, resolution: LadderEntry) =>
+      error.message === 'CANCELLED' || (resolution.kind === 'audio' && resolution.isDefault !== false);
+
+    if (completedResolutions.length > 0) {
+      console.log(`⏭️  Skipping ${completedResolutions.join(', ')} (already encoded)`);
+    }
+
+    // Decode the source once for everything that is still pending
+    const pending = resolutions.filter(r => !completedResolutions.includes(r.name));
+
+    // Check if cancelled
+    if (isJobCancelled(jobId)) {
+      throw new Error('CANCELLED');
+    }
+
+    // Last rendition error, the job only fails with it if nothing at all could be encoded
+    let lastError: Error | null = null;
+
+    if (pending.length > 0) {
+      try {
+        await encodePass(pending);
+      } catch (passError: any) {
+        if (passError.message === 'CANCELLED' || (pending.length === 1 && isFatal(passError, pending[0]))) {
+          throw passError;
+        }
+        lastError = passError;
+        console.error(`Error encoding ${pending.map(r => r.name).join(', ')}:`, passError.message);
+
+        // A single broken rendition shouldn't sink the whole ladder, retry them one pass each
+        if (pending.length > 1) {
+          console.log('🔄 Single-pass encoding failed, encoding renditions one by one...');
+
+          for (const resolution of pending) {
+            // Check if cancelled
+            if (isJobCancelled(jobId)) {
+              throw new Error('CANCELLED');
+            }
+            if (completedResolutions.includes(resolution.name)) continue;
+
+            try {
+              await encodePass([resolution]);
+            } catch (encodeError: any) {
+              if (isFatal(encodeError, resolution)) {
+                throw encodeError;
+              }
+              console.error(`Error encoding ${resolution.name}:`, encodeError.message);
+              lastError = encodeError;
+              // Continue with other resolutions instead of failing completely
+              continue;
+            }
+          }
+        }
+      }
+    }
+
+    if (lastError && completedResolutions.length === 0) {
+      throw lastError;
+    }
+
+    if (isJobCancelled(jobId)) {
+      throw new Error('CANCELLED');
     }
 
     // Generate master playlist if we have at least one resolution
     if (completedResolutions.length > 0) {
-      const completedRes = resolutions.filter(r => completedResolutions.includes(r.name));
-      await generateMasterPlaylist(outputDir, completedRes, videoId);
+      await generateMasterPlaylist(outputDir, videoId);
+      generateDashManifest(outputDir, videoId);
+
+      // Hover previews for the progress bar (re-encodes keep the existing ones)
+      const video = db.prepare('SELECT duration, thumbnail_track FROM videos WHERE id = ?').get(videoId) as { duration: number | null; thumbnail_track: string | null } | undefined;
+      // Deleted while the playlists were being written
+      if (!video) {
+        console.log(`⏹️ Video ${videoId} was deleted, encoding job ${jobId} stops`);
+        return;
+      }
+      if (!isReencode || !video.thumbnail_track) {
+        await generateThumbnailTrack(inputPath, videoId, { width: sourceWidth, height: sourceHeight, duration: video.duration || 0 });
+      }
+
+      // The original was the only source of a video uploaded without encoding, the renditions replace it.
+      // It leaves the public video folder for the originals folder (and its retention policy) like any upload
+      if (isReencode && path.dirname(inputPath) === outputDir) {
+        db.prepare('DELETE FROM video_sources WHERE video_id = ? AND url = ?').run(videoId, `/storage/videos/${videoId}/${path.basename(inputPath)}`);
+        keepOriginal(videoId, inputPath);
+      }
 
       // Add master playlist as a source
+      db.prepare(`DELETE FROM video_sources WHERE video_id = ? AND resolution = 'auto'`).run(videoId);
       db.prepare(`
         INSERT OR REPLACE INTO video_sources (video_id, resolution, url, is_local, file_size)
         VALUES (?, 'auto', ?, 1, 0)
@@ -861,62 +2096,50 @@ async function processEncodingJob(
       SET status = 'completed',
           progress = 100,
           current_resolution = NULL,
+          rendition_progress = NULL,
           resolutions_pending = '[]',
           completed_at = datetime('now'),
-          estimated_time_remaining = 0
+          estimated_time_remaining = 0,
+          error = NULL,
+          failure_class = NULL
       WHERE id = ?
     `).run(jobId);
+    emitEncodingEvent('completed', jobId, videoId);
+    notifyEncodingWebhook('encoding.completed', jobId, videoId);
+    appendJobLog(jobId, `Job completed: ${completedResolutions.join(', ') || 'no renditions'}`);
 
-    // Delete original upload file
-    if (fs.existsSync(inputPath)) {
-      fs.unlinkSync(inputPath);
+    // Keep the original for later re-encodes (subject to the retention policy)
+    if (isReencode) {
+      fs.rmSync(encodeDir, { recursive: true, force: true });
+    } else {
+      keepOriginal(videoId, inputPath);
     }
 
-    // Remove from active encodings
-    activeEncodings.delete(jobId);
+    // Catch segments that were cut short while being written
+    verifyVideo(videoId).catch(error => console.error(`Error verifying video ${videoId}:`, error));
 
     console.log(`✅ Encoding job ${jobId} completed successfully`);
     console.log(`📊 Completed resolutions: ${completedResolutions.join(', ')}`);
   } catch (error: any) {
-    // Remove from active encodings
-    activeEncodings.delete(jobId);
+    if (error.message === 'CANCELLED') {
+      const encoding = activeEncodings.get(jobId);
+      // Stopped by deleting the video, nothing is left to clean up
+      if (!encoding) return;
+      await finishCancelledJob(job, encoding.cancelMode);
+      return;
+    }
 
     console.error(`❌ Encoding job ${jobId} failed:`, error);
 
-    if (error.message === 'CANCELLED') {
-      console.log(`⏹️ Encoding job ${jobId} was cancelled`);
-      
-      // Mark job as cancelled
-      db.prepare(`
-        UPDATE encoding_jobs 
-        SET status = 'cancelled',
-            error = 'Cancelled by user'
-        WHERE id = ?
-      `).run(jobId);
-
-      // Delete video files and database entries
-      deleteVideoFiles(videoId);
-      
-      // Delete original upload file
-      if (fs.existsSync(inputPath)) {
-        fs.unlinkSync(inputPath);
+    if (isReencode) {
+      // The video stays playable: drop the staging files and list whatever was already promoted
+      fs.rmSync(encodeDir, { recursive: true, force: true });
+      if (completedResolutions.length > 0) {
+        await generateMasterPlaylist(outputDir, videoId);
+        generateDashManifest(outputDir, videoId);
       }
-
-      // Delete from database
-      db.prepare('DELETE FROM video_sources WHERE video_id = ?').run(videoId);
-      db.prepare('DELETE FROM subtitles WHERE video_id = ?').run(videoId);
-      db.prepare('DELETE FROM videos WHERE id = ?').run(videoId);
-
-      console.log(`🗑️ Video ${videoId} and all files deleted due to cancellation`);
-    } else {
-      console.error(`❌ Encoding job ${jobId} failed:`, error);
-
-      db.prepare(`
-        UPDATE encoding_jobs 
-        SET status = 'failed',
-            error = ?
-        WHERE id = ?
-      `).run(error.message, jobId);
     }
+
+    failEncodingJob(jobId, videoId, error);
   }
 }
@@ -0,0 +1,110 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+const execAsync = promisify(exec);
+
+// Hardware H.264 encoders, in the order they are preferred when the encoder is picked automatically
+export const HARDWARE_ENCODERS = ['nvenc', 'amf', 'qsv', 'vaapi'] as const;
+export type HardwareEncoder = typeof HARDWARE_ENCODERS[number];
+
+// Encoder choice from the dashboard: detected automatically, CPU only (libx264) or one forced hardware encoder
+export const ENCODER_PREFERENCES = ['auto', 'cpu', ...HARDWARE_ENCODERS] as const;
+export type EncoderPreference = typeof ENCODER_PREFERENCES[number];
+
+const HARDWARE_ENCODER_LABELS: Record<HardwareEncoder, string> = {
+  nvenc: 'NVIDIA NVENC',
+  amf: 'AMD AMF',
+  qsv: 'Intel Quick Sync',
+  vaapi: 'VAAPI - supports Intel/AMD/others'
+};
+
+export interface EncoderInfo {
+  name: string;
+  type: 'video' | 'audio' | 'subtitle';
+  description: string;
+}
+
+// What the installed ffmpeg reports, kept from the last probe
+export interface EncoderCapabilities {
+  ffmpeg_version: string | null;
+  encoders: EncoderInfo[];
+  hwaccels: string[];
+  // Hardware H.264 encoder used in automatic mode, null = libx264
+  detected: HardwareEncoder | null;
+  probed_at: string;
+  error: string | null;
+}
+
+const ENCODER_TYPES: Record<string, EncoderInfo['type']> = { V: 'video', A: 'audio', S: 'subtitle' };
+
+let lastProbe: EncoderCapabilities | null = null;
+
+// ffmpeg prints some of its listings on stderr
+async function runFFmpeg(args: string): Promise<string> {
+  const { stdout, stderr } = await execAsync(`ffmpeg -hide_banner ${args} 2>&1`);
+  return stdout || stderr || '';
+}
+
+// "ffmpeg -encoders" lists a legend, a dashed line, then one " V....D name  description" line per encoder
+function parseEncoders(output: string): EncoderInfo[] {
+  const lines = output.split(/\r?\n/);
+  const start = lines.findIndex(line => /^\s*-+\s*$/.test(line));
+
+  return lines.slice(start + 1).flatMap(line => {
+    const match = line.match(/^\s*([VAS])[.A-Z]{5}\s+(\S+)\s*(.*)$/);
+    return match ? [{ name: match[2], type: ENCODER_TYPES[match[1]], description: match[3].trim() }] : [];
+  });
+}
+
+function parseHwaccels(output: string): string[] {
+  return output
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !/^Hardware acceleration methods/i.test(line));
+}
+
+// Query ffmpeg for its version, encoders and hardware acceleration methods
+export async function probeEncoderCapabilities(): Promise<EncoderCapabilities> {
+  const probe: EncoderCapabilities = {
+    ffmpeg_version: null,
+    encoders: [],
+    hwaccels: [],
+    detected: null,
+    probed_at: new Date().toISOString(),
+    error: null
+  };
+
+  try {
+    const encoders = await runFFmpeg('-encoders');
+    probe.encoders = parseEncoders(encoders);
+
+    const names = new Set(probe.encoders.map(e => e.name));
+    probe.detected = HARDWARE_ENCODERS.find(type => names.has(`h264_${type}`)) ?? null;
+
+    if (probe.detected) {
+      console.log(`✅ GPU detected: ${HARDWARE_ENCODER_LABELS[probe.detected]} (h264_${probe.detected})`);
+    } else {
+      console.log('⚠️  No GPU encoder found, will use CPU encoding (libx264)');
+    }
+  } catch (error) {
+    console.log('⚠️  Could not check GPU encoders, will use CPU encoding:', error);
+    probe.error = error instanceof Error ? error.message : String(error);
+  }
+
+  // Version and hwaccels are informational, a failure here doesn't affect encoding
+  try {
+    const version = await runFFmpeg('-version');
+    probe.ffmpeg_version = version.match(/ffmpeg version (\S+)/)?.[1] ?? null;
+    probe.hwaccels = parseHwaccels(await runFFmpeg('-hwaccels'));
+  } catch (error) {
+    probe.error = probe.error || (error instanceof Error ? error.message : String(error));
+  }
+
+  lastProbe = probe;
+  return probe;
+}
+
+// Last probe result, probing once if ffmpeg hasn't been asked yet
+export async function getEncoderCapabilities(): Promise<EncoderCapabilities> {
+  return lastProbe ?? probeEncoderCapabilities();
+}
@@ -0,0 +1,76 @@
+import { EventEmitter } from 'events';
+import db from '../database.js';
+
+// Encoding job state changes, streamed to the dashboard over SSE (GET /api/encoding/events)
+export type EncodingEventType = 'queued' | 'started' | 'progress' | 'resolution' | 'completed' | 'failed' | 'cancelled' | 'paused' | 'resumed';
+
+// Job row as returned by /api/encoding/jobs
+export interface EncodingJobSnapshot {
+  id: string;
+  video_id: string;
+  video_title: string;
+  status: string;
+  progress: number;
+  current_resolution: string | null;
+  resolutions_completed: string[];
+  resolutions_pending: string[];
+  rendition_progress: Record<string, number>;
+  [key: string]: unknown;
+}
+
+export interface EncodingEvent {
+  type: EncodingEventType;
+  jobId: string;
+  videoId: string;
+  // Full job on state changes, null once the job (or its video) is gone
+  job?: EncodingJobSnapshot | null;
+  // Progress ticks only carry the changing fields
+  progress?: number;
+  estimated_time_remaining?: number;
+  rendition_progress?: Record<string, number>;
+}
+
+const emitter = new EventEmitter();
+// One listener per connected dashboard tab
+emitter.setMaxListeners(0);
+
+export function getJobSnapshot(jobId: string): EncodingJobSnapshot | null {
+  const job = db.prepare(`
+    SELECT ej.*, v.title as video_title
+    FROM encoding_jobs ej
+    JOIN videos v ON v.id = ej.video_id
+    WHERE ej.id = ?
+  `).get(jobId) as (Record<string, unknown> & { resolutions_completed: string | null; resolutions_pending: string | null; rendition_progress: string | null }) | undefined;
+
+  if (!job) return null;
+
+  return {
+    ...job,
+    resolutions_completed: JSON.parse(job.resolutions_completed || '[]'),
+    resolutions_pending: JSON.parse(job.resolutions_pending || '[]'),
+    rendition_progress: JSON.parse(job.rendition_progress || '{}')
+  } as EncodingJobSnapshot;
+}
+
+// Publish a state change, the current job row is attached to everything but progress ticks
+export function emitEncodingEvent(
+  type: EncodingEventType,
+  jobId: string,
+  videoId: string,
+  progress?: { progress: number; estimated_time_remaining: number; rendition_progress?: Record<string, number> }
+): void {
+  if (emitter.listenerCount('event') === 0) return;
+
+  const event: EncodingEvent = type === 'progress'
+    ? { type, jobId, videoId, ...progress }
+    : { type, jobId, videoId, job: getJobSnapshot(jobId) };
+
+  emitter.emit('event', event);
+}
+
+export function subscribeEncodingEvents(listener: (event: EncodingEvent) => void): () => void {
+  emitter.on('event', listener);
+  return () => {
+    emitter.off('event', listener);
+  };
+}
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyEncodingFailure } from './failures.js';
+
+// What ffmpeg prints before anything else when -hide_banner isn't given
+const BANNER = [
+  'ffmpeg version 6.1.1 Copyright (c) 2000-2023 the FFmpeg developers',
+  '  built with gcc 13 (Ubuntu 13.2.0-23ubuntu3)',
+  '  configuration: --enable-gpl --enable-libx264 --enable-nvenc --enable-cuda --enable-cuvid --enable-vaapi --enable-amf --enable-libvpl',
+  '  libavutil      58. 29.100 / 58. 29.100',
+  '  libavcodec     60. 31.102 / 60. 31.102'
+].join('\n');
+
+test('a corrupt upload is not taken for a GPU failure because of the build configuration', () => {
+  const stderr = `${BANNER}\n[mov,mp4,m4a,3gp,3g2,mj2 @ 0x55d5c8a2c0] moov atom not found\n/uploads/abc.mp4: Invalid data found when processing input\n`;
+  assert.equal(classifyEncodingFailure({ message: 'ffmpeg exited with code 1', stderr }), 'corrupt_input');
+});
+
+test('a missing input wins over the hardware pattern', () => {
+  const stderr = `${BANNER}\n/uploads/abc.mp4: No such file or directory\n`;
+  assert.equal(classifyEncodingFailure({ message: 'ffmpeg exited with code 1', stderr }), 'missing_input');
+});
+
+test('hardware errors at the end of the output are GPU failures', () => {
+  const stderr = `${BANNER}\n[h264_nvenc @ 0x5612] OpenEncodeSessionEx failed: unsupported device (2): (no details)\nError while opening encoder for output stream #0:0\n`;
+  assert.equal(classifyEncodingFailure({ message: 'ffmpeg exited with code 1', stderr }), 'gpu_failure');
+});
+
+test('disk full and crashes are recognised', () => {
+  assert.equal(classifyEncodingFailure({ message: 'ffmpeg exited with code 1', stderr: '/out/360p_004.ts: No space left on device' }), 'disk_full');
+  assert.equal(classifyEncodingFailure({ message: 'ffmpeg was killed with signal SIGSEGV' }), 'encoder_crash');
+});
@@ -0,0 +1,25 @@
+// Why a job failed, classified from ffmpeg's exit message and output
+export type EncodingFailureClass = 'corrupt_input' | 'missing_input' | 'disk_full' | 'encoder_crash' | 'gpu_failure' | 'unknown';
+
+// Classes worth retrying without anyone changing anything
+export const TRANSIENT_FAILURES: EncodingFailureClass[] = ['disk_full', 'encoder_crash', 'gpu_failure'];
+
+// ffmpeg prints the error that stopped it last, earlier output (the build configuration lists every hardware
+// encoder it was compiled with) would match the hardware pattern on any failure
+const FAILURE_TAIL_LINES = 20;
+
+// Checked in order: the specific input problems come before the broad hardware pattern
+const FAILURE_PATTERNS: [EncodingFailureClass, RegExp][] = [
+  ['missing_input', /Source file no longer available|No such file or directory/i],
+  ['corrupt_input', /Invalid data found when processing input|moov atom not found|could not find codec parameters|Invalid NAL unit|does not contain any stream|Error while decoding|corrupt/i],
+  ['disk_full', /No space left on device|ENOSPC|Disk quota exceeded|EDQUOT/i],
+  ['gpu_failure', /nvenc|cuda|qsv|vaapi|amf|hwaccel|hwupload|Device creation failed|No capable devices found/i],
+  // Killed by a signal, or an exit code above 128 (signal number + 128) from a wrapper
+  ['encoder_crash', /killed with signal|SIGSEGV|SIGABRT|SIGBUS|Segmentation fault|exited with code (-\d+|1[3-9]\d|2\d\d)\b/i]
+];
+
+export function classifyEncodingFailure(error: { message?: string; stderr?: string }): EncodingFailureClass {
+  const tail = (error.stderr || '').trimEnd().split('\n').slice(-FAILURE_TAIL_LINES).join('\n');
+  const output = `${error.message || ''}\n${tail}`;
+  return FAILURE_PATTERNS.find(([, pattern]) => pattern.test(output))?.[0] ?? 'unknown';
+}
@@ -0,0 +1,312 @@
+import fs from 'fs';
+import path from 'path';
+
+// AAC-LC, the only audio codec the encoder produces
+export const AAC_LC_CODEC = 'mp4a.40.2';
+
+export interface MediaSegment {
+  uri: string;
+  duration: number;
+}
+
+export interface MediaPlaylist {
+  // EXT-X-VERSION, 1 when the playlist does not declare one
+  version: number;
+  targetDuration: number;
+  mapUri: string | null;
+  segments: MediaSegment[];
+  endList: boolean;
+}
+
+export interface MasterVariant {
+  uri: string;
+  name: string;
+  bandwidth: number;
+  averageBandwidth?: number | null;
+  width?: number | null;
+  height?: number | null;
+  codecs?: string | null;
+  // GROUP-ID of the alternate audio renditions played with this (video-only) variant
+  audioGroup?: string | null;
+}
+
+// Alternate audio rendition (EXT-X-MEDIA TYPE=AUDIO)
+export interface MasterAudioRendition {
+  groupId: string;
+  name: string;
+  uri: string;
+  language?: string | null;
+  channels?: number | null;
+  isDefault: boolean;
+}
+
+export interface RenditionStats {
+  bandwidth: number;
+  averageBandwidth: number;
+  totalSize: number;
+  duration: number;
+}
+
+// Stream fields (as returned by ffprobe) needed to build an RFC 6381 codec string
+export interface ProbedVideoStream {
+  codec_name?: string;
+  profile?: string | number;
+  level?: string | number;
+  pix_fmt?: string;
+}
+
+// Parse a media (rendition) playlist into its segments
+export function parseMediaPlaylist(content: string): MediaPlaylist {
+  const playlist: MediaPlaylist = { version: 1, targetDuration: 0, mapUri: null, segments: [], endList: false };
+  let pendingDuration: number | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#EXT-X-VERSION:')) {
+      playlist.version = parseInt(line.split(':')[1], 10) || 1;
+    } else if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+      playlist.targetDuration = parseFloat(line.split(':')[1]) || 0;
+    } else if (line.startsWith('#EXT-X-MAP:')) {
+      const match = line.match(/URI="([^"]+)"/);
+      playlist.mapUri = match ? match[1] : null;
+    } else if (line.startsWith('#EXTINF:')) {
+      pendingDuration = parseFloat(line.substring('#EXTINF:'.length)) || 0;
+    } else if (line === '#EXT-X-ENDLIST') {
+      playlist.endList = true;
+    } else if (!line.startsWith('#') && pendingDuration !== null) {
+      playlist.segments.push({ uri: line, duration: pendingDuration });
+      pendingDuration = null;
+    }
+  }
+
+  return playlist;
+}
+
+// Variant stream of a master playlist (EXT-X-STREAM-INF), as read from a remote source
+export interface PlaylistVariant {
+  uri: string;
+  bandwidth: number;
+  width: number | null;
+  height: number | null;
+  codecs: string | null;
+}
+
+// Attribute list of a tag (KEY=value,KEY="quoted, value")
+export function parseAttributes(line: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const list = line.substring(line.indexOf(':') + 1);
+
+  for (const match of list.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+
+  return attributes;
+}
+
+export const isMasterPlaylist = (content: string) => content.includes('#EXT-X-STREAM-INF');
+
+// Parse the variant streams of a master playlist (URIs are left relative to the playlist)
+export function parseMasterPlaylist(content: string): PlaylistVariant[] {
+  const variants: PlaylistVariant[] = [];
+  let pending: Record<string, string> | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      pending = parseAttributes(line);
+    } else if (!line.startsWith('#') && pending) {
+      const [width, height] = (pending.RESOLUTION || '').split('x').map(n => parseInt(n));
+      variants.push({
+        uri: line,
+        bandwidth: parseInt(pending.BANDWIDTH) || 0,
+        width: width || null,
+        height: height || null,
+        codecs: pending.CODECS || null
+      });
+      pending = null;
+    }
+  }
+
+  return variants;
+}
+
+// Alternate rendition of a master playlist (EXT-X-MEDIA), as read from a remote source
+export interface PlaylistMedia {
+  type: 'AUDIO' | 'SUBTITLES' | 'CLOSED-CAPTIONS' | 'VIDEO';
+  groupId: string;
+  name: string;
+  language: string | null;
+  // Renditions muxed into the variant streams (and closed captions) have no URI
+  uri: string | null;
+  isDefault: boolean;
+  forced: boolean;
+  channels: number | null;
+}
+
+// Parse the alternate renditions of a master playlist (URIs are left relative to the playlist)
+export function parseMasterMedia(content: string): PlaylistMedia[] {
+  const media: PlaylistMedia[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line.startsWith('#EXT-X-MEDIA:')) continue;
+
+    const attributes = parseAttributes(line);
+    media.push({
+      type: attributes.TYPE as PlaylistMedia['type'],
+      groupId: attributes['GROUP-ID'] || '',
+      name: attributes.NAME || attributes.LANGUAGE || attributes.TYPE,
+      language: attributes.LANGUAGE || null,
+      uri: attributes.URI || null,
+      isDefault: attributes.DEFAULT === 'YES',
+      forced: attributes.FORCED === 'YES',
+      channels: parseInt(attributes.CHANNELS) || null
+    });
+  }
+
+  return media;
+}
+
+// Seconds of media listed so far in a playlist ffmpeg is still writing, 0 before its first segment
+export function getWrittenDuration(playlistPath: string): number {
+  if (!fs.existsSync(playlistPath)) return 0;
+
+  const playlist = parseMediaPlaylist(fs.readFileSync(playlistPath, 'utf-8'));
+  return playlist.segments.reduce((total, segment) => total + segment.duration, 0);
+}
+
+// Measure peak and average bitrate of a rendition from the segments on disk
+export function measureRendition(playlistPath: string): RenditionStats | null {
+  if (!fs.existsSync(playlistPath)) return null;
+
+  const dir = path.dirname(playlistPath);
+  const playlist = parseMediaPlaylist(fs.readFileSync(playlistPath, 'utf-8'));
+  if (playlist.segments.length === 0) return null;
+
+  let totalSize = 0;
+  let duration = 0;
+  let peak = 0;
+
+  if (playlist.mapUri && fs.existsSync(path.join(dir, playlist.mapUri))) {
+    totalSize += fs.statSync(path.join(dir, playlist.mapUri)).size;
+  }
+
+  for (const segment of playlist.segments) {
+    const segmentPath = path.join(dir, segment.uri);
+    if (!fs.existsSync(segmentPath)) continue;
+
+    const size = fs.statSync(segmentPath).size;
+    totalSize += size;
+    duration += segment.duration;
+
+    if (segment.duration > 0) {
+      peak = Math.max(peak, Math.round(size * 8 / segment.duration));
+    }
+  }
+
+  const averageBandwidth = duration > 0 ? Math.round(totalSize * 8 / duration) : 0;
+
+  return {
+    bandwidth: Math.max(peak, averageBandwidth),
+    averageBandwidth,
+    totalSize,
+    duration
+  };
+}
+
+// Build the RFC 6381 codec string (CODECS attribute) for a probed video stream
+export function buildVideoCodecString(stream: ProbedVideoStream): string | null {
+  const profile = String(stream.profile ?? '');
+  const parsedLevel = Number(stream.level);
+  const level = Number.isFinite(parsedLevel) && parsedLevel > 0 ? parsedLevel : null;
+  const tenBit = /10/.test(stream.pix_fmt || '');
+
+  switch (stream.codec_name) {
+    case 'h264': {
+      const profiles: Record<string, [number, number]> = {
+        'Constrained Baseline': [66, 0x40],
+        'Baseline': [66, 0x00],
+        'Main': [77, 0x40],
+        'High': [100, 0x00],
+        'High 10': [110, 0x00]
+      };
+      const [profileIdc, constraints] = profiles[profile] || [100, 0x00];
+      const hex = (n: number) => n.toString(16).padStart(2, '0').toUpperCase();
+      return `avc1.${hex(profileIdc)}${hex(constraints)}${hex(level ?? 40)}`;
+    }
+    case 'hevc': {
+      const main10 = profile === 'Main 10' || tenBit;
+      return `hvc1.${main10 ? '2.4' : '1.6'}.L${level ?? 120}.B0`;
+    }
+    case 'av1': {
+      const profiles: Record<string, number> = { 'Main': 0, 'High': 1, 'Professional': 2 };
+      const seqLevel = String(level ?? 8).padStart(2, '0');
+      return `av01.${profiles[profile] ?? 0}.${seqLevel}M.${tenBit ? '10' : '08'}`;
+    }
+    default:
+      return null;
+  }
+}
+
+// Protocol version a media playlist on disk needs, EXT-X-MAP (fMP4 segments) requires version 6
+function getPlaylistVersion(playlistPath: string): number {
+  if (!fs.existsSync(playlistPath)) return 3;
+
+  const playlist = parseMediaPlaylist(fs.readFileSync(playlistPath, 'utf-8'));
+  return Math.max(playlist.version, playlist.mapUri ? 6 : 3);
+}
+
+// Write a master playlist, variants are listed in the given order
+export function writeMasterPlaylist(masterPath: string, variants: MasterVariant[], audio: MasterAudioRendition[] = []): void {
+  // The master declares the highest version among the playlists it references
+  const dir = path.dirname(masterPath);
+  const version = Math.max(3, ...[...variants, ...audio].map(playlist => getPlaylistVersion(path.join(dir, playlist.uri))));
+  const lines = ['#EXTM3U', `#EXT-X-VERSION:${version}`, '#EXT-X-INDEPENDENT-SEGMENTS'];
+
+  for (const rendition of audio) {
+    const attributes = [
+      'TYPE=AUDIO',
+      `GROUP-ID="${rendition.groupId}"`,
+      `NAME="${rendition.name}"`
+    ];
+    if (rendition.language) {
+      attributes.push(`LANGUAGE="${rendition.language}"`);
+    }
+    attributes.push(`DEFAULT=${rendition.isDefault ? 'YES' : 'NO'}`, 'AUTOSELECT=YES');
+    if (rendition.channels) {
+      attributes.push(`CHANNELS="${rendition.channels}"`);
+    }
+    attributes.push(`URI="${rendition.uri}"`);
+
+    lines.push(`#EXT-X-MEDIA:${attributes.join(',')}`);
+  }
+
+  for (const variant of variants) {
+    const attributes = [`BANDWIDTH=${variant.bandwidth}`];
+
+    if (variant.averageBandwidth) {
+      attributes.push(`AVERAGE-BANDWIDTH=${variant.averageBandwidth}`);
+    }
+    if (variant.width && variant.height) {
+      attributes.push(`RESOLUTION=${variant.width}x${variant.height}`);
+    }
+    if (variant.codecs) {
+      attributes.push(`CODECS="${variant.codecs}"`);
+    }
+    if (variant.audioGroup) {
+      attributes.push(`AUDIO="${variant.audioGroup}"`);
+    }
+    attributes.push(`NAME="${variant.name}"`);
+
+    lines.push(`#EXT-X-STREAM-INF:${attributes.join(',')}`);
+    lines.push(variant.uri);
+  }
+
+  // Write then rename so players never fetch a half-written playlist while it is regenerated
+  fs.writeFileSync(`${masterPath}.tmp`, lines.join('\n') + '\n');
+  fs.renameSync(`${masterPath}.tmp`, masterPath);
+}
@@ -0,0 +1,462 @@
+import path from 'path';
+import fs from 'fs';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
+import { fileURLToPath } from 'url';
+import { nanoid } from 'nanoid';
+import db from '../database.js';
+import { startEncodingJob, cancelEncodingJob, deleteVideo } from './encoder.js';
+import type { CancelMode, EncodingJobRow } from './encoder.js';
+import { classifyEncodingFailure } from './failures.js';
+import type { EncodingFailureClass } from './failures.js';
+import { isMasterPlaylist, parseMasterPlaylist, parseMediaPlaylist } from './hls.js';
+import { emitEncodingEvent } from './events.js';
+import { appendJobLog } from './jobLogs.js';
+import { getQueueSettings } from './queueSettings.js';
+import { registerOriginal } from './originals.js';
+import { checkStorageFor } from './storage.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const uploadsDir = path.join(__dirname, '..', '..', 'storage', 'videos', 'uploads');
+
+// Progress is written to the database (and pushed to the dashboard) at most this often
+const PROGRESS_INTERVAL = 1000;
+// Give up on hosts that don't answer, or stop sending in the middle of a download
+const FETCH_TIMEOUT = 20 * 1000;
+const STALL_TIMEOUT = 60 * 1000;
+
+// Downloads running in this process, aborted to pause or cancel them
+const activeImports = new Map<string, AbortController>();
+
+// Container extensions kept from the URL, anything else is saved as .mp4 (ffprobe goes by content anyway)
+const VIDEO_EXTENSIONS = ['.mp4', '.mkv', '.mov', '.webm', '.m4v', '.avi', '.ts', '.flv', '.wmv'];
+
+class DownloadError extends Error {
+  constructor(message: string, public failureClass: EncodingFailureClass) {
+    super(message);
+  }
+}
+
+const isPlaylistUrl = (url: string) => new URL(url).pathname.toLowerCase().endsWith('.m3u8');
+
+const isPlaylistResponse = (response: Response) => /mpegurl/i.test(response.headers.get('content-type') || '');
+
+// Segments of an HLS import are downloaded one by one into <input>.parts, then joined into the input file
+export const partsDirFor = (inputPath: string) => `${inputPath.replace(/\.[^./]+$/, '')}.parts`;
+
+// Forget a download, unless it was already replaced by a newer run of the same job
+const releaseImport = (jobId: string, controller: AbortController) => {
+  if (activeImports.get(jobId) === controller) activeImports.delete(jobId);
+};
+
+function getImportJob(jobId: string): EncodingJobRow | undefined {
+  return db.prepare('SELECT * FROM encoding_jobs WHERE id = ?').get(jobId) as EncodingJobRow | undefined;
+}
+
+// The timeout covers the wait for the response headers, a large body can take much longer to arrive
+async function fetchOk(url: string, signal: AbortSignal, headers: Record<string, string> = {}): Promise<Response> {
+  const timeout = new AbortController();
+  const timer = setTimeout(() => timeout.abort(), FETCH_TIMEOUT);
+
+  let response: Response;
+  try {
+    response = await fetch(url, { headers, signal: AbortSignal.any([signal, timeout.signal]), redirect: 'follow' });
+  } catch (error) {
+    if (timeout.signal.aborted && !signal.aborted) {
+      throw new DownloadError(`${url} did not respond within ${FETCH_TIMEOUT / 1000}s`, 'unknown');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok && response.status !== 416) {
+    throw new DownloadError(
+      `${url} responded with HTTP ${response.status}`,
+      response.status === 404 || response.status === 410 ? 'missing_input' : 'unknown'
+    );
+  }
+  return response;
+}
+
+function checkSpace(bytes: number): void {
+  const storageError = checkStorageFor(bytes);
+  if (storageError) {
+    throw new DownloadError(`Not enough disk space for the download: ${storageError}`, 'disk_full');
+  }
+}
+
+// Record download progress, throttled so fast connections don't flood the database. The remaining
+// time comes from the rate since this run started (bytes resumed from an earlier run don't count)
+function createProgressReporter(job: EncodingJobRow) {
+  const startedAt = Date.now();
+  let startBytes: number | null = null;
+  let lastReport = 0;
+
+  return (downloaded: number, total: number | null, force = false) => {
+    const now = Date.now();
+    startBytes ??= downloaded;
+    if (!force && now - lastReport < PROGRESS_INTERVAL) return;
+    lastReport = now;
+
+    const progress = total ? Math.min(99, (downloaded / total) * 100) : 0;
+    const rate = (downloaded - startBytes) / Math.max(1, (now - startedAt) / 1000);
+    const remaining = total && rate > 0 ? Math.round((total - downloaded) / rate) : 0;
+
+    db.prepare(`
+      UPDATE encoding_jobs SET progress = ?, downloaded_bytes = ?, download_size = ?, estimated_time_remaining = ? WHERE id = ?
+    `).run(progress, downloaded, total, remaining, job.id);
+    emitEncodingEvent('progress', job.id, job.video_id, { progress, estimated_time_remaining: remaining });
+  };
+}
+
+// Stream a response body into a file, appending when resuming, and count the bytes as they arrive
+async function writeBody(response: Response, filePath: string, append: boolean, onChunk: (bytes: number) => void, signal: AbortSignal): Promise<void> {
+  if (!response.body) throw new DownloadError('Empty response body', 'missing_input');
+
+  // Restarted by every chunk
+  const stalled = setTimeout(() => {
+    counter.destroy(new DownloadError(`No data received for ${STALL_TIMEOUT / 1000}s`, 'unknown'));
+  }, STALL_TIMEOUT);
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      stalled.refresh();
+      onChunk(chunk.length);
+      callback(null, chunk);
+    }
+  });
+
+  try {
+    await pipeline(
+      Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+      counter,
+      fs.createWriteStream(filePath, { flags: append ? 'a' : 'w' }),
+      { signal }
+    );
+  } finally {
+    clearTimeout(stalled);
+  }
+}
+
+// Download a single file, continuing a partial one with a Range request when the server supports it
+async function downloadFile(job: EncodingJobRow, url: string, inputPath: string, signal: AbortSignal): Promise<void> {
+  const report = createProgressReporter(job);
+  const existing = fs.existsSync(inputPath) ? fs.statSync(inputPath).size : 0;
+
+  const response = await fetchOk(url, signal, existing > 0 ? { Range: `bytes=${existing}-` } : {});
+
+  // Already complete (the range starts at the end of the file)
+  if (response.status === 416 && existing > 0) {
+    report(existing, existing, true);
+    return;
+  }
+  if (response.status === 416) {
+    throw new DownloadError(`${url} responded with HTTP 416`, 'unknown');
+  }
+
+  const resumed = response.status === 206;
+  const offset = resumed ? existing : 0;
+  const length = parseInt(response.headers.get('content-length') || '');
+  const total = resumed
+    ? parseInt(response.headers.get('content-range')?.split('/')[1] || '') || null
+    : (Number.isFinite(length) ? length : null);
+
+  if (existing > 0) {
+    appendJobLog(job.id, resumed ? `Resuming download at ${existing} bytes` : 'Server ignored the range request, downloading from the start');
+  }
+  if (total) checkSpace(total - offset);
+
+  let downloaded = offset;
+  await writeBody(response, inputPath, resumed, bytes => {
+    downloaded += bytes;
+    report(downloaded, total);
+  }, signal);
+  report(downloaded, total ?? downloaded, true);
+}
+
+// Download the segments of an HLS playlist (the highest bandwidth variant of a master playlist) and join them
+// into one file. A resumed import continues after the last segment it recorded, or keeps the joined file
+async function downloadPlaylist(job: EncodingJobRow, url: string, inputPath: string, signal: AbortSignal): Promise<string> {
+  // Playlists are small, the whole request gets the timeout
+  const playlistSignal = () => AbortSignal.any([signal, AbortSignal.timeout(FETCH_TIMEOUT)]);
+  let playlistUrl = url;
+  let content = await (await fetchOk(playlistUrl, playlistSignal())).text();
+
+  if (isMasterPlaylist(content)) {
+    const variants = parseMasterPlaylist(content);
+    const best = variants.sort((a, b) => b.bandwidth - a.bandwidth)[0];
+    if (!best) throw new DownloadError('Master playlist has no variant streams', 'corrupt_input');
+
+    playlistUrl = new URL(best.uri, playlistUrl).href;
+    appendJobLog(job.id, `Master playlist: downloading the ${best.height ? `${best.height}p` : `${best.bandwidth} bps`} variant (${playlistUrl})`);
+    content = await (await fetchOk(playlistUrl, playlistSignal())).text();
+  }
+
+  if (/#EXT-X-KEY:.*METHOD=(?!NONE)/.test(content)) {
+    throw new DownloadError('Encrypted HLS streams are not supported', 'corrupt_input');
+  }
+
+  const playlist = parseMediaPlaylist(content);
+  if (!playlist.endList) {
+    throw new DownloadError('Live HLS streams are not supported (no #EXT-X-ENDLIST)', 'corrupt_input');
+  }
+  if (playlist.segments.length === 0) {
+    throw new DownloadError('Playlist has no segments', 'corrupt_input');
+  }
+
+  // fMP4 segments joined behind their init segment form a fragmented MP4, TS segments a transport stream
+  const outputPath = inputPath.replace(/\.[^.]+$/, playlist.mapUri ? '.mp4' : '.ts');
+  const partsDir = partsDirFor(outputPath);
+
+  const parts = [
+    ...(playlist.mapUri ? [playlist.mapUri] : []),
+    ...playlist.segments.map(segment => segment.uri)
+  ].map((uri, index) => ({ url: new URL(uri, playlistUrl).href, file: path.join(partsDir, String(index).padStart(6, '0')) }));
+
+  const report = createProgressReporter(job);
+  const resumeFrom = Math.min(job.segments_downloaded || 0, parts.length);
+
+  // Joined by an earlier run (the parts are only removed once the joined file is complete)
+  if (resumeFrom === parts.length && fs.existsSync(outputPath) && !fs.existsSync(partsDir)) {
+    const size = fs.statSync(outputPath).size;
+    report(size, size, true);
+    appendJobLog(job.id, `All ${parts.length} segment(s) were already downloaded and joined`);
+    return outputPath;
+  }
+
+  fs.mkdirSync(partsDir, { recursive: true });
+  if (resumeFrom > 0) {
+    appendJobLog(job.id, `Resuming after segment ${resumeFrom} of ${parts.length}`);
+  }
+
+  const recordSegment = db.prepare('UPDATE encoding_jobs SET segments_downloaded = ? WHERE id = ?');
+  let downloaded = 0;
+
+  for (const [index, part] of parts.entries()) {
+    // Segments before the recorded one are kept from the earlier run, unless their file went missing
+    if (index < resumeFrom && fs.existsSync(part.file)) {
+      downloaded += fs.statSync(part.file).size;
+    } else {
+      const response = await fetchOk(part.url, signal);
+      // Written next to its final name so an interrupted segment is downloaded again
+      await writeBody(response, `${part.file}.part`, false, bytes => { downloaded += bytes; }, signal);
+      fs.renameSync(`${part.file}.part`, part.file);
+      recordSegment.run(index + 1, job.id);
+    }
+
+    // Size is only known once every segment is in, progress follows the segment count
+    const estimatedTotal = Math.round(downloaded / (index + 1) * parts.length);
+    report(downloaded, estimatedTotal);
+  }
+
+  checkSpace(downloaded);
+  const output = fs.createWriteStream(outputPath);
+  for (const part of parts) {
+    await pipeline(fs.createReadStream(part.file), output, { end: false });
+  }
+  await new Promise<void>((resolve, reject) => output.end((error?: Error | null) => error ? reject(error) : resolve()));
+  fs.rmSync(partsDir, { recursive: true, force: true });
+
+  report(downloaded, downloaded, true);
+  appendJobLog(job.id, `Joined ${parts.length} segment(s) into ${path.basename(outputPath)}`);
+  return outputPath;
+}
+
+function failImport(jobId: string, videoId: string, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  const failureClass = error instanceof DownloadError
+    ? error.failureClass
+    : classifyEncodingFailure({ message });
+
+  db.prepare(`
+    UPDATE encoding_jobs
+    SET status = 'failed', error = ?, failure_class = ?, completed_at = datetime('now'), estimated_time_remaining = NULL
+    WHERE id = ?
+  `).run(message, failureClass, jobId);
+  emitEncodingEvent('failed', jobId, videoId);
+  appendJobLog(jobId, `Import failed: ${message}`);
+  console.error(`❌ Import job ${jobId} failed:`, message);
+}
+
+const isImportCancelled = (jobId: string) => getImportJob(jobId)?.status === 'cancelled';
+
+// Download the job's source, then hand the file over to a regular encoding job. Never rejects, the callers
+// don't wait for it
+async function runImport(jobId: string): Promise<void> {
+  try {
+    await importSource(jobId);
+  } catch (error) {
+    const job = getImportJob(jobId);
+    if (job && job.status !== 'cancelled') {
+      failImport(jobId, job.video_id, error);
+    }
+  }
+}
+
+async function importSource(jobId: string): Promise<void> {
+  const job = getImportJob(jobId);
+  if (!job || !job.source_url || !job.input_path || activeImports.has(jobId)) return;
+
+  const controller = new AbortController();
+  activeImports.set(jobId, controller);
+
+  db.prepare(`
+    UPDATE encoding_jobs SET status = 'downloading', error = NULL, failure_class = NULL, attempts = COALESCE(attempts, 0) + 1 WHERE id = ?
+  `).run(jobId);
+  emitEncodingEvent('started', jobId, job.video_id);
+  appendJobLog(jobId, `Downloading ${job.source_url}`);
+  console.log(`📥 Import job ${jobId} downloading ${job.source_url}`);
+
+  let inputPath = job.input_path;
+  try {
+    let playlist = isPlaylistUrl(job.source_url);
+
+    // Playlists served without a .m3u8 extension are recognised by their content type
+    if (!playlist && !fs.existsSync(inputPath)) {
+      const probe = await fetchOk(job.source_url, controller.signal);
+      playlist = isPlaylistResponse(probe);
+      await probe.body?.cancel();
+    }
+
+    if (playlist) {
+      inputPath = await downloadPlaylist(job, job.source_url, inputPath, controller.signal);
+      db.prepare('UPDATE encoding_jobs SET input_path = ? WHERE id = ?').run(inputPath, jobId);
+    } else {
+      await downloadFile(job, job.source_url, inputPath, controller.signal);
+    }
+  } catch (error) {
+    releaseImport(jobId, controller);
+    // Paused or cancelled: whoever aborted the download has already updated the job
+    if (controller.signal.aborted) return;
+
+    failImport(jobId, job.video_id, error);
+    return;
+  }
+
+  releaseImport(jobId, controller);
+
+  // Paused or cancelled right as the download finished
+  if (getImportJob(jobId)?.status !== 'downloading') return;
+  appendJobLog(jobId, `Download complete (${fs.statSync(inputPath).size} bytes)`);
+
+  try {
+    const originalName = decodeURIComponent(path.basename(new URL(job.source_url).pathname)) || path.basename(inputPath);
+    // Moved to the originals folder once encoded
+    registerOriginal(job.video_id, inputPath, originalName);
+    const encodingJobId = await startEncodingJob(job.video_id, inputPath, job.profile_id || undefined);
+
+    // Cancelled while the encoding job was being set up: its input is gone, so it goes as well
+    if (isImportCancelled(jobId)) {
+      await cancelEncodingJob(encodingJobId, 'keep_renditions');
+      if (!db.prepare('SELECT 1 FROM videos WHERE id = ?').get(job.video_id)) {
+        db.prepare('DELETE FROM encoding_jobs WHERE id = ?').run(encodingJobId);
+      }
+      appendJobLog(jobId, `Encoding job ${encodingJobId} cancelled with the import`);
+      return;
+    }
+
+    db.prepare(`
+      UPDATE encoding_jobs
+      SET status = 'completed', progress = 100, completed_at = datetime('now'), error = NULL, failure_class = NULL
+      WHERE id = ?
+    `).run(jobId);
+    emitEncodingEvent('completed', jobId, job.video_id);
+    appendJobLog(jobId, `Handed over to encoding job ${encodingJobId}`);
+    console.log(`✅ Import job ${jobId} downloaded, encoding job ${encodingJobId} queued`);
+  } catch (error) {
+    // Cancelling removed the input while it was being handed over
+    if (isImportCancelled(jobId)) return;
+    failImport(jobId, job.video_id, error);
+  }
+}
+
+// Queue the download of a remote file (or HLS playlist) for a new video, encoded with profileId once downloaded
+export function startImportJob(videoId: string, sourceUrl: string, profileId?: string): string {
+  const jobId = nanoid(12);
+  const ext = path.extname(new URL(sourceUrl).pathname).toLowerCase();
+  const inputPath = path.join(uploadsDir, `import-${jobId}${VIDEO_EXTENSIONS.includes(ext) ? ext : '.mp4'}`);
+
+  fs.mkdirSync(uploadsDir, { recursive: true });
+
+  db.prepare(`
+    INSERT INTO encoding_jobs (id, video_id, status, mode, source_url, input_path, profile_id, priority, downloaded_bytes, started_at)
+    VALUES (?, ?, 'downloading', 'import', ?, ?, ?, ?, 0, datetime('now'))
+  `).run(jobId, videoId, sourceUrl, inputPath, profileId || null, getQueueSettings().default_priority);
+
+  emitEncodingEvent('queued', jobId, videoId);
+  console.log(`📥 Import job ${jobId} queued for video ${videoId}: ${sourceUrl}`);
+
+  runImport(jobId);
+  return jobId;
+}
+
+// Stop a download, the partial file is kept and the download continues from it on resume
+export function pauseImportJob(jobId: string): void {
+  const job = getImportJob(jobId);
+  if (!job) return;
+
+  db.prepare(`UPDATE encoding_jobs SET status = 'paused', estimated_time_remaining = NULL WHERE id = ?`).run(jobId);
+  activeImports.get(jobId)?.abort();
+  activeImports.delete(jobId);
+
+  emitEncodingEvent('paused', jobId, job.video_id);
+  appendJobLog(jobId, 'Download paused');
+  console.log(`⏸️  Import job ${jobId} paused`);
+}
+
+export function resumeImportJob(jobId: string): void {
+  const job = getImportJob(jobId);
+  if (!job) return;
+
+  emitEncodingEvent('resumed', jobId, job.video_id);
+  appendJobLog(jobId, 'Download resumed');
+  runImport(jobId);
+}
+
+// A failed import continues from what it already downloaded
+export function retryImportJob(jobId: string): void {
+  appendJobLog(jobId, 'Import started again for a manual retry');
+  console.log(`🔁 Import job ${jobId} started again`);
+  runImport(jobId);
+}
+
+// Stop a download and discard what was downloaded; mode 'delete' deletes the video as well
+export function cancelImportJob(jobId: string, mode: CancelMode): void {
+  const job = getImportJob(jobId);
+  if (!job) return;
+
+  db.prepare(`
+    UPDATE encoding_jobs SET status = 'cancelled', error = 'Import cancelled', estimated_time_remaining = NULL WHERE id = ?
+  `).run(jobId);
+  activeImports.get(jobId)?.abort();
+  activeImports.delete(jobId);
+
+  if (job.input_path) {
+    fs.rmSync(job.input_path, { force: true });
+    fs.rmSync(partsDirFor(job.input_path), { recursive: true, force: true });
+  }
+
+  if (mode === 'delete') {
+    deleteVideo(job.video_id);
+  }
+
+  emitEncodingEvent('cancelled', jobId, job.video_id);
+  appendJobLog(jobId, mode === 'delete' ? 'Import cancelled, video deleted' : 'Import cancelled');
+  console.log(`🛑 Import job ${jobId} cancelled`);
+}
+
+// Downloads interrupted by a restart continue where they stopped
+export function resumeImports(): void {
+  const interrupted = db.prepare(`
+    SELECT id FROM encoding_jobs WHERE mode = 'import' AND status = 'downloading'
+  `).all() as { id: string }[];
+
+  if (interrupted.length > 0) {
+    console.log(`♻️  Resuming ${interrupted.length} interrupted import(s)`);
+  }
+
+  interrupted.forEach(({ id }) => runImport(id));
+}
@@ -0,0 +1,228 @@
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import db from '../database.js';
+import { parseMediaPlaylist } from './hls.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const rootDir = path.join(__dirname, '..', '..');
+
+// All local renditions are verified again once a day
+const INTEGRITY_CHECK_INTERVAL = 24 * 60 * 60 * 1000;
+// A segment carrying less than this share of the rendition's median bitrate was cut short
+const MIN_BITRATE_RATIO = 0.1;
+// MPEG-TS is written in whole 188 byte packets
+const TS_PACKET_SIZE = 188;
+
+export type SegmentProblem = 'missing_playlist' | 'incomplete_playlist' | 'missing_init' | 'missing' | 'empty' | 'truncated' | 'bad_duration';
+
+export interface RenditionIssue {
+  // Segment (or init segment) file name, null for problems of the playlist itself
+  segment: string | null;
+  problem: SegmentProblem;
+  detail: string;
+}
+
+export interface RenditionCheck {
+  // Rendition name (playlist file name without .m3u8), e.g. '720p' or '720p_hevc'
+  name: string;
+  kind: 'video' | 'audio';
+  url: string;
+  segments: number;
+  issues: RenditionIssue[];
+}
+
+export interface IntegrityReport {
+  video_id: string;
+  status: 'ok' | 'broken';
+  checked_at: string;
+  renditions: RenditionCheck[];
+}
+
+interface IntegrityRow {
+  video_id: string;
+  status: 'ok' | 'broken';
+  report: string;
+  checked_at: string;
+}
+
+let running = false;
+
+// Size of a file, null if it doesn't exist
+const fileSize = (filePath: string) => fs.promises.stat(filePath).then(stats => stats.size, () => null);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+// Check a rendition playlist: every segment must exist, be non-empty, last no longer than the target
+// duration and carry a plausible amount of data for its duration
+async function checkRendition(url: string, kind: RenditionCheck['kind']): Promise<RenditionCheck> {
+  const playlistPath = path.join(rootDir, url);
+  const check: RenditionCheck = { name: path.basename(url, '.m3u8'), kind, url, segments: 0, issues: [] };
+
+  const content = await fs.promises.readFile(playlistPath, 'utf-8').catch(() => null);
+  if (content === null) {
+    check.issues.push({ segment: null, problem: 'missing_playlist', detail: 'Playlist file is missing' });
+    return check;
+  }
+
+  const dir = path.dirname(playlistPath);
+  const playlist = parseMediaPlaylist(content);
+  check.segments = playlist.segments.length;
+
+  if (!playlist.endList || playlist.segments.length === 0) {
+    check.issues.push({ segment: null, problem: 'incomplete_playlist', detail: 'Playlist has no segments or no #EXT-X-ENDLIST' });
+  }
+
+  if (playlist.mapUri && await fileSize(path.join(dir, playlist.mapUri)) === null) {
+    check.issues.push({ segment: playlist.mapUri, problem: 'missing_init', detail: 'Init segment is missing' });
+  }
+
+  const measured: { uri: string; size: number; duration: number }[] = [];
+
+  for (const segment of playlist.segments) {
+    const size = await fileSize(path.join(dir, segment.uri));
+    if (size === null) {
+      check.issues.push({ segment: segment.uri, problem: 'missing', detail: 'Segment file is missing' });
+      continue;
+    }
+
+    if (size === 0) {
+      check.issues.push({ segment: segment.uri, problem: 'empty', detail: 'Segment file is empty' });
+      continue;
+    }
+
+    // EXTINF may not exceed the target duration (players stall on the gap otherwise)
+    if (segment.duration <= 0 || (playlist.targetDuration > 0 && segment.duration > playlist.targetDuration + 1)) {
+      check.issues.push({
+        segment: segment.uri,
+        problem: 'bad_duration',
+        detail: `Duration ${segment.duration}s (target ${playlist.targetDuration}s)`
+      });
+      continue;
+    }
+
+    if (segment.uri.endsWith('.ts') && size % TS_PACKET_SIZE !== 0) {
+      check.issues.push({ segment: segment.uri, problem: 'truncated', detail: `${size} bytes is not a whole number of TS packets` });
+      continue;
+    }
+
+    measured.push({ uri: segment.uri, size, duration: segment.duration });
+  }
+
+  // Short segments (usually the last one) carry too little data to judge
+  const comparable = measured.filter(s => s.duration >= 1);
+  const typical = median(comparable.map(s => s.size / s.duration));
+
+  for (const segment of comparable) {
+    if (segment.size / segment.duration < typical * MIN_BITRATE_RATIO) {
+      check.issues.push({
+        segment: segment.uri,
+        problem: 'truncated',
+        detail: `${segment.size} bytes for ${segment.duration}s, far below the rest of the rendition`
+      });
+    }
+  }
+
+  return check;
+}
+
+// Verify every local HLS rendition of a video and store the result, null if it has none
+export async function verifyVideo(videoId: string): Promise<IntegrityReport | null> {
+  const videoSources = db.prepare(`
+    SELECT url FROM video_sources
+    WHERE video_id = ? AND is_local = 1 AND resolution != 'auto' AND url LIKE '%.m3u8'
+  `).all(videoId) as { url: string }[];
+  const audioTracks = db.prepare(`
+    SELECT url FROM audio_tracks WHERE video_id = ? AND url LIKE '/storage/%'
+  `).all(videoId) as { url: string }[];
+
+  if (videoSources.length === 0 && audioTracks.length === 0) {
+    db.prepare('DELETE FROM video_integrity WHERE video_id = ?').run(videoId);
+    return null;
+  }
+
+  const renditions: RenditionCheck[] = [];
+  for (const source of videoSources) {
+    renditions.push(await checkRendition(source.url, 'video'));
+  }
+  for (const track of audioTracks) {
+    renditions.push(await checkRendition(track.url, 'audio'));
+  }
+
+  const report: IntegrityReport = {
+    video_id: videoId,
+    status: renditions.some(r => r.issues.length > 0) ? 'broken' : 'ok',
+    checked_at: new Date().toISOString(),
+    renditions
+  };
+
+  db.prepare(`
+    INSERT INTO video_integrity (video_id, status, report, checked_at)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(video_id) DO UPDATE SET status = excluded.status, report = excluded.report, checked_at = excluded.checked_at
+  `).run(videoId, report.status, JSON.stringify(report), report.checked_at);
+
+  if (report.status === 'broken') {
+    const damaged = renditions.filter(r => r.issues.length > 0).map(r => r.name);
+    console.warn(`🩺 Video ${videoId} has damaged renditions: ${damaged.join(', ')}`);
+  }
+
+  return report;
+}
+
+// Last stored result of a video, null if it was never verified
+export function getIntegrityReport(videoId: string): IntegrityReport | null {
+  const row = db.prepare('SELECT * FROM video_integrity WHERE video_id = ?').get(videoId) as IntegrityRow | undefined;
+  return row ? JSON.parse(row.report) : null;
+}
+
+// Names of the renditions that need to be encoded again
+export function getDamagedRenditions(report: IntegrityReport): { video: string[]; audio: string[] } {
+  const damaged = report.renditions.filter(r => r.issues.length > 0);
+  return {
+    video: damaged.filter(r => r.kind === 'video').map(r => r.name),
+    audio: damaged.filter(r => r.kind === 'audio').map(r => r.name)
+  };
+}
+
+async function verifyAllVideos(): Promise<void> {
+  // A slow run is still going when the next one is due
+  if (running) return;
+  running = true;
+
+  try {
+    const videos = db.prepare(`
+      SELECT DISTINCT video_id FROM video_sources WHERE is_local = 1 AND url LIKE '%.m3u8'
+    `).all() as { video_id: string }[];
+
+    // Videos being encoded are checked when their job finishes
+    const busy = db.prepare(`SELECT 1 FROM encoding_jobs WHERE video_id = ? AND status IN ('pending', 'encoding', 'paused')`);
+
+    for (const { video_id } of videos) {
+      if (busy.get(video_id)) continue;
+
+      try {
+        await verifyVideo(video_id);
+      } catch (error) {
+        console.error(`Error verifying video ${video_id}:`, error);
+      }
+
+      // Let requests in between videos
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  } catch (error) {
+    console.error('Error verifying videos:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startIntegrityChecks(): void {
+  verifyAllVideos();
+  setInterval(verifyAllVideos, INTEGRITY_CHECK_INTERVAL).unref();
+}
@@ -0,0 +1,76 @@
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import db from '../database.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Outside storage/, which is served publicly: the logs hold command lines, server paths and source URLs
+const logsDir = path.join(__dirname, '..', '..', 'logs', 'encoding');
+
+// A log is rotated to <jobId>.1.log once it grows past this, so a job never keeps more than twice as much
+const MAX_LOG_SIZE = 1024 * 1024;
+// Logs of deleted jobs, and logs untouched for this long, are removed
+const LOG_RETENTION_DAYS = 30;
+const LOG_CLEANUP_INTERVAL = 24 * 60 * 60 * 1000;
+
+const logPath = (jobId: string) => path.join(logsDir, `${jobId}.log`);
+const rotatedLogPath = (jobId: string) => path.join(logsDir, `${jobId}.1.log`);
+
+// Append to a job's log (each line is prefixed with the time), logging must never break the job
+export function appendJobLog(jobId: string, text: string): void {
+  try {
+    fs.mkdirSync(logsDir, { recursive: true });
+
+    const file = logPath(jobId);
+    if (fs.existsSync(file) && fs.statSync(file).size > MAX_LOG_SIZE) {
+      fs.renameSync(file, rotatedLogPath(jobId));
+    }
+
+    const time = new Date().toISOString();
+    const lines = text.trimEnd().split(/\r?\n/).map(line => `[${time}] ${line}`).join('\n');
+    fs.appendFileSync(file, lines + '\n');
+  } catch (error) {
+    console.error(`Error writing log of encoding job ${jobId}:`, error);
+  }
+}
+
+// Current log of a job, with the previous (rotated) part if there is one
+export function readJobLog(jobId: string): { log: string; previous: string | null; size: number } | null {
+  const file = logPath(jobId);
+  if (!fs.existsSync(file)) return null;
+
+  const rotated = rotatedLogPath(jobId);
+  const previous = fs.existsSync(rotated) ? fs.readFileSync(rotated, 'utf-8') : null;
+  const log = fs.readFileSync(file, 'utf-8');
+
+  return { log, previous, size: Buffer.byteLength(log) + (previous ? Buffer.byteLength(previous) : 0) };
+}
+
+export function deleteJobLog(jobId: string): void {
+  fs.rmSync(logPath(jobId), { force: true });
+  fs.rmSync(rotatedLogPath(jobId), { force: true });
+}
+
+function pruneJobLogs(): void {
+  if (!fs.existsSync(logsDir)) return;
+
+  const cutoff = Date.now() - LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+  for (const file of fs.readdirSync(logsDir)) {
+    const match = file.match(/^(.+?)(\.1)?\.log$/);
+    if (!match) continue;
+
+    const filePath = path.join(logsDir, file);
+    const job = db.prepare('SELECT 1 FROM encoding_jobs WHERE id = ?').get(match[1]);
+    if (!job || fs.statSync(filePath).mtimeMs < cutoff) {
+      fs.rmSync(filePath, { force: true });
+    }
+  }
+}
+
+export function startJobLogCleanup(): void {
+  pruneJobLogs();
+  setInterval(pruneJobLogs, LOG_CLEANUP_INTERVAL).unref();
+}
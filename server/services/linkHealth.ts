@@ -0,0 +1,199 @@
+import db from '../database.js';
+import { dispatchWebhookEvent } from './webhooks.js';
+
+// Every external link is checked again this often
+const LINK_CHECK_INTERVAL = 6 * 60 * 60 * 1000;
+// A host that doesn't answer within this time counts as down
+const LINK_CHECK_TIMEOUT = 15 * 1000;
+// History older than this is dropped after each run
+const LINK_HISTORY_RETENTION = '-30 days';
+
+export type LinkKind = 'source' | 'subtitle' | 'mirror';
+
+const LINK_TABLES: Record<LinkKind, string> = {
+  source: 'video_sources',
+  subtitle: 'subtitles',
+  mirror: 'source_mirrors'
+};
+
+interface LinkRow {
+  kind: LinkKind;
+  id: number;
+  video_id: string;
+  url: string;
+  link_status: 'ok' | 'broken' | null;
+}
+
+export interface LinkCheckResult {
+  ok: boolean;
+  status_code: number | null;
+  error: string | null;
+  response_ms: number;
+}
+
+// One external link of a video with its current status and latest checks
+export interface LinkHealth {
+  kind: LinkKind;
+  id: number;
+  url: string;
+  status: 'ok' | 'broken' | null;
+  history: (LinkCheckResult & { checked_at: string })[];
+}
+
+let running = false;
+
+// HEAD the URL, hosts that don't support HEAD get a one-byte range request instead
+export async function checkLink(url: string): Promise<LinkCheckResult> {
+  const startedAt = Date.now();
+
+  try {
+    let response = await fetch(url, { method: 'HEAD', redirect: 'follow', signal: AbortSignal.timeout(LINK_CHECK_TIMEOUT) });
+
+    // Signed URLs often reject HEAD with 403 since the signature covers the method
+    if (response.status === 405 || response.status === 501 || response.status === 403) {
+      response = await fetch(url, {
+        headers: { Range: 'bytes=0-0' },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(LINK_CHECK_TIMEOUT)
+      });
+      // Only the status matters, a host ignoring the range would send the whole file
+      await response.body?.cancel();
+    }
+
+    return {
+      ok: response.ok,
+      status_code: response.status,
+      error: response.ok ? null : `HTTP ${response.status}`,
+      response_ms: Date.now() - startedAt
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+    // fetch hides the network error (DNS, refused connection) in its cause
+    const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : null;
+    return {
+      ok: false,
+      status_code: null,
+      error: timedOut ? `No response within ${LINK_CHECK_TIMEOUT / 1000}s` : cause || (error instanceof Error ? error.message : String(error)),
+      response_ms: Date.now() - startedAt
+    };
+  }
+}
+
+function getExternalLinks(videoId?: string): LinkRow[] {
+  const filter = videoId ? 'AND video_id = ?' : '';
+  return db.prepare(`
+    SELECT 'source' AS kind, id, video_id, url, link_status FROM video_sources WHERE is_local = 0 AND url LIKE 'http%' ${filter}
+    UNION ALL
+    SELECT 'subtitle' AS kind, id, video_id, url, link_status FROM subtitles WHERE url LIKE 'http%' ${filter}
+    UNION ALL
+    SELECT 'mirror' AS kind, id, video_id, url, link_status FROM source_mirrors
+    WHERE url LIKE 'http%' AND source_id IN (SELECT id FROM video_sources) ${filter}
+  `).all(...(videoId ? [videoId, videoId, videoId] : [])) as LinkRow[];
+}
+
+function recordCheck(link: LinkRow, result: LinkCheckResult): void {
+  db.prepare(`
+    INSERT INTO link_checks (video_id, kind, target_id, url, ok, status_code, error, response_ms)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(link.video_id, link.kind, link.id, link.url, result.ok ? 1 : 0, result.status_code, result.error, result.response_ms);
+
+  db.prepare(`
+    UPDATE ${LINK_TABLES[link.kind]} SET link_status = ?, link_error = ?, link_checked_at = datetime('now') WHERE id = ?
+  `).run(result.ok ? 'ok' : 'broken', result.error, link.id);
+}
+
+// Check every link of the given rows, grouped by video so each video sends one notification
+async function checkLinks(links: LinkRow[]): Promise<Map<string, LinkHealth[]>> {
+  const byVideo = new Map<string, LinkRow[]>();
+  for (const link of links) {
+    byVideo.set(link.video_id, [...(byVideo.get(link.video_id) || []), link]);
+  }
+
+  const report = new Map<string, LinkHealth[]>();
+
+  for (const [videoId, videoLinks] of byVideo) {
+    const broke: (LinkRow & LinkCheckResult)[] = [];
+    const recovered: LinkRow[] = [];
+
+    for (const link of videoLinks) {
+      const result = await checkLink(link.url);
+
+      // The row may have been deleted while the check was running
+      const exists = db.prepare(`SELECT 1 FROM ${LINK_TABLES[link.kind]} WHERE id = ?`).get(link.id);
+      if (!exists) continue;
+
+      recordCheck(link, result);
+
+      if (!result.ok && link.link_status !== 'broken') broke.push({ ...link, ...result });
+      if (result.ok && link.link_status === 'broken') recovered.push(link);
+    }
+
+    if (broke.length > 0) {
+      console.warn(`🔗 Video ${videoId} has ${broke.length} broken link(s): ${broke.map(l => `${l.url} (${l.error})`).join(', ')}`);
+      dispatchWebhookEvent('link.broken', {
+        video_id: videoId,
+        links: broke.map(l => ({ kind: l.kind, id: l.id, url: l.url, status_code: l.status_code, error: l.error }))
+      });
+    }
+    if (recovered.length > 0) {
+      console.log(`🔗 Video ${videoId}: ${recovered.length} link(s) reachable again`);
+      dispatchWebhookEvent('link.recovered', {
+        video_id: videoId,
+        links: recovered.map(l => ({ kind: l.kind, id: l.id, url: l.url }))
+      });
+    }
+
+    report.set(videoId, getLinkHealth(videoId));
+  }
+
+  return report;
+}
+
+// Current status and recent checks of every external link of a video
+export function getLinkHealth(videoId: string, historyLimit = 10): LinkHealth[] {
+  const history = db.prepare(`
+    SELECT ok, status_code, error, response_ms, checked_at FROM link_checks
+    WHERE video_id = ? AND kind = ? AND target_id = ?
+    ORDER BY id DESC LIMIT ?
+  `);
+
+  return getExternalLinks(videoId).map(link => ({
+    kind: link.kind,
+    id: link.id,
+    url: link.url,
+    status: link.link_status,
+    history: (history.all(videoId, link.kind, link.id, historyLimit) as (Omit<LinkCheckResult, 'ok'> & { ok: number; checked_at: string })[])
+      .map(check => ({ ...check, ok: check.ok === 1 }))
+  }));
+}
+
+export async function checkVideoLinks(videoId: string): Promise<LinkHealth[]> {
+  const report = await checkLinks(getExternalLinks(videoId));
+  return report.get(videoId) || [];
+}
+
+async function checkAllLinks(): Promise<void> {
+  // A slow run is still going when the next one is due
+  if (running) return;
+  running = true;
+
+  try {
+    const links = getExternalLinks();
+    if (links.length > 0) {
+      const report = await checkLinks(links);
+      const broken = [...report.values()].flat().filter(link => link.status === 'broken').length;
+      console.log(`🔗 Checked ${links.length} external link(s), ${broken} broken`);
+    }
+
+    db.prepare(`DELETE FROM link_checks WHERE checked_at < datetime('now', ?)`).run(LINK_HISTORY_RETENTION);
+  } catch (error) {
+    console.error('Error checking external links:', error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startLinkHealthChecks(): void {
+  checkAllLinks();
+  setInterval(checkAllLinks, LINK_CHECK_INTERVAL).unref();
+}
@@ -0,0 +1,245 @@
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import db from '../database.js';
+import { isMasterPlaylist, parseMasterPlaylist, parseMasterMedia, parseMediaPlaylist } from './hls.js';
+import type { PlaylistMedia, PlaylistVariant } from './hls.js';
+import { nominalResolution } from './sourceProbe.js';
+import type { VideoCodec } from './profiles.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const subtitlesDir = path.join(__dirname, '..', '..', 'storage', 'subtitles');
+
+// Give up on hosts that stop responding
+const FETCH_TIMEOUT = 20 * 1000;
+
+interface MasterSourceRow {
+  id: number;
+  resolution: string;
+  url: string;
+}
+
+// What was found in the master playlists of a video
+export interface DiscoveryResult {
+  masters: number;
+  variants: number;
+  audio_tracks: number;
+  subtitles: number;
+  errors: string[];
+}
+
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url, { redirect: 'follow', signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+  if (!response.ok) {
+    throw new Error(`${url} responded with HTTP ${response.status}`);
+  }
+  return response.text();
+}
+
+// Codec family of a CODECS attribute, null when it names no video codec the player picks between
+function videoCodecOf(codecs: string | null): VideoCodec | null {
+  if (!codecs) return null;
+  if (/(^|,)\s*av01/.test(codecs)) return 'av1';
+  if (/(^|,)\s*(hvc1|hev1)/.test(codecs)) return 'hevc';
+  if (/(^|,)\s*(avc1|avc3)/.test(codecs)) return 'h264';
+  return null;
+}
+
+// A master playlist often lists several bitrates of the same size, the quality menu needs one per resolution and codec
+function pickVariants(variants: PlaylistVariant[]): (PlaylistVariant & { resolution: string; codec: VideoCodec | null })[] {
+  const picked = new Map<string, PlaylistVariant & { resolution: string; codec: VideoCodec | null }>();
+
+  for (const variant of variants) {
+    // Audio-only variants have no RESOLUTION
+    if (!variant.width || !variant.height) continue;
+
+    const resolution = nominalResolution(variant.width, variant.height);
+    const codec = videoCodecOf(variant.codecs);
+    const key = `${resolution}:${codec}`;
+    const current = picked.get(key);
+    if (!current || variant.bandwidth > current.bandwidth) {
+      picked.set(key, { ...variant, resolution, codec });
+    }
+  }
+
+  return [...picked.values()];
+}
+
+// Join the segments of a WebVTT playlist into one file. Cues spanning a segment boundary are repeated in both
+// segments, only the first copy is kept. Cue times are taken as they are (X-TIMESTAMP-MAP is dropped with the headers)
+export function mergeWebVttSegments(segments: string[]): string {
+  const cues: string[] = [];
+  const seen = new Set<string>();
+
+  for (const segment of segments) {
+    const blocks = segment.replace(/^\uFEFF/, '').split(/\r?\n\r?\n/).map(block => block.trim()).filter(Boolean);
+
+    for (const block of blocks) {
+      if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(block) || !block.includes('-->')) continue;
+      if (seen.has(block)) continue;
+
+      seen.add(block);
+      cues.push(block);
+    }
+  }
+
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+// Subtitle renditions are playlists of WebVTT segments, the <track> element needs a single file: one segment is
+// linked directly, several are downloaded and joined into storage/subtitles/<video id>/
+async function resolveSubtitleUrl(videoId: string, playlistUrl: string, fileName: string): Promise<string> {
+  const playlist = parseMediaPlaylist(await fetchText(playlistUrl));
+  const segmentUrls = playlist.segments.map(segment => new URL(segment.uri, playlistUrl).href);
+
+  if (segmentUrls.length === 0) {
+    throw new Error(`Subtitle playlist ${playlistUrl} has no segments`);
+  }
+  if (segmentUrls.length === 1) {
+    return segmentUrls[0];
+  }
+
+  const segments: string[] = [];
+  for (const segmentUrl of segmentUrls) {
+    segments.push(await fetchText(segmentUrl));
+  }
+
+  const subtitleDir = path.join(subtitlesDir, videoId);
+  fs.mkdirSync(subtitleDir, { recursive: true });
+  fs.writeFileSync(path.join(subtitleDir, fileName), mergeWebVttSegments(segments));
+
+  return `/storage/subtitles/${videoId}/${fileName}`;
+}
+
+// Add a video_sources row per variant of a linked master playlist (removing variants it no longer lists)
+function registerVariants(videoId: string, master: MasterSourceRow, variants: PlaylistVariant[]): number {
+  const picked = pickVariants(variants).map(variant => ({ ...variant, url: new URL(variant.uri, master.url).href }));
+
+  const update = db.prepare(`
+    UPDATE video_sources
+    SET resolution = ?, codec = ?, codecs = ?, width = ?, height = ?, bandwidth = ?
+    WHERE video_id = ? AND master_id = ? AND url = ?
+  `);
+  const insert = db.prepare(`
+    INSERT INTO video_sources (video_id, resolution, url, is_local, codec, codecs, width, height, bandwidth, master_id)
+    VALUES (?, ?, ?, 0, ?, ?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    const placeholders = picked.map(() => '?').join(', ');
+    db.prepare(`
+      DELETE FROM video_sources WHERE video_id = ? AND master_id = ?${picked.length > 0 ? ` AND url NOT IN (${placeholders})` : ''}
+    `).run(videoId, master.id, ...picked.map(variant => variant.url));
+
+    for (const variant of picked) {
+      const values = [variant.resolution, variant.codec, variant.codecs, variant.width, variant.height, variant.bandwidth || null];
+      if (update.run(...values, videoId, master.id, variant.url).changes === 0) {
+        insert.run(videoId, variant.resolution, variant.url, variant.codec, variant.codecs, variant.width, variant.height, variant.bandwidth || null, master.id);
+      }
+    }
+
+    // The master playlist is what switches between them
+    if (master.resolution !== 'auto') {
+      db.prepare(`UPDATE video_sources SET resolution = 'auto' WHERE id = ?`).run(master.id);
+    }
+  })();
+
+  return picked.length;
+}
+
+// Alternate audio renditions are played through the master playlist, the rows list them like encoded audio tracks
+function registerAudioTracks(videoId: string, master: MasterSourceRow, media: PlaylistMedia[]): number {
+  const exists = db.prepare('SELECT 1 FROM audio_tracks WHERE video_id = ? AND url = ?');
+  const insert = db.prepare(`
+    INSERT INTO audio_tracks (video_id, name, label, language, url, channels, is_default)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  let added = 0;
+  for (const track of media) {
+    if (track.type !== 'AUDIO' || !track.uri) continue;
+
+    const url = new URL(track.uri, master.url).href;
+    if (exists.get(videoId, url)) continue;
+
+    insert.run(videoId, `${track.groupId}_${track.name}`, track.name, track.language, url, track.channels, track.isDefault ? 1 : 0);
+    added++;
+  }
+
+  return added;
+}
+
+async function registerSubtitles(videoId: string, master: MasterSourceRow, media: PlaylistMedia[], errors: string[]): Promise<number> {
+  const subtitles = media.filter(track => track.type === 'SUBTITLES' && track.uri);
+  const exists = db.prepare('SELECT 1 FROM subtitles WHERE video_id = ? AND url = ?');
+  const insert = db.prepare(`
+    INSERT INTO subtitles (video_id, label, language, url, is_default)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  let added = 0;
+  for (const [index, track] of subtitles.entries()) {
+    try {
+      const url = await resolveSubtitleUrl(videoId, new URL(track.uri!, master.url).href, `hls_${master.id}_${index}.vtt`);
+      if (exists.get(videoId, url)) continue;
+
+      // Keep a default picked by the user
+      const hasDefault = db.prepare('SELECT 1 FROM subtitles WHERE video_id = ? AND is_default = 1').get(videoId);
+      insert.run(
+        videoId,
+        track.forced ? `${track.name} (Forced)` : track.name,
+        track.language || 'und',
+        url,
+        track.isDefault && !hasDefault ? 1 : 0
+      );
+      added++;
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return added;
+}
+
+// Read the master playlists among a video's linked sources and register their variants, audio renditions and
+// subtitles, so the quality, audio and subtitle menus work as they do for encoded videos. Safe to run again
+export async function discoverLinkedVariants(videoId: string): Promise<DiscoveryResult> {
+  const sources = db.prepare(`
+    SELECT id, resolution, url FROM video_sources
+    WHERE video_id = ? AND is_local = 0 AND master_id IS NULL AND url LIKE 'http%'
+  `).all(videoId) as MasterSourceRow[];
+
+  const result: DiscoveryResult = { masters: 0, variants: 0, audio_tracks: 0, subtitles: 0, errors: [] };
+
+  for (const source of sources) {
+    // Only playlists are fetched, an 'auto' label marks one whose URL lacks the .m3u8 extension
+    if (!source.url.toLowerCase().includes('.m3u8') && source.resolution !== 'auto') continue;
+
+    let content: string;
+    try {
+      content = await fetchText(source.url);
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error));
+      continue;
+    }
+
+    if (!isMasterPlaylist(content)) continue;
+
+    const media = parseMasterMedia(content);
+    result.masters++;
+    result.variants += registerVariants(videoId, source, parseMasterPlaylist(content));
+    result.audio_tracks += registerAudioTracks(videoId, source, media);
+    result.subtitles += await registerSubtitles(videoId, source, media, result.errors);
+  }
+
+  if (result.masters > 0) {
+    console.log(`🧭 Found ${result.variants} variant(s), ${result.audio_tracks} audio track(s) and ${result.subtitles} subtitle(s) in the master playlist of video ${videoId}`);
+  }
+  for (const error of result.errors) {
+    console.warn(`⚠️  Master playlist of video ${videoId}: ${error}`);
+  }
+
+  return result;
+}
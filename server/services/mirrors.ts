@@ -0,0 +1,128 @@
+import db from '../database.js';
+
+// Extra URL of a video source, the player switches to it when the current one fails
+export interface SourceMirror {
+  id: number;
+  source_id: number;
+  video_id: string;
+  url: string;
+  priority: number;
+  weight: number;
+  failover_count: number;
+  last_failover_at: string | null;
+  link_status: 'ok' | 'broken' | null;
+  link_error: string | null;
+  link_checked_at: string | null;
+  created_at: string;
+}
+
+export interface MirrorInput {
+  url?: string;
+  priority?: unknown;
+  weight?: unknown;
+}
+
+const MAX_PRIORITY = 100;
+const MAX_WEIGHT = 100;
+
+// Mirror columns of a source as nested JSON, for the video queries (json() keeps it an array instead of a string)
+export const MIRRORS_JSON_SQL = `json((
+  SELECT json_group_array(json_object(
+    'id', m.id,
+    'url', m.url,
+    'priority', m.priority,
+    'weight', m.weight,
+    'failover_count', m.failover_count,
+    'link_status', m.link_status
+  )) FROM (SELECT * FROM source_mirrors WHERE source_id = vs.id ORDER BY priority, id) m
+))`;
+
+// What the player needs to pick a mirror, without the failover counts
+export const PLAYER_MIRRORS_JSON_SQL = `json((
+  SELECT json_group_array(json_object(
+    'url', m.url,
+    'priority', m.priority,
+    'weight', m.weight,
+    'link_status', m.link_status
+  )) FROM (SELECT * FROM source_mirrors WHERE source_id = vs.id ORDER BY priority, id) m
+))`;
+
+// Validate mirror input coming from the dashboard, returns an error message or null. Only the given fields
+// are checked, partial updates leave the rest as they are
+export function validateMirrorInput(input: MirrorInput, requireUrl: boolean): string | null {
+  if (requireUrl || input.url !== undefined) {
+    try {
+      const url = new URL(input.url || '');
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return 'Mirror URL must use http or https';
+      }
+    } catch {
+      return 'A valid mirror URL is required';
+    }
+  }
+
+  if (input.priority !== undefined && (!Number.isInteger(input.priority) || Number(input.priority) < 0 || Number(input.priority) > MAX_PRIORITY)) {
+    return `Priority must be a whole number from 0 to ${MAX_PRIORITY}`;
+  }
+  if (input.weight !== undefined && (!Number.isInteger(input.weight) || Number(input.weight) < 1 || Number(input.weight) > MAX_WEIGHT)) {
+    return `Weight must be a whole number from 1 to ${MAX_WEIGHT}`;
+  }
+
+  return null;
+}
+
+export function getMirror(sourceId: number, mirrorId: number): SourceMirror | undefined {
+  return db.prepare('SELECT * FROM source_mirrors WHERE id = ? AND source_id = ?').get(mirrorId, sourceId) as SourceMirror | undefined;
+}
+
+export function addMirror(videoId: string, sourceId: number, input: MirrorInput): SourceMirror {
+  const result = db.prepare(`
+    INSERT INTO source_mirrors (source_id, video_id, url, priority, weight)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(sourceId, videoId, input.url, input.priority ?? 1, input.weight ?? 1);
+
+  return getMirror(sourceId, Number(result.lastInsertRowid)) as SourceMirror;
+}
+
+export function updateMirror(sourceId: number, mirrorId: number, input: MirrorInput): SourceMirror | undefined {
+  const mirror = getMirror(sourceId, mirrorId);
+  if (!mirror) return undefined;
+
+  const url = input.url ?? mirror.url;
+  // A new URL hasn't been checked yet
+  if (url !== mirror.url) {
+    db.prepare('UPDATE source_mirrors SET link_status = NULL, link_error = NULL, link_checked_at = NULL WHERE id = ?').run(mirrorId);
+  }
+
+  db.prepare('UPDATE source_mirrors SET url = ?, priority = ?, weight = ? WHERE id = ?')
+    .run(url, input.priority ?? mirror.priority, input.weight ?? mirror.weight, mirrorId);
+
+  return getMirror(sourceId, mirrorId);
+}
+
+// Priority and weight of the source's own url among its mirrors
+export function updateSourcePriority(videoId: string, sourceId: number, input: MirrorInput): boolean {
+  return db.prepare(`
+    UPDATE video_sources SET priority = COALESCE(?, priority), weight = COALESCE(?, weight)
+    WHERE id = ? AND video_id = ?
+  `).run(input.priority ?? null, input.weight ?? null, sourceId, videoId).changes > 0;
+}
+
+export function deleteMirror(sourceId: number, mirrorId: number): boolean {
+  return db.prepare('DELETE FROM source_mirrors WHERE id = ? AND source_id = ?').run(mirrorId, sourceId).changes > 0;
+}
+
+// Count a failover away from a URL of the source (its own url or one of its mirrors), false if the URL isn't one of them
+export function recordFailover(videoId: string, sourceId: number, url: string): boolean {
+  const source = db.prepare(`
+    UPDATE video_sources SET failover_count = COALESCE(failover_count, 0) + 1, last_failover_at = datetime('now')
+    WHERE id = ? AND video_id = ? AND url = ?
+  `).run(sourceId, videoId, url);
+  if (source.changes > 0) return true;
+
+  const mirror = db.prepare(`
+    UPDATE source_mirrors SET failover_count = failover_count + 1, last_failover_at = datetime('now')
+    WHERE source_id = ? AND video_id = ? AND url = ?
+  `).run(sourceId, videoId, url);
+  return mirror.changes > 0;
+}
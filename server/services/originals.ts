@@ -0,0 +1,158 @@
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import db from '../database.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const rootDir = path.join(__dirname, '..', '..');
+// Outside storage/, which is served publicly: originals are only handed out by the authenticated download
+const originalsDir = path.join(rootDir, 'originals');
+
+// How often expired originals are looked for
+const RETENTION_CHECK_INTERVAL = 60 * 60 * 1000;
+
+// Source file of a video, kept so it can be encoded again
+export interface VideoOriginal {
+  video_id: string;
+  url: string;
+  original_name: string | null;
+  file_size: number | null;
+  retain: boolean;
+  created_at: string;
+  // Playable source of a video uploaded without encoding, never removed by retention
+  is_source: boolean;
+  // When the retention policy deletes it, null if it is kept
+  expires_at: string | null;
+}
+
+interface VideoOriginalRow {
+  video_id: string;
+  url: string;
+  original_name: string | null;
+  file_size: number | null;
+  retain: number;
+  created_at: string;
+}
+
+// Days originals are kept after upload (ORIGINALS_RETENTION_DAYS): null = forever, 0 = deleted once encoded
+export const getOriginalsRetentionDays = (): number | null => {
+  const value = process.env.ORIGINALS_RETENTION_DAYS;
+  if (value === undefined || value.trim() === '') return null;
+
+  const days = parseInt(value, 10);
+  return Number.isFinite(days) && days >= 0 ? days : null;
+};
+
+const toUrl = (filePath: string) => '/' + path.relative(rootDir, filePath).split(path.sep).join('/');
+const toPath = (url: string) => path.join(rootDir, url);
+
+function isUsedAsSource(row: VideoOriginalRow): boolean {
+  return !!db.prepare('SELECT 1 FROM video_sources WHERE video_id = ? AND url = ?').get(row.video_id, row.url);
+}
+
+function hasActiveJob(videoId: string): boolean {
+  return !!db.prepare(`
+    SELECT 1 FROM encoding_jobs WHERE video_id = ? AND status IN ('pending', 'encoding', 'paused')
+  `).get(videoId);
+}
+
+function parseOriginal(row: VideoOriginalRow): VideoOriginal {
+  const isSource = isUsedAsSource(row);
+  const days = getOriginalsRetentionDays();
+  let expiresAt: string | null = null;
+
+  if (days !== null && !row.retain && !isSource) {
+    const created = new Date(row.created_at.replace(' ', 'T') + 'Z');
+    expiresAt = new Date(created.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  return {
+    ...row,
+    retain: !!row.retain,
+    is_source: isSource,
+    expires_at: expiresAt
+  };
+}
+
+// Track the source file of a video (replaces a previously tracked one)
+export function registerOriginal(videoId: string, filePath: string, originalName: string | null): void {
+  db.prepare(`
+    INSERT INTO video_originals (video_id, url, original_name, file_size)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(video_id) DO UPDATE SET url = excluded.url, file_size = excluded.file_size
+  `).run(videoId, toUrl(filePath), originalName, fs.existsSync(filePath) ? fs.statSync(filePath).size : null);
+}
+
+export function getOriginal(videoId: string): VideoOriginal | null {
+  const row = db.prepare('SELECT * FROM video_originals WHERE video_id = ?').get(videoId) as VideoOriginalRow | undefined;
+  return row ? parseOriginal(row) : null;
+}
+
+// Absolute path of the original, null if it isn't tracked or the file is gone
+export function getOriginalPath(videoId: string): string | null {
+  const original = getOriginal(videoId);
+  if (!original) return null;
+
+  const filePath = toPath(original.url);
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+export function setOriginalRetained(videoId: string, retain: boolean): void {
+  db.prepare('UPDATE video_originals SET retain = ? WHERE video_id = ?').run(retain ? 1 : 0, videoId);
+}
+
+// Move the encoded upload to originals/<id>.<ext>, or drop it right away when the retention policy
+// doesn't keep originals
+export function keepOriginal(videoId: string, inputPath: string): void {
+  if (!fs.existsSync(inputPath)) return;
+
+  const original = getOriginal(videoId);
+  if (getOriginalsRetentionDays() === 0 && !original?.retain) {
+    purgeOriginal(videoId);
+    if (fs.existsSync(inputPath)) fs.unlinkSync(inputPath);
+    return;
+  }
+
+  const keptPath = path.join(originalsDir, `${videoId}${path.extname(inputPath)}`);
+  fs.mkdirSync(originalsDir, { recursive: true });
+  fs.renameSync(inputPath, keptPath);
+  registerOriginal(videoId, keptPath, original?.original_name ?? null);
+}
+
+// Delete the original file and stop tracking it, returns false if there was none
+export function purgeOriginal(videoId: string): boolean {
+  const original = getOriginal(videoId);
+  if (!original) return false;
+
+  const filePath = toPath(original.url);
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+  db.prepare('DELETE FROM video_originals WHERE video_id = ?').run(videoId);
+
+  console.log(`🗑️ Original of video ${videoId} deleted (${original.url})`);
+  return true;
+}
+
+// Delete originals past the retention period, skipping retained ones, playable sources and videos being encoded
+export function applyOriginalsRetention(): void {
+  if (getOriginalsRetentionDays() === null) return;
+
+  const rows = db.prepare('SELECT * FROM video_originals WHERE retain = 0').all() as VideoOriginalRow[];
+  const now = Date.now();
+
+  for (const row of rows) {
+    const original = parseOriginal(row);
+    if (!original.expires_at || new Date(original.expires_at).getTime() > now) continue;
+    if (hasActiveJob(row.video_id)) continue;
+
+    purgeOriginal(row.video_id);
+  }
+}
+
+export function startOriginalsRetention(): void {
+  applyOriginalsRetention();
+  setInterval(applyOriginalsRetention, RETENTION_CHECK_INTERVAL).unref();
+}
@@ -0,0 +1,215 @@
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import db from '../database.js';
+import { partsDirFor } from './importer.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const rootDir = path.join(__dirname, '..', '..');
+const storageDir = path.join(rootDir, 'storage');
+const videosDir = path.join(storageDir, 'videos');
+const uploadsDir = path.join(videosDir, 'uploads');
+const subtitlesDir = path.join(storageDir, 'subtitles');
+const fontsDir = path.join(storageDir, 'fonts');
+const thumbnailsDir = path.join(storageDir, 'thumbnails');
+const originalsDir = path.join(rootDir, 'originals');
+
+// Files touched more recently than this are left alone (uploads in flight, jobs about to register their files)
+const MIN_ORPHAN_AGE = 24 * 60 * 60 * 1000;
+const ORPHAN_CLEANUP_INTERVAL = 24 * 60 * 60 * 1000;
+
+export type OrphanKind = 'upload' | 'video_dir' | 'staging_dir' | 'subtitle' | 'font' | 'thumbnail' | 'original';
+
+// A file (or directory) in storage/ that no row refers to
+export interface OrphanedFile {
+  url: string;
+  kind: OrphanKind;
+  reason: string;
+  size: number;
+  modified_at: string;
+}
+
+// A row pointing at a local file that is gone, reported only (deleting rows is left to the admin)
+export interface MissingFile {
+  table: 'video_sources' | 'subtitles';
+  id: number;
+  video_id: string;
+  url: string;
+}
+
+export interface OrphanReport {
+  scanned_at: string;
+  orphans: OrphanedFile[];
+  reclaimable_bytes: number;
+  missing: MissingFile[];
+}
+
+const toUrl = (filePath: string) => '/' + path.relative(rootDir, filePath).split(path.sep).join('/');
+
+// Size and last modification of a file, or of everything inside a directory
+function measure(target: string): { size: number; modified: number } {
+  const stats = fs.statSync(target);
+  if (!stats.isDirectory()) return { size: stats.size, modified: stats.mtimeMs };
+
+  let size = 0;
+  let modified = stats.mtimeMs;
+  for (const entry of fs.readdirSync(target)) {
+    const inner = measure(path.join(target, entry));
+    size += inner.size;
+    modified = Math.max(modified, inner.modified);
+  }
+  return { size, modified };
+}
+
+const listDir = (dir: string) => fs.existsSync(dir) ? fs.readdirSync(dir) : [];
+
+// Files referenced by the database, as /storage/... URLs
+function getReferencedUrls(): Set<string> {
+  const urls = db.prepare(`
+    SELECT url FROM video_sources WHERE url LIKE '/storage/%'
+    UNION SELECT url FROM subtitles WHERE url LIKE '/storage/%'
+    UNION SELECT url FROM video_originals
+    UNION SELECT thumbnail FROM videos WHERE thumbnail LIKE '/storage/%'
+  `).all() as { url: string }[];
+
+  // Jobs that can still run (or be retried) need their input, imports also the segments downloaded so far
+  const inputs = db.prepare(`
+    SELECT input_path, mode FROM encoding_jobs WHERE input_path IS NOT NULL AND status IN ('pending', 'encoding', 'paused', 'failed', 'downloading')
+  `).all() as { input_path: string; mode: string | null }[];
+
+  return new Set([
+    ...urls.map(u => u.url),
+    ...inputs.map(j => toUrl(j.input_path)),
+    ...inputs.filter(j => j.mode === 'import').map(j => toUrl(partsDirFor(j.input_path)))
+  ]);
+}
+
+// Reconcile storage/ against videos, video_sources, subtitles, originals and jobs without deleting anything
+export function scanOrphanedFiles(): OrphanReport {
+  const videoIds = new Set((db.prepare('SELECT id FROM videos').all() as { id: string }[]).map(v => v.id));
+  const activeJobIds = new Set((db.prepare(`
+    SELECT id FROM encoding_jobs WHERE status IN ('pending', 'encoding', 'paused')
+  `).all() as { id: string }[]).map(j => j.id));
+  const referenced = getReferencedUrls();
+  const cutoff = Date.now() - MIN_ORPHAN_AGE;
+  const orphans: OrphanedFile[] = [];
+
+  const addOrphan = (target: string, kind: OrphanKind, reason: string) => {
+    if (!fs.existsSync(target)) return;
+
+    const { size, modified } = measure(target);
+    if (modified > cutoff) return;
+    orphans.push({ url: toUrl(target), kind, reason, size, modified_at: new Date(modified).toISOString() });
+  };
+
+  // Uploads that no video, original or job refers to (failed uploads, jobs that crashed before registering, abandoned imports)
+  for (const file of listDir(uploadsDir)) {
+    const filePath = path.join(uploadsDir, file);
+    if (!referenced.has(toUrl(filePath))) {
+      addOrphan(filePath, 'upload', 'Upload not used by any video or encoding job');
+    }
+  }
+
+  // Rendition folders of deleted videos, and staging folders of re-encodes that are no longer running
+  for (const videoId of listDir(videosDir)) {
+    const videoDir = path.join(videosDir, videoId);
+    if (videoId === 'uploads' || !fs.statSync(videoDir).isDirectory()) continue;
+
+    if (!videoIds.has(videoId)) {
+      addOrphan(videoDir, 'video_dir', 'Video no longer exists');
+      continue;
+    }
+
+    for (const entry of fs.readdirSync(videoDir)) {
+      const match = entry.match(/^staging_(.+)$/);
+      if (match && !activeJobIds.has(match[1])) {
+        addOrphan(path.join(videoDir, entry), 'staging_dir', 'Re-encode staging folder without a running job');
+      }
+    }
+  }
+
+  // Subtitle files nobody refers to (an .ass keeps its .vtt fallback next to it under the same name)
+  const stems = new Set([...referenced].map(url => url.replace(/\.[^./]+$/, '')));
+  for (const videoId of listDir(subtitlesDir)) {
+    const subtitleDir = path.join(subtitlesDir, videoId);
+    if (!videoIds.has(videoId)) {
+      addOrphan(subtitleDir, 'subtitle', 'Video no longer exists');
+      continue;
+    }
+
+    for (const file of listDir(subtitleDir)) {
+      const filePath = path.join(subtitleDir, file);
+      if (!stems.has(toUrl(filePath).replace(/\.[^./]+$/, ''))) {
+        addOrphan(filePath, 'subtitle', 'Subtitle file not used by any subtitle');
+      }
+    }
+  }
+
+  // Fonts aren't tracked per file, they belong to their video
+  for (const videoId of listDir(fontsDir)) {
+    if (!videoIds.has(videoId)) {
+      addOrphan(path.join(fontsDir, videoId), 'font', 'Video no longer exists');
+    }
+  }
+
+  // Thumbnails are named after their video
+  for (const file of listDir(thumbnailsDir)) {
+    const filePath = path.join(thumbnailsDir, file);
+    if (!referenced.has(toUrl(filePath)) && !videoIds.has(path.parse(file).name)) {
+      addOrphan(filePath, 'thumbnail', 'Thumbnail of a video that no longer exists');
+    }
+  }
+
+  // Kept originals nobody tracks any more
+  for (const file of listDir(originalsDir)) {
+    const filePath = path.join(originalsDir, file);
+    if (!referenced.has(toUrl(filePath))) {
+      addOrphan(filePath, 'original', 'Original not tracked for any video');
+    }
+  }
+
+  // Rows whose local file is gone
+  const localRows = db.prepare(`
+    SELECT 'video_sources' AS "table", id, video_id, url FROM video_sources WHERE url LIKE '/storage/%'
+    UNION ALL
+    SELECT 'subtitles' AS "table", id, video_id, url FROM subtitles WHERE url LIKE '/storage/%'
+  `).all() as MissingFile[];
+  const missing = localRows.filter(row => !fs.existsSync(path.join(rootDir, row.url)));
+
+  return {
+    scanned_at: new Date().toISOString(),
+    orphans,
+    reclaimable_bytes: orphans.reduce((total, orphan) => total + orphan.size, 0),
+    missing
+  };
+}
+
+// Delete everything the scan reports as orphaned, returns the report of what was removed
+export function cleanupOrphanedFiles(): OrphanReport {
+  const report = scanOrphanedFiles();
+
+  for (const orphan of report.orphans) {
+    fs.rmSync(path.join(rootDir, orphan.url), { recursive: true, force: true });
+  }
+
+  if (report.orphans.length > 0) {
+    console.log(`🧹 Removed ${report.orphans.length} orphaned file(s), ${(report.reclaimable_bytes / 1024 / 1024).toFixed(1)} MB reclaimed`);
+  }
+
+  return report;
+}
+
+function runOrphanCleanup(): void {
+  try {
+    cleanupOrphanedFiles();
+  } catch (error) {
+    console.error('Error cleaning up orphaned files:', error);
+  }
+}
+
+export function startOrphanCleanup(): void {
+  runOrphanCleanup();
+  setInterval(runOrphanCleanup, ORPHAN_CLEANUP_INTERVAL).unref();
+}
@@ -0,0 +1,185 @@
+import { nanoid } from 'nanoid';
+import db from '../database.js';
+
+// Video codecs a profile can produce, H.264 is always included for compatibility
+export type VideoCodec = 'h264' | 'hevc' | 'av1';
+export const VIDEO_CODECS: VideoCodec[] = ['h264', 'hevc', 'av1'];
+
+// HLS segment containers: MPEG-TS or fragmented MP4 (CMAF)
+export type SegmentFormat = 'ts' | 'fmp4';
+export const SEGMENT_FORMATS: SegmentFormat[] = ['ts', 'fmp4'];
+
+// A single rung of an encoding ladder
+export interface ProfileRung {
+  name: string;
+  height: number;
+  bitrate: string;
+  crf?: number;
+  audioBitrate?: string;
+}
+
+export interface EncodingProfile {
+  id: string;
+  name: string;
+  description: string;
+  rungs: ProfileRung[];
+  codecs: VideoCodec[];
+  segment_format: SegmentFormat;
+  // Whether encodes also get a manifest.mpd, only fMP4 segments can be referenced from DASH
+  dash: boolean;
+  audio_bitrate: string;
+  preset: string;
+  is_default: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+interface EncodingProfileRow {
+  id: string;
+  name: string;
+  description: string | null;
+  rungs: string;
+  codecs: string | null;
+  segment_format: string | null;
+  audio_bitrate: string;
+  preset: string;
+  is_default: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// libx264 presets, fastest to slowest
+export const X264_PRESETS = [
+  'ultrafast', 'superfast', 'veryfast', 'faster', 'fast',
+  'medium', 'slow', 'slower', 'veryslow'
+];
+
+// Built-in ladder (used to seed the "default" profile)
+const DEFAULT_RUNGS: ProfileRung[] = [
+  { name: '360p', height: 360, bitrate: '600k', crf: 23, audioBitrate: '96k' },
+  { name: '480p', height: 480, bitrate: '1000k', crf: 23, audioBitrate: '128k' },
+  { name: '720p', height: 720, bitrate: '2500k', crf: 23, audioBitrate: '128k' },
+  { name: '1080p', height: 1080, bitrate: '5000k', crf: 23, audioBitrate: '192k' }
+];
+
+function parseProfile(row: EncodingProfileRow): EncodingProfile {
+  return {
+    ...row,
+    description: row.description || '',
+    rungs: JSON.parse(row.rungs || '[]'),
+    codecs: JSON.parse(row.codecs || '["h264"]'),
+    segment_format: row.segment_format === 'fmp4' ? 'fmp4' : 'ts',
+    dash: row.segment_format === 'fmp4',
+    is_default: !!row.is_default
+  };
+}
+
+// Create the default profile on first boot so encoding works out of the box
+export function seedDefaultProfile(): void {
+  const count = db.prepare('SELECT COUNT(*) as count FROM encoding_profiles').get() as { count: number };
+  if (count.count > 0) return;
+
+  db.prepare(`
+    INSERT INTO encoding_profiles (id, name, description, rungs, audio_bitrate, preset, is_default)
+    VALUES (?, 'default', ?, ?, '128k', 'medium', 1)
+  `).run(nanoid(10), 'Standard H.264 ladder (360p - 1080p)', JSON.stringify(DEFAULT_RUNGS));
+
+  console.log('🎚️  Default encoding profile created');
+}
+
+export function listProfiles(): EncodingProfile[] {
+  const rows = db.prepare('SELECT * FROM encoding_profiles ORDER BY is_default DESC, name ASC').all() as EncodingProfileRow[];
+  return rows.map(parseProfile);
+}
+
+export function getProfile(id: string): EncodingProfile | null {
+  const row = db.prepare('SELECT * FROM encoding_profiles WHERE id = ?').get(id) as EncodingProfileRow | undefined;
+  return row ? parseProfile(row) : null;
+}
+
+export function getDefaultProfile(): EncodingProfile | null {
+  const row = db.prepare(`
+    SELECT * FROM encoding_profiles ORDER BY is_default DESC, created_at ASC LIMIT 1
+  `).get() as EncodingProfileRow | undefined;
+  return row ? parseProfile(row) : null;
+}
+
+// Validate profile input coming from the dashboard, returns an error message or null
+export function validateProfileInput(input: Partial<EncodingProfile>): string | null {
+  if (!input.name || !/^[a-z0-9][a-z0-9-_]{0,47}$/i.test(input.name)) {
+    return 'Name is required and may only contain letters, numbers, "-" and "_"';
+  }
+
+  if (!Array.isArray(input.rungs) || input.rungs.length === 0) {
+    return 'At least one rung is required';
+  }
+
+  const names = new Set<string>();
+  for (const rung of input.rungs) {
+    if (!rung.name || !/^[a-z0-9]+$/i.test(rung.name)) {
+      return 'Each rung needs an alphanumeric name (e.g. 720p)';
+    }
+    if (names.has(rung.name)) {
+      return `Duplicate rung name: ${rung.name}`;
+    }
+    names.add(rung.name);
+
+    if (!Number.isInteger(rung.height) || rung.height < 144 || rung.height > 4320) {
+      return `Invalid height for ${rung.name} (144 - 4320)`;
+    }
+    if (!/^\d+k$/.test(rung.bitrate || '')) {
+      return `Invalid bitrate for ${rung.name} (e.g. 2500k)`;
+    }
+    if (rung.crf !== undefined && rung.crf !== null && (!Number.isInteger(rung.crf) || rung.crf < 0 || rung.crf > 51)) {
+      return `Invalid CRF for ${rung.name} (0 - 51)`;
+    }
+    if (rung.audioBitrate && !/^\d+k$/.test(rung.audioBitrate)) {
+      return `Invalid audio bitrate for ${rung.name} (e.g. 128k)`;
+    }
+  }
+
+  if (input.codecs !== undefined) {
+    if (!Array.isArray(input.codecs) || input.codecs.some(c => !VIDEO_CODECS.includes(c))) {
+      return `Invalid codecs, expected any of: ${VIDEO_CODECS.join(', ')}`;
+    }
+    if (!input.codecs.includes('h264')) {
+      return 'The h264 ladder is required as a fallback for older devices';
+    }
+  }
+
+  if (input.segment_format && !SEGMENT_FORMATS.includes(input.segment_format)) {
+    return `Invalid segment format, expected one of: ${SEGMENT_FORMATS.join(', ')}`;
+  }
+
+  if (input.dash && input.segment_format !== 'fmp4') {
+    return 'DASH needs fMP4 segments, MPEG-TS profiles only produce HLS';
+  }
+
+  if (input.audio_bitrate && !/^\d+k$/.test(input.audio_bitrate)) {
+    return 'Invalid audio bitrate (e.g. 128k)';
+  }
+
+  if (input.preset && !X264_PRESETS.includes(input.preset)) {
+    return `Invalid preset, expected one of: ${X264_PRESETS.join(', ')}`;
+  }
+
+  return null;
+}
+
+// Deduplicate codecs and keep them in a stable order (h264 first)
+export function normalizeCodecs(codecs: VideoCodec[] | undefined): VideoCodec[] {
+  return VIDEO_CODECS.filter(c => c === 'h264' || (codecs || []).includes(c));
+}
+
+// Keep only known rung fields and order the ladder from lowest to highest
+export function normalizeRungs(rungs: ProfileRung[]): ProfileRung[] {
+  return rungs
+    .map(r => ({
+      name: r.name,
+      height: r.height,
+      bitrate: r.bitrate,
+      ...(r.crf !== undefined && r.crf !== null ? { crf: r.crf } : {}),
+      ...(r.audioBitrate ? { audioBitrate: r.audioBitrate } : {})
+    }))
+    .sort((a, b) => a.height - b.height);
+}
@@ -0,0 +1,135 @@
+import db from '../database.js';
+import { ENCODER_PREFERENCES } from './encoderCapabilities.js';
+import type { EncoderPreference } from './encoderCapabilities.js';
+
+// Queue order: higher priority first, then the manual order of the queue
+export const PRIORITY_LEVELS = { low: 0, normal: 1, high: 2 } as const;
+export const PRIORITY_VALUES: number[] = Object.values(PRIORITY_LEVELS);
+
+// Encoding queue settings managed from the dashboard (a single row)
+export interface QueueSettings {
+  // Only start jobs between window_start and window_end (server time, HH:MM, may wrap past midnight)
+  window_enabled: boolean;
+  window_start: string;
+  window_end: string;
+  // Priority given to new jobs
+  default_priority: number;
+  // ffmpeg threads per job (0 = let ffmpeg decide) and process niceness (0 - 19)
+  threads: number;
+  niceness: number;
+  // H.264 encoder: 'auto' picks the detected hardware encoder, 'cpu' always uses libx264, anything else is forced
+  encoder: EncoderPreference;
+  updated_at?: string;
+}
+
+interface QueueSettingsRow {
+  window_enabled: number;
+  window_start: string;
+  window_end: string;
+  default_priority: number;
+  threads: number;
+  niceness: number;
+  encoder: string | null;
+  updated_at: string;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function getQueueSettings(): QueueSettings {
+  const row = db.prepare('SELECT * FROM queue_settings WHERE id = 1').get() as QueueSettingsRow | undefined;
+
+  if (!row) {
+    return {
+      window_enabled: false,
+      window_start: '01:00',
+      window_end: '07:00',
+      default_priority: PRIORITY_LEVELS.normal,
+      threads: 0,
+      niceness: 0,
+      encoder: 'auto'
+    };
+  }
+
+  return {
+    window_enabled: !!row.window_enabled,
+    window_start: row.window_start,
+    window_end: row.window_end,
+    default_priority: row.default_priority,
+    threads: row.threads,
+    niceness: row.niceness,
+    encoder: (row.encoder || 'auto') as EncoderPreference,
+    updated_at: row.updated_at
+  };
+}
+
+// Validate settings coming from the dashboard, returns an error message or null
+export function validateQueueSettings(input: Partial<QueueSettings>): string | null {
+  if (input.window_start !== undefined && !TIME_PATTERN.test(input.window_start)) {
+    return 'Invalid window start, expected HH:MM';
+  }
+  if (input.window_end !== undefined && !TIME_PATTERN.test(input.window_end)) {
+    return 'Invalid window end, expected HH:MM';
+  }
+  if (input.window_start !== undefined && input.window_start === input.window_end) {
+    return 'The encoding window must not start and end at the same time';
+  }
+  if (input.default_priority !== undefined && !PRIORITY_VALUES.includes(input.default_priority)) {
+    return `Invalid priority, expected one of: ${PRIORITY_VALUES.join(', ')}`;
+  }
+  if (input.threads !== undefined && (!Number.isInteger(input.threads) || input.threads < 0 || input.threads > 64)) {
+    return 'Invalid thread count (0 - 64, 0 = automatic)';
+  }
+  if (input.niceness !== undefined && (!Number.isInteger(input.niceness) || input.niceness < 0 || input.niceness > 19)) {
+    return 'Invalid niceness (0 - 19)';
+  }
+  if (input.encoder !== undefined && !ENCODER_PREFERENCES.includes(input.encoder)) {
+    return `Invalid encoder, expected one of: ${ENCODER_PREFERENCES.join(', ')}`;
+  }
+
+  return null;
+}
+
+export function saveQueueSettings(settings: QueueSettings): QueueSettings {
+  db.prepare(`
+    INSERT INTO queue_settings (id, window_enabled, window_start, window_end, default_priority, threads, niceness, encoder, updated_at)
+    VALUES (1, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(id) DO UPDATE SET
+      window_enabled = excluded.window_enabled,
+      window_start = excluded.window_start,
+      window_end = excluded.window_end,
+      default_priority = excluded.default_priority,
+      threads = excluded.threads,
+      niceness = excluded.niceness,
+      encoder = excluded.encoder,
+      updated_at = excluded.updated_at
+  `).run(
+    settings.window_enabled ? 1 : 0,
+    settings.window_start,
+    settings.window_end,
+    settings.default_priority,
+    settings.threads,
+    settings.niceness,
+    settings.encoder
+  );
+
+  return getQueueSettings();
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Whether queued jobs may start now (always true without a window)
+export function isInEncodingWindow(settings: QueueSettings = getQueueSettings(), now: Date = new Date()): boolean {
+  if (!settings.window_enabled) return true;
+
+  const start = toMinutes(settings.window_start);
+  const end = toMinutes(settings.window_end);
+  const current = now.getHours() * 60 + now.getMinutes();
+
+  // A window like 22:00 - 06:00 wraps past midnight
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
@@ -0,0 +1,170 @@
+import ffmpeg from 'fluent-ffmpeg';
+import type { FfprobeData, FfprobeStream } from 'fluent-ffmpeg';
+import db from '../database.js';
+import { generateThumbnail } from './encoder.js';
+import { buildVideoCodecString } from './hls.js';
+import { VIDEO_CODECS } from './profiles.js';
+import type { VideoCodec } from './profiles.js';
+
+// Give up on hosts that stop responding (ffprobe takes microseconds)
+const PROBE_TIMEOUT_US = 20 * 1000 * 1000;
+
+// Nominal rungs a linked source can be labelled with, highest first
+const NOMINAL_HEIGHTS = [2160, 1440, 1080, 720, 480, 360, 240, 144];
+
+interface LinkedSourceRow {
+  id: number;
+  resolution: string;
+  url: string;
+}
+
+// What ffprobe found for one linked source
+export interface SourceProbeResult {
+  id: number;
+  url: string;
+  resolution: string;
+  // Label matching the actual frame size, null for adaptive sources (HLS master / DASH) or when probing failed
+  detected_resolution: string | null;
+  width: number | null;
+  height: number | null;
+  codec: string | null;
+  bandwidth: number | null;
+  duration: number | null;
+  error: string | null;
+}
+
+// Adaptive sources switch between several sizes, their label isn't a resolution
+const isAdaptive = (resolution: string) => resolution === 'auto' || resolution === 'dash';
+
+function ffprobeUrl(url: string): Promise<FfprobeData> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(url, ['-rw_timeout', String(PROBE_TIMEOUT_US)], (err, metadata) => {
+      if (err) reject(err);
+      else resolve(metadata);
+    });
+  });
+}
+
+// Label a frame size by its nominal rung: letterboxed 1920x800 is still 1080p, so the width counts as well
+export function nominalResolution(width: number, height: number): string {
+  const nominal = Math.max(height, Math.round(width * 9 / 16));
+  const rung = NOMINAL_HEIGHTS.find(h => nominal >= h * 0.95) ?? NOMINAL_HEIGHTS[NOMINAL_HEIGHTS.length - 1];
+  return `${rung}p`;
+}
+
+const toNumber = (value: unknown): number | null => {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : null;
+};
+
+async function probeSource(videoId: string, source: LinkedSourceRow): Promise<SourceProbeResult> {
+  const result: SourceProbeResult = {
+    id: source.id,
+    url: source.url,
+    resolution: source.resolution,
+    detected_resolution: null,
+    width: null,
+    height: null,
+    codec: null,
+    bandwidth: null,
+    duration: null,
+    error: null
+  };
+
+  let codecString: string | null = null;
+
+  try {
+    const metadata = await ffprobeUrl(source.url);
+    // An HLS master playlist lists every variant, the largest one describes the source best
+    const videoStream = metadata.streams
+      .filter((s: FfprobeStream) => s.codec_type === 'video')
+      .sort((a, b) => (b.height || 0) - (a.height || 0))[0];
+
+    if (!videoStream) {
+      throw new Error('No video stream found');
+    }
+
+    result.width = videoStream.width || null;
+    result.height = videoStream.height || null;
+    result.codec = videoStream.codec_name || null;
+    codecString = buildVideoCodecString(videoStream);
+    result.bandwidth = toNumber(videoStream.bit_rate) ?? toNumber(metadata.format.bit_rate);
+    result.duration = toNumber(metadata.format.duration);
+
+    if (result.width && result.height && !isAdaptive(source.resolution)) {
+      result.detected_resolution = nominalResolution(result.width, result.height);
+    }
+  } catch (error) {
+    // ffprobe's own complaint (e.g. '404 Not Found') is the last line of the message
+    const lines = (error instanceof Error ? error.message : String(error)).split('\n').map(l => l.trim()).filter(Boolean);
+    result.error = lines[lines.length - 1] || 'Probe failed';
+  }
+
+  // Only codecs the player picks between are stored as the source codec
+  const codec = VIDEO_CODECS.includes(result.codec as VideoCodec) ? result.codec : null;
+
+  db.prepare(`
+    UPDATE video_sources
+    SET width = ?, height = ?, codec = ?, bandwidth = ?, detected_resolution = ?, probe_error = ?, probed_at = datetime('now'),
+        codecs = COALESCE(?, codecs)
+    WHERE id = ? AND video_id = ?
+  `).run(
+    result.width,
+    result.height,
+    codec,
+    result.bandwidth,
+    result.detected_resolution,
+    result.error,
+    codecString,
+    source.id,
+    videoId
+  );
+
+  if (result.detected_resolution && result.detected_resolution !== source.resolution) {
+    console.warn(`⚠️  Source ${source.id} of video ${videoId} is labelled ${source.resolution} but is ${result.width}x${result.height} (${result.detected_resolution})`);
+  }
+
+  return result;
+}
+
+// Probe every linked (non-local) source of a video: store the actual size, codec and bitrate of each, fill in the
+// duration, and generate a thumbnail when the video has none (or only a generated one). Variants of a master
+// playlist are described by the playlist and skipped
+export async function probeLinkedSources(videoId: string): Promise<SourceProbeResult[]> {
+  const sources = db.prepare(`
+    SELECT id, resolution, url FROM video_sources WHERE video_id = ? AND is_local = 0 AND master_id IS NULL
+  `).all(videoId) as LinkedSourceRow[];
+
+  const results: SourceProbeResult[] = [];
+  for (const source of sources) {
+    results.push(await probeSource(videoId, source));
+  }
+
+  const probed = results.filter(r => !r.error);
+  if (probed.length === 0) return results;
+
+  console.log(`🔍 Probed ${probed.length}/${results.length} linked source(s) of video ${videoId}`);
+
+  // Local renditions know the duration better
+  const video = db.prepare(`
+    SELECT thumbnail, EXISTS(SELECT 1 FROM video_sources WHERE video_id = videos.id AND is_local = 1) AS has_local
+    FROM videos WHERE id = ?
+  `).get(videoId) as { thumbnail: string | null; has_local: number } | undefined;
+  if (!video) return results;
+
+  const duration = probed.find(r => r.duration)?.duration;
+  if (duration && !video.has_local) {
+    db.prepare('UPDATE videos SET duration = ? WHERE id = ?').run(duration, videoId);
+  }
+
+  // A thumbnail picked by the user (an external URL) is kept
+  if (!video.thumbnail || video.thumbnail === `/storage/thumbnails/${videoId}.jpg`) {
+    const best = [...probed].sort((a, b) => (b.height || 0) - (a.height || 0))[0];
+    const thumbnailUrl = await generateThumbnail(best.url, videoId);
+    if (thumbnailUrl) {
+      db.prepare('UPDATE videos SET thumbnail = ? WHERE id = ?').run(thumbnailUrl, videoId);
+    }
+  }
+
+  return results;
+}
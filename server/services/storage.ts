@@ -0,0 +1,110 @@
+import path from 'path';
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const storageDir = path.join(__dirname, '..', '..', 'storage');
+// Kept originals live outside storage/ but count against the quota
+const originalsDir = path.join(__dirname, '..', '..', 'originals');
+
+const GB = 1024 * 1024 * 1024;
+
+// Walking storage/ is slow with many segments, the total is reused for a while
+const USAGE_CACHE_TTL = 30 * 1000;
+
+let usageCache: { bytes: number; at: number } | null = null;
+
+// Space left for uploads and renditions, plus what the dashboard and /api/health report
+export interface StorageStatus {
+  used_bytes: number;
+  // STORAGE_QUOTA_GB, null = no quota
+  quota_bytes: number | null;
+  disk_free_bytes: number;
+  disk_total_bytes: number;
+  // Free space always left on the disk (STORAGE_RESERVE_GB)
+  reserve_bytes: number;
+  // What can still be written: the smaller of the free disk space (minus the reserve) and the quota left
+  headroom_bytes: number;
+  // Below STORAGE_WARNING_GB of headroom the dashboard shows a warning
+  warning_bytes: number;
+  low: boolean;
+}
+
+// Size setting in GB, returned in bytes (read dynamically, env is loaded after imports)
+const readGigabytes = (name: string, fallback: number | null): number | null => {
+  const value = process.env[name];
+  const gigabytes = value === undefined || value.trim() === '' ? NaN : parseFloat(value);
+  const setting = Number.isFinite(gigabytes) && gigabytes >= 0 ? gigabytes : fallback;
+  return setting === null ? null : Math.round(setting * GB);
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= GB) return `${(bytes / GB).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+  return `${(bytes / 1024).toFixed(0)} KB`;
+};
+
+function directorySize(dir: string): number {
+  let total = 0;
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    try {
+      total += entry.isDirectory() ? directorySize(entryPath) : fs.statSync(entryPath).size;
+    } catch {
+      // Removed while walking (segments of a cancelled job, rotated logs)
+    }
+  }
+
+  return total;
+}
+
+function getStorageUsage(): number {
+  if (usageCache && Date.now() - usageCache.at < USAGE_CACHE_TTL) {
+    return usageCache.bytes;
+  }
+
+  const bytes = [storageDir, originalsDir].reduce((total, dir) => total + (fs.existsSync(dir) ? directorySize(dir) : 0), 0);
+  usageCache = { bytes, at: Date.now() };
+  return bytes;
+}
+
+export function getStorageStatus(): StorageStatus {
+  const stats = fs.statfsSync(fs.existsSync(storageDir) ? storageDir : path.dirname(storageDir));
+  const diskFree = stats.bavail * stats.bsize;
+  const used = getStorageUsage();
+  const quota = readGigabytes('STORAGE_QUOTA_GB', null);
+  const reserve = readGigabytes('STORAGE_RESERVE_GB', 2) ?? 0;
+  const warning = readGigabytes('STORAGE_WARNING_GB', 10) ?? 0;
+
+  const headroom = Math.max(0, Math.min(
+    diskFree - reserve,
+    quota !== null ? quota - used : Infinity
+  ));
+
+  return {
+    used_bytes: used,
+    quota_bytes: quota,
+    disk_free_bytes: diskFree,
+    disk_total_bytes: stats.blocks * stats.bsize,
+    reserve_bytes: reserve,
+    headroom_bytes: headroom,
+    warning_bytes: warning,
+    low: headroom < warning
+  };
+}
+
+// Why bytes can't be written right now, null if they fit
+export function checkStorageFor(bytes: number): string | null {
+  const { headroom_bytes, quota_bytes, used_bytes, disk_free_bytes, reserve_bytes } = getStorageStatus();
+  if (bytes <= headroom_bytes) return null;
+
+  const quotaLeft = quota_bytes !== null ? quota_bytes - used_bytes : Infinity;
+  const limit = quotaLeft < disk_free_bytes - reserve_bytes
+    ? `storage quota of ${formatBytes(quota_bytes ?? 0)}`
+    : `free disk space (keeping ${formatBytes(reserve_bytes)} free)`;
+
+  return `Needs ${formatBytes(bytes)}, only ${formatBytes(headroom_bytes)} left within the ${limit}`;
+}
@@ -0,0 +1,82 @@
+import ffmpeg from 'fluent-ffmpeg';
+import path from 'path';
+import fs from 'fs';
+
+// Sprite sheet layout, every sheet holds up to COLUMNS x ROWS thumbnails
+const TILE_WIDTH = 160;
+const COLUMNS = 10;
+const ROWS = 10;
+
+// One thumbnail every 10s for long videos, more often for short ones (but never more than every 2s)
+const MIN_INTERVAL = 2;
+const MAX_INTERVAL = 10;
+const TARGET_THUMBNAILS = 100;
+
+export interface TrickplaySource {
+  width: number;
+  height: number;
+  duration: number;
+}
+
+const formatVttTime = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  const hrs = Math.floor(ms / 3600000);
+  const mins = Math.floor((ms % 3600000) / 60000);
+  const secs = Math.floor((ms % 60000) / 1000);
+  const pad = (n: number, size = 2) => n.toString().padStart(size, '0');
+  return `${pad(hrs)}:${pad(mins)}:${pad(secs)}.${pad(ms % 1000, 3)}`;
+};
+
+// Render the sprite sheets of a video into outputDir and write thumbnails.vtt (#xywh= cues)
+// Returns false if no sprite could be produced
+export async function generateTrickplay(inputPath: string, outputDir: string, source: TrickplaySource): Promise<boolean> {
+  if (!source.duration || source.duration <= 0) return false;
+
+  const interval = Math.min(MAX_INTERVAL, Math.max(MIN_INTERVAL, Math.ceil(source.duration / TARGET_THUMBNAILS)));
+  let tileHeight = Math.round(TILE_WIDTH * source.height / source.width);
+  if (tileHeight % 2 !== 0) tileHeight += 1;
+
+  if (fs.existsSync(outputDir)) {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  }
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(inputPath)
+      // Only decode keyframes, thumbnails don't need to be frame-accurate
+      .inputOptions(['-skip_frame nokey'])
+      .outputOptions([
+        '-an',
+        '-sn',
+        `-vf fps=1/${interval},scale=${TILE_WIDTH}:${tileHeight},tile=${COLUMNS}x${ROWS}`,
+        '-q:v 5',
+        '-start_number 0'
+      ])
+      .output(path.join(outputDir, 'sprite_%03d.jpg'))
+      .on('end', () => resolve())
+      .on('error', (err) => reject(err))
+      .run();
+  });
+
+  const sprites = fs.readdirSync(outputDir).filter(f => /^sprite_\d{3}\.jpg$/.test(f)).sort();
+  if (sprites.length === 0) return false;
+
+  const perSprite = COLUMNS * ROWS;
+  const count = Math.min(Math.ceil(source.duration / interval), sprites.length * perSprite);
+  const lines = ['WEBVTT', ''];
+
+  for (let i = 0; i < count; i++) {
+    const start = i * interval;
+    const end = Math.min((i + 1) * interval, source.duration);
+    const position = i % perSprite;
+    const x = (position % COLUMNS) * TILE_WIDTH;
+    const y = Math.floor(position / COLUMNS) * tileHeight;
+
+    lines.push(`${formatVttTime(start)} --> ${formatVttTime(end)}`);
+    lines.push(`${sprites[Math.floor(i / perSprite)]}#xywh=${x},${y},${TILE_WIDTH},${tileHeight}`);
+    lines.push('');
+  }
+
+  fs.writeFileSync(path.join(outputDir, 'thumbnails.vtt'), lines.join('\n'));
+  return true;
+}
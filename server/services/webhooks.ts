@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import { nanoid } from 'nanoid';
+import db from '../database.js';
+
+// Lifecycle events a webhook can subscribe to ('ping' is only sent by the dashboard test button)
+export type WebhookEvent =
+  | 'video.uploaded'
+  | 'video.linked'
+  | 'video.deleted'
+  | 'subtitle.added'
+  | 'subtitle.deleted'
+  | 'encoding.completed'
+  | 'encoding.failed'
+  | 'link.broken'
+  | 'link.recovered'
+  | 'ping';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'video.uploaded',
+  'video.linked',
+  'video.deleted',
+  'subtitle.added',
+  'subtitle.deleted',
+  'encoding.completed',
+  'encoding.failed',
+  'link.broken',
+  'link.recovered'
+];
+
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  created_at?: string;
+}
+
+interface WebhookRow {
+  id: string;
+  url: string;
+  secret: string;
+  events: string;
+  enabled: number;
+  created_at: string;
+}
+
+interface DeliveryRow {
+  id: string;
+  webhook_id: string;
+  event: string;
+  payload: string;
+  attempts: number;
+}
+
+// Delay before each retry (seconds), a delivery is given up after the last one fails
+const RETRY_DELAYS = [30, 120, 600, 3600, 6 * 3600];
+const MAX_ATTEMPTS = RETRY_DELAYS.length + 1;
+const REQUEST_TIMEOUT = 10000;
+const RETRY_POLL_INTERVAL = 30000;
+// Finished deliveries are kept in the log for this long
+const DELIVERY_RETENTION = '-30 days';
+
+// Deliveries currently being sent, so the retry poller doesn't pick them up twice
+const inFlight = new Set<string>();
+
+function parseWebhook(row: WebhookRow): Webhook {
+  return {
+    ...row,
+    events: JSON.parse(row.events || '[]'),
+    enabled: !!row.enabled
+  };
+}
+
+export function listWebhooks(): Webhook[] {
+  const rows = db.prepare('SELECT * FROM webhooks ORDER BY created_at ASC').all() as WebhookRow[];
+  return rows.map(parseWebhook);
+}
+
+export function getWebhook(id: string): Webhook | null {
+  const row = db.prepare('SELECT * FROM webhooks WHERE id = ?').get(id) as WebhookRow | undefined;
+  return row ? parseWebhook(row) : null;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+// Validate webhook input coming from the dashboard, returns an error message or null
+export function validateWebhookInput(input: { url?: string; events?: unknown }): string | null {
+  try {
+    const url = new URL(input.url || '');
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'Webhook URL must use http or https';
+    }
+  } catch {
+    return 'A valid webhook URL is required';
+  }
+
+  if (input.events !== undefined) {
+    if (!Array.isArray(input.events) || input.events.some(e => !WEBHOOK_EVENTS.includes(e))) {
+      return `Invalid events, expected any of: ${WEBHOOK_EVENTS.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+// HMAC-SHA256 over "<timestamp>.<body>", sent as "sha256=<hex>" in X-AnisuPlayer-Signature
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+async function sendDelivery(deliveryId: string): Promise<void> {
+  if (inFlight.has(deliveryId)) return;
+
+  const delivery = db.prepare(`
+    SELECT id, webhook_id, event, payload, attempts FROM webhook_deliveries WHERE id = ? AND status = 'pending'
+  `).get(deliveryId) as DeliveryRow | undefined;
+  if (!delivery) return;
+
+  const webhook = getWebhook(delivery.webhook_id);
+  if (!webhook) {
+    db.prepare(`UPDATE webhook_deliveries SET status = 'failed', error = 'Webhook deleted' WHERE id = ?`).run(deliveryId);
+    return;
+  }
+
+  inFlight.add(deliveryId);
+  const attempt = delivery.attempts + 1;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'AnisuPlayer-Webhook/1.0',
+        'X-AnisuPlayer-Event': delivery.event,
+        'X-AnisuPlayer-Delivery': delivery.id,
+        'X-AnisuPlayer-Timestamp': String(timestamp),
+        'X-AnisuPlayer-Signature': `sha256=${signPayload(webhook.secret, timestamp, delivery.payload)}`
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+    });
+
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `HTTP ${response.status} ${response.statusText}`.trim();
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Unknown error';
+  } finally {
+    inFlight.delete(deliveryId);
+  }
+
+  if (!error) {
+    db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = 'success', attempts = ?, response_status = ?, error = NULL, next_attempt_at = NULL, delivered_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(attempt, responseStatus, deliveryId);
+    return;
+  }
+
+  if (attempt >= MAX_ATTEMPTS) {
+    db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = 'failed', attempts = ?, response_status = ?, error = ?, next_attempt_at = NULL
+      WHERE id = ?
+    `).run(attempt, responseStatus, error, deliveryId);
+    console.warn(`⚠️  Webhook delivery ${deliveryId} (${delivery.event}) to ${webhook.url} failed after ${attempt} attempts: ${error}`);
+    return;
+  }
+
+  const delay = RETRY_DELAYS[attempt - 1];
+  db.prepare(`
+    UPDATE webhook_deliveries
+    SET attempts = ?, response_status = ?, error = ?, next_attempt_at = datetime('now', ?)
+    WHERE id = ?
+  `).run(attempt, responseStatus, error, `+${delay} seconds`, deliveryId);
+}
+
+// Queue a delivery for one webhook and send it right away
+function enqueueDelivery(webhook: Webhook, event: WebhookEvent, data: Record<string, unknown>): string {
+  const id = nanoid(16);
+  const payload = JSON.stringify({
+    id,
+    event,
+    created_at: new Date().toISOString(),
+    data
+  });
+
+  db.prepare(`
+    INSERT INTO webhook_deliveries (id, webhook_id, event, payload, next_attempt_at)
+    VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+  `).run(id, webhook.id, event, payload);
+
+  sendDelivery(id).catch(err => console.error('Error sending webhook delivery:', err));
+  return id;
+}
+
+// Notify every enabled webhook subscribed to the event (an empty event list means all events)
+export function dispatchWebhookEvent(event: WebhookEvent, data: Record<string, unknown>): void {
+  try {
+    for (const webhook of listWebhooks()) {
+      if (!webhook.enabled) continue;
+      if (webhook.events.length > 0 && !webhook.events.includes(event)) continue;
+      enqueueDelivery(webhook, event, data);
+    }
+  } catch (error) {
+    // Webhooks must never break the request or job that triggered them
+    console.error(`Error dispatching webhook event ${event}:`, error);
+  }
+}
+
+export function sendTestDelivery(webhook: Webhook): string {
+  return enqueueDelivery(webhook, 'ping', { webhook_id: webhook.id, message: 'Test delivery from AnisuPlayer' });
+}
+
+// Reset a finished delivery and send it again (same payload, fresh attempt count)
+export function redeliver(deliveryId: string): boolean {
+  const result = db.prepare(`
+    UPDATE webhook_deliveries
+    SET status = 'pending', attempts = 0, response_status = NULL, error = NULL, next_attempt_at = CURRENT_TIMESTAMP, delivered_at = NULL
+    WHERE id = ? AND status != 'pending'
+  `).run(deliveryId);
+
+  if (result.changes === 0) return false;
+
+  sendDelivery(deliveryId).catch(err => console.error('Error sending webhook delivery:', err));
+  return true;
+}
+
+// Send pending deliveries whose backoff has elapsed (also picks up retries left over from before a restart)
+function processDueDeliveries(): void {
+  db.prepare(`
+    DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < datetime('now', ?)
+  `).run(DELIVERY_RETENTION);
+
+  const due = db.prepare(`
+    SELECT id FROM webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP
+    ORDER BY next_attempt_at ASC
+    LIMIT 20
+  `).all() as { id: string }[];
+
+  for (const { id } of due) {
+    sendDelivery(id).catch(err => console.error('Error sending webhook delivery:', err));
+  }
+}
+
+export function startWebhookWorker(): void {
+  processDueDeliveries();
+  setInterval(processDueDeliveries, RETRY_POLL_INTERVAL).unref();
+}
@@ -1,6 +1,7 @@
 import { Routes, Route } from 'react-router-dom'
 import VideoPlayerPage from './pages/VideoPlayerPage'
 import DashboardLayout from './pages/dashboard/DashboardLayout'
+import EncodingEventsProvider from './pages/dashboard/EncodingEventsProvider'
 import LoginPage from './pages/LoginPage'
 import DashboardVideos from './pages/dashboard/DashboardVideos'
 import DashboardUpload from './pages/dashboard/DashboardUpload'
@@ -22,7 +23,9 @@ function App() {
       {/* Protected Dashboard routes */}
       <Route path="/dashboard" element={
         <ProtectedRoute>
-          <DashboardLayout />
+          <EncodingEventsProvider>
+            <DashboardLayout />
+          </EncodingEventsProvider>
         </ProtectedRoute>
       }>
         <Route index element={<DashboardVideos />} />
@@ -1,19 +1,21 @@
 import { useState } from 'react';
-import type { VideoSource, Subtitle, PlayerSettings } from '../../types';
+import type { VideoSource, Subtitle, PlayerSettings, AudioTrackOption } from '../../types';
 
 interface SettingsPanelProps {
   settings: PlayerSettings;
   sources: VideoSource[];
   subtitles: Subtitle[];
+  audioTracks: AudioTrackOption[];
   onSpeedChange: (speed: number) => void;
   onQualityChange: (quality: string) => void;
   onSubtitleChange: (subtitleId: number | null) => void;
+  onAudioTrackChange: (audioTrackId: number) => void;
   onShowShortcuts: () => void;
   onShowVideoInfo: () => void;
   onClose: () => void;
 }
 
-type SettingsView = 'main' | 'speed' | 'quality' | 'subtitles';
+type SettingsView = 'main' | 'speed' | 'quality' | 'audio' | 'subtitles';
 
 const SPEED_OPTIONS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
 
@@ -21,9 +23,11 @@ export default function SettingsPanel({
   settings,
   sources,
   subtitles,
+  audioTracks,
   onSpeedChange,
   onQualityChange,
   onSubtitleChange,
+  onAudioTrackChange,
   onShowShortcuts,
   onShowVideoInfo,
   onClose
@@ -48,6 +52,7 @@ export default function SettingsPanel({
       main: 'Settings',
       speed: 'Playback Speed',
       quality: 'Quality',
+      audio: 'Audio',
       subtitles: 'Subtitles'
     };
 
@@ -117,6 +122,24 @@ export default function SettingsPanel({
         </span>
       </div>
 
+      {/* Audio */}
+      {audioTracks.length > 1 && (
+        <div className="settings-item" onClick={() => setCurrentView('audio')}>
+          <div className="settings-item-left">
+            <svg className="settings-item-icon" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M12 3v10.55c-.59-.34-1.27-.55-2-.55-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4V7h4V3h-6z" />
+            </svg>
+            <span className="settings-item-label">Audio</span>
+          </div>
+          <span className="settings-item-value">
+            {audioTracks.find(t => t.id === settings.audioTrackId)?.label || 'Default'}
+            <svg viewBox="0 0 24 24" fill="currentColor">
+              <path d="M10 6L8.59 7.41 13.17 12l-4.58 4.59L10 18l6-6-6-6z" />
+            </svg>
+          </span>
+        </div>
+      )}
+
       {/* Subtitles */}
       {subtitles.length > 0 && (
         <div className="settings-item" onClick={() => setCurrentView('subtitles')}>
@@ -179,9 +202,10 @@ export default function SettingsPanel({
   );
 
   const renderQualityOptions = () => {
-    // Check if auto quality is available (HLS master playlist)
-    const hasAuto = sources.some(s => s.resolution === 'auto');
-    const qualitySources = sources.filter(s => s.resolution !== 'auto');
+    // Check if auto quality is available (HLS master playlist or DASH manifest)
+    const isAdaptive = (s: VideoSource) => s.resolution === 'auto' || s.resolution === 'dash';
+    const hasAuto = sources.some(isAdaptive);
+    const qualitySources = sources.filter(s => !isAdaptive(s));
     
     return (
       <div className="settings-options">
@@ -230,6 +254,35 @@ export default function SettingsPanel({
     );
   };
 
+  const renderAudioOptions = () => (
+    <div className="settings-options">
+      {audioTracks.map((track) => (
+        <div
+          key={track.id}
+          className={`settings-option ${settings.audioTrackId === track.id ? 'active' : ''}`}
+          onClick={() => {
+            onAudioTrackChange(track.id);
+            setCurrentView('main');
+          }}
+        >
+          <span className="settings-option-label">
+            {track.label}
+            {track.language && track.language !== track.label && (
+              <span style={{ opacity: 0.6, marginLeft: 8, fontSize: '0.85em' }}>
+                ({track.language})
+              </span>
+            )}
+          </span>
+          {settings.audioTrackId === track.id && (
+            <svg className="settings-option-check" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41L9 16.17z" />
+            </svg>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+
   const renderSubtitleOptions = () => (
     <div className="settings-options">
       <div
@@ -272,6 +325,7 @@ export default function SettingsPanel({
       {currentView === 'main' && renderMainMenu()}
       {currentView === 'speed' && renderSpeedOptions()}
       {currentView === 'quality' && renderQualityOptions()}
+      {currentView === 'audio' && renderAudioOptions()}
       {currentView === 'subtitles' && renderSubtitleOptions()}
     </div>
   );
@@ -1,6 +1,7 @@
-import { useRef, useState, useEffect, useCallback } from 'react';
+import { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import Hls from 'hls.js';
-import type { Video, VideoSource, PlayerSettings, Subtitle } from '../../types';
+import { MediaPlayer, type MediaPlayerClass } from 'dashjs';
+import type { Video, VideoSource, PlayerSettings, Subtitle, AudioTrackOption } from '../../types';
 import { API_URL } from '../../config';
 import ContextMenu from './ContextMenu';
 import SettingsPanel from './SettingsPanel';
@@ -37,14 +38,119 @@ const formatTime = (seconds: number): string => {
 };
 
 const sortResolutions = (sources: VideoSource[]): VideoSource[] => {
-  const order = ['auto', '2160p', '1440p', '1080p', '720p', '480p', '360p', '240p', '144p'];
-  return [...sources].sort((a, b) => {
+  const order = ['auto', 'dash', '2160p', '1440p', '1080p', '720p', '480p', '360p', '240p', '144p'];
+  // HEVC/AV1 renditions are only played through the master playlist,
+  // keep one entry per resolution (the H.264 one) for the quality menu
+  const isH264 = (s: VideoSource) => !s.codec || s.codec === 'h264';
+  const unique = sources.filter(s => isH264(s) || !sources.some(o => isH264(o) && o.resolution === s.resolution));
+  return unique.sort((a, b) => {
     const indexA = order.indexOf(a.resolution);
     const indexB = order.indexOf(b.resolution);
     return (indexA === -1 ? 999 : indexA) - (indexB === -1 ? 999 : indexB);
   });
 };
 
+// Sources that switch quality themselves (HLS master playlist / DASH manifest)
+const isAdaptiveSource = (source: VideoSource) => source.resolution === 'auto' || source.resolution === 'dash';
+
+// URLs of a source (its own url and its mirrors) in the order the player tries them: by priority, with a random pick
+// weighted by weight among equal priorities so viewers are spread over the mirrors. Links the last check found
+// unreachable go last. Without shuffle the heaviest comes first
+const orderMirrorUrls = (source: VideoSource, shuffle: boolean): string[] => {
+  const candidates = [
+    { url: source.url, priority: source.priority ?? 0, weight: source.weight ?? 1, broken: source.link_status === 'broken' },
+    ...(source.mirrors || []).map(mirror => ({
+      url: mirror.url,
+      priority: mirror.priority,
+      weight: mirror.weight,
+      broken: mirror.link_status === 'broken'
+    }))
+  ].sort((a, b) => Number(a.broken) - Number(b.broken) || a.priority - b.priority);
+
+  const groups = new Map<string, typeof candidates>();
+  for (const candidate of candidates) {
+    const key = `${candidate.broken}:${candidate.priority}`;
+    groups.set(key, [...(groups.get(key) || []), candidate]);
+  }
+
+  const ordered: string[] = [];
+  for (const group of groups.values()) {
+    while (group.length > 0) {
+      let pick = group.reduce((best, candidate, i) => candidate.weight > group[best].weight ? i : best, 0);
+      if (shuffle) {
+        let roll = Math.random() * group.reduce((total, candidate) => total + candidate.weight, 0);
+        pick = Math.max(0, group.findIndex(candidate => (roll -= candidate.weight) < 0));
+      }
+      ordered.push(group.splice(pick, 1)[0].url);
+    }
+  }
+  return ordered;
+};
+
+// Let the server count failovers per source and mirror, playback doesn't wait for it
+const reportFailover = (videoId: string, sourceId: number, url: string, reason: string) => {
+  fetch(`${API_URL}/api/cdn/${videoId}/failover`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ sourceId, url, reason }),
+    keepalive: true
+  }).catch(() => {});
+};
+
+// Pick the most efficient codec this video offers that the browser can decode
+const getPreferredVideoCodec = (sources: VideoSource[]): string | undefined => {
+  if (typeof MediaSource === 'undefined') return undefined;
+
+  const codecs = new Set(sources.map(s => s.codec));
+  if (codecs.has('av1') && MediaSource.isTypeSupported('video/mp4; codecs="av01.0.08M.08"')) {
+    return 'av01';
+  }
+  if (codecs.has('hevc') && MediaSource.isTypeSupported('video/mp4; codecs="hvc1.1.6.L120.B0"')) {
+    return 'hvc1';
+  }
+  return undefined;
+};
+
+// Trickplay thumbnail: a region of a sprite sheet shown for [start, end)
+interface ThumbnailCue {
+  start: number;
+  end: number;
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const parseVttTime = (value: string): number => {
+  const parts = value.split(':').map(parseFloat);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+// Parse a WebVTT thumbnail index ("sprite.jpg#xywh=x,y,w,h" cues), sprite URLs are relative to the track
+const parseThumbnailTrack = (content: string, trackUrl: string): ThumbnailCue[] => {
+  const cues: ThumbnailCue[] = [];
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const timing = lines[i].match(/^([\d:.]+)\s+-->\s+([\d:.]+)/);
+    const target = lines[i + 1]?.trim().match(/^(.+)#xywh=(\d+),(\d+),(\d+),(\d+)$/);
+    if (!timing || !target) continue;
+
+    cues.push({
+      start: parseVttTime(timing[1]),
+      end: parseVttTime(timing[2]),
+      url: new URL(target[1], trackUrl).href,
+      x: parseInt(target[2]),
+      y: parseInt(target[3]),
+      width: parseInt(target[4]),
+      height: parseInt(target[5])
+    });
+  }
+
+  return cues;
+};
+
 // Check if device is touch-enabled
 const isTouchDevice = () => {
   return 'ontouchstart' in window || navigator.maxTouchPoints > 0;
@@ -57,6 +163,7 @@ export default function VideoPlayer({ video }: VideoPlayerProps) {
   const previewRef = useRef<HTMLDivElement>(null);
   const hideControlsTimer = useRef<number | null>(null);
   const hlsRef = useRef<Hls | null>(null);
+  const dashRef = useRef<MediaPlayerClass | null>(null);
   const jassubRef = useRef<any>(null);
   const clickTimeoutRef = useRef<number | null>(null);
   const holdSpeedTimeoutRef = useRef<number | null>(null);
@@ -81,7 +188,9 @@ export default function VideoPlayer({ video }: VideoPlayerProps) {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [previewTime, setPreviewTime] = useState<number | null>(null);
   const [previewPosition, setPreviewPosition] = useState(0);
+  const [thumbnailCues, setThumbnailCues] = useState<ThumbnailCue[]>([]);
   const [currentQualityLabel, setCurrentQualityLabel] = useState('Auto');
+  const [audioTracks, setAudioTracks] = useState<AudioTrackOption[]>([]);
   
   // Speed boost state (hold for 2x)
   const [isSpeedBoosted, setIsSpeedBoosted] = useState(false);
@@ -106,18 +215,46 @@ export default function VideoPlayer({ video }: VideoPlayerProps) {
     playbackSpeed: 1,
     quality: 'auto',
     subtitleId: null,
+    audioTrackId: null,
     volume: 1,
     muted: false
   });
+
+  // Quality picked in the menu, read by the hls.js / dash.js callbacks without reloading the source
+  const qualityRef = useRef(settings.quality);
+  useEffect(() => {
+    qualityRef.current = settings.quality;
+  }, [settings.quality]);
   
-  const sortedSources = sortResolutions(video.sources);
+  const sortedSources = useMemo(() => sortResolutions(video.sources), [video.sources]);
+  const preferredVideoCodec = getPreferredVideoCodec(video.sources);
   const [currentSource, setCurrentSource] = useState<VideoSource | null>(
-    sortedSources.find(s => s.resolution === 'auto') || sortedSources[0] || null
+    sortedSources.find(isAdaptiveSource) || sortedSources[0] || null
   );
 
+  // Mirror order is picked once per page view, sources of a video loaded later fall back to the heaviest mirror first
+  const [mirrorOrder] = useState<Record<number, string[]>>(() =>
+    Object.fromEntries(video.sources.map(source => [source.id, orderMirrorUrls(source, true)]))
+  );
+  // Mirror of the current source being played, back to the first when the source changes
+  const [mirror, setMirror] = useState<{ sourceId: number; index: number } | null>(null);
+  // Playback position to restore once the next mirror has loaded
+  const failoverResumeRef = useRef<{ time: number; playing: boolean } | null>(null);
+  const videoId = video.id;
+
+  const mirrorUrls = useMemo(
+    () => currentSource ? mirrorOrder[currentSource.id] || orderMirrorUrls(currentSource, false) : [],
+    [currentSource, mirrorOrder]
+  );
+  const mirrorIndex = mirror && mirror.sourceId === currentSource?.id ? mirror.index : 0;
+  const mirrorUrl = mirrorUrls[mirrorIndex];
+
   // Check if source is HLS
   const isHLS = (url: string) => url.endsWith('.m3u8');
 
+  // Check if source is DASH
+  const isDASH = (url: string) => url.endsWith('.mpd');
+
   // Build video URL
   const getVideoUrl = useCallback((source: VideoSource): string => {
     if (source.is_local) {
@@ -136,18 +273,55 @@ export default function VideoPlayer({ video }: VideoPlayerProps) {
     };
   }, []);
 
-  // Initialize HLS or native playback
+  // Initialize HLS, DASH or native playback
   useEffect(() => {
-    if (!videoRef.current || !currentSource) return;
+    if (!videoRef.current || !currentSource || !mirrorUrl) return;
 
-    const videoUrl = getVideoUrl(currentSource);
+    const videoUrl = mirrorUrl === currentSource.url ? getVideoUrl(currentSource) : mirrorUrl;
     const video = videoRef.current;
 
+    // Move on to the next mirror of the source, continuing from where playback stopped
+    const failover = (reason: string) => {
+      if (mirrorIndex + 1 >= mirrorUrls.length) {
+        if (mirrorUrls.length > 1) {
+          console.error(`All ${mirrorUrls.length} mirrors of the ${currentSource.resolution} source failed`);
+        }
+        return;
+      }
+
+      reportFailover(videoId, currentSource.id, mirrorUrl, reason);
+      console.warn(`Playback of ${videoUrl} failed (${reason}), switching to the next mirror`);
+      // A mirror failing before it loaded keeps the position of the first one
+      if (!failoverResumeRef.current) {
+        failoverResumeRef.current = { time: video.currentTime, playing: !video.paused };
+      }
+      setMirror({ sourceId: currentSource.id, index: mirrorIndex + 1 });
+    };
+
+    const resume = failoverResumeRef.current;
+    const restorePosition = () => {
+      failoverResumeRef.current = null;
+      if (!resume) return;
+      video.currentTime = resume.time;
+      if (resume.playing) {
+        video.play().catch(() => {});
+      }
+    };
+    if (resume) {
+      video.addEventListener('loadedmetadata', restorePosition, { once: true });
+    }
+
     // Destroy previous HLS instance
     if (hlsRef.current) {
       hlsRef.current.destroy();
       hlsRef.current = null;
     }
+
+    // Destroy previous DASH instance
+    if (dashRef.current) {
+      dashRef.current.reset();
+      dashRef.current = null;
+    }
     
     // Destroy JASSUB when source changes
     if (jassubRef.current) {
@@ -156,19 +330,23 @@ export default function VideoPlayer({ video }: VideoPlayerProps) {
       setIsUsingASSRenderer(false);
     }
 
+    setAudioTracks([]);
+    setSettings(prev => ({ ...prev, audioTrackId: null }));
+
     if (isHLS(videoUrl)) {
       if (Hls.isSupported()) {
         const hls = new Hls({
           enableWorker: true,
           lowLatencyMode: false,
-          startLevel: settings.quality === 'auto' ? -1 : getQualityLevel(settings.quality),
+          startLevel: qualityRef.current === 'auto' ? -1 : getQualityLevel(qualityRef.current, sortedSources),
+          videoPreference: preferredVideoCodec ? { videoCodec: preferredVideoCodec } : undefined,
         });
 
         hls.loadSource(videoUrl);
         hls.attachMedia(video);
 
         hls.on(Hls.Events.MANIFEST_PARSED, () => {
-          if (settings.quality === 'auto') {
+          if (qualityRef.current === 'auto') {
             hls.currentLevel = -1; // Auto quality
           }
         });
@@ -177,13 +355,30 @@ export default function VideoPlayer({ video }: VideoPlayerProps) {
           const level = hls.levels[data.level];
           if (level) {
             const height = level.height;
-            setCurrentQualityLabel(settings.quality === 'auto' ? `Auto (${height}p)` : `${height}p`);
+            setCurrentQualityLabel(qualityRef.current === 'auto' ? `Auto (${height}p)` : `${height}p`);
           }
         });
 
+        // Alternate audio renditions (EXT-X-MEDIA TYPE=AUDIO)
+        hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, (_event, data) => {
+          setAudioTracks(data.audioTracks.map(track => ({
+            id: track.id,
+            label: track.name || track.lang || `Track ${track.id + 1}`,
+            language: track.lang
+          })));
+          setSettings(prev => ({ ...prev, audioTrackId: hls.audioTrack }));
+        });
+
+        hls.on(Hls.Events.AUDIO_TRACK_SWITCHED, (_event, data) => {
+          setSettings(prev => ({ ...prev, audioTrackId: data.id }));
+        });
+
         hls.on(Hls.Events.ERROR, (_event, data) => {
           if (data.fatal) {
             console.error('HLS Fatal Error:', data);
+            if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+              failover(data.details);
+            }
           }
         });
 
@@ -192,39 +387,101 @@ export default function VideoPlayer({ video }: VideoPlayerProps) {
         // Safari native HLS support
         video.src = videoUrl;
       }
+    } else if (isDASH(videoUrl)) {
+      const dash = MediaPlayer().create();
+
+      // Start with the most efficient codec set the browser can decode (AV1 / HEVC / H.264)
+      dash.updateSettings({
+        streaming: {
+          selectionModeForInitialTrack: 'highestEfficiency',
+          abr: { autoSwitchBitrate: { video: true } }
+        }
+      });
+
+      dash.on(MediaPlayer.events.QUALITY_CHANGE_RENDERED, (e) => {
+        if (e.mediaType !== 'video' || !e.newRepresentation) return;
+        const height = e.newRepresentation.height;
+        setCurrentQualityLabel(qualityRef.current === 'auto' ? `Auto (${height}p)` : `${height}p`);
+      });
+
+      dash.on(MediaPlayer.events.ERROR, (e) => {
+        console.error('DASH Error:', e);
+      });
+
+      dash.initialize(video, videoUrl, false);
+      dashRef.current = dash;
     } else {
       // Regular video file
       video.src = videoUrl;
     }
 
+    // MP4 files and Safari's native HLS report failures on the element
+    const handleMediaError = () => {
+      if (hlsRef.current || dashRef.current) return;
+      failover(video.error?.message || `Media error ${video.error?.code ?? ''}`.trim());
+    };
+    video.addEventListener('error', handleMediaError);
+
     return () => {
+      video.removeEventListener('error', handleMediaError);
+      video.removeEventListener('loadedmetadata', restorePosition);
       if (hlsRef.current) {
         hlsRef.current.destroy();
         hlsRef.current = null;
       }
+      if (dashRef.current) {
+        dashRef.current.reset();
+        dashRef.current = null;
+      }
     };
-  }, [currentSource, getVideoUrl]);
+  }, [currentSource, mirrorUrl, mirrorUrls, mirrorIndex, videoId, sortedSources, getVideoUrl, preferredVideoCodec]);
 
   // Get quality level for HLS
-  const getQualityLevel = (quality: string): number => {
+  const getQualityLevel = (quality: string, sources: VideoSource[]): number => {
     if (!hlsRef.current || quality === 'auto') return -1;
     
     const levels = hlsRef.current.levels;
-    const height = parseInt(quality.replace('p', ''));
+    // Letterboxed sources are shorter than their label (1920x800 is listed as 1080p)
+    const height = sources.find(s => s.resolution === quality && s.height)?.height || parseInt(quality.replace('p', ''));
+    // Stay within the codec set hls.js selected (H.264 / HEVC / AV1)
+    const activeLevel = levels[hlsRef.current.currentLevel] || levels[hlsRef.current.loadLevel];
+    let fallback = -1;
     
     for (let i = 0; i < levels.length; i++) {
-      if (levels[i].height === height) return i;
+      if (levels[i].height !== height) continue;
+      if (!activeLevel || levels[i].codecSet === activeLevel.codecSet) return i;
+      if (fallback === -1) fallback = i;
     }
-    return -1;
+    return fallback;
   };
 
+  // Load trickplay thumbnails for the progress bar preview
+  useEffect(() => {
+    setThumbnailCues([]);
+    if (!video.thumbnail_track) return;
+
+    const trackUrl = new URL(`${API_URL}${video.thumbnail_track}`, window.location.href).href;
+    let cancelled = false;
+
+    fetch(trackUrl)
+      .then(response => response.ok ? response.text() : '')
+      .then(content => {
+        if (!cancelled && content) setThumbnailCues(parseThumbnailTrack(content, trackUrl));
+      })
+      .catch(error => console.error('Failed to load thumbnail track:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [video.thumbnail_track]);
+
   // Initialize with auto quality
   useEffect(() => {
     if (sortedSources.length > 0) {
-      const autoSource = sortedSources.find(s => s.resolution === 'auto');
+      const autoSource = sortedSources.find(isAdaptiveSource);
       const bestSource = autoSource || sortedSources[0];
       setCurrentSource(bestSource);
-      setSettings(prev => ({ ...prev, quality: bestSource.resolution }));
+      setSettings(prev => ({ ...prev, quality: autoSource ? 'auto' : bestSource.resolution }));
     }
   }, [video.sources]);
 
@@ -555,15 +812,32 @@ export default function VideoPlayer({ video }: VideoPlayerProps) {
         hlsRef.current.currentLevel = -1;
         setCurrentQualityLabel('Auto');
       } else {
-        const level = getQualityLevel(resolution);
+        const level = getQualityLevel(resolution, sortedSources);
         if (level !== -1) {
           hlsRef.current.currentLevel = level;
           setCurrentQualityLabel(resolution);
         }
       }
+    } else if (dashRef.current) {
+      // DASH quality change
+      const dash = dashRef.current;
+      if (resolution === 'auto') {
+        dash.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: true } } } });
+        setCurrentQualityLabel('Auto');
+      } else {
+        const height = parseInt(resolution.replace('p', ''));
+        const index = dash.getRepresentationsByType('video').findIndex(r => r.height === height);
+        if (index !== -1) {
+          dash.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: false } } } });
+          dash.setRepresentationForTypeByIndex('video', index, true);
+          setCurrentQualityLabel(resolution);
+        }
+      }
     } else {
       // Non-HLS: change source
-      const source = sortedSources.find(s => s.resolution === resolution);
+      const source = resolution === 'auto'
+        ? sortedSources.find(isAdaptiveSource)
+        : sortedSources.find(s => s.resolution === resolution);
       if (source) {
         setCurrentSource(source);
         setCurrentQualityLabel(resolution);
@@ -629,6 +903,14 @@ export default function VideoPlayer({ video }: VideoPlayerProps) {
     setIsUsingASSRenderer(false);
   }, [video.subtitles]);
 
+  // Audio track change (HLS alternate audio renditions)
+  const changeAudioTrack = useCallback((audioTrackId: number) => {
+    if (!hlsRef.current) return;
+
+    hlsRef.current.audioTrack = audioTrackId;
+    setSettings(prev => ({ ...prev, audioTrackId }));
+  }, []);
+
   // Subtitle change
   const changeSubtitle = useCallback((subtitleId: number | null) => {
     setSettings(prev => ({ ...prev, subtitleId }));
@@ -958,10 +1240,17 @@ export default function VideoPlayer({ video }: VideoPlayerProps) {
     const pos = (e.clientX - rect.left) / rect.width;
     const time = pos * duration;
     
+    // Keep the preview (and its thumbnail) inside the progress bar
+    const halfWidth = (previewRef.current?.offsetWidth || 0) / 2;
+    
     setPreviewTime(time);
-    setPreviewPosition(e.clientX - rect.left);
+    setPreviewPosition(Math.min(Math.max(e.clientX - rect.left, halfWidth), rect.width - halfWidth));
   };
 
+  const previewThumbnail = previewTime !== null
+    ? thumbnailCues.find(cue => previewTime >= cue.start && previewTime < cue.end) || null
+    : null;
+
   const handleProgressLeave = () => {
     setPreviewTime(null);
   };
@@ -1150,6 +1439,17 @@ export default function VideoPlayer({ video }: VideoPlayerProps) {
                 className="progress-preview"
                 style={{ left: `${previewPosition}px` }}
               >
+                {previewThumbnail && (
+                  <div
+                    className="preview-thumbnail"
+                    style={{
+                      width: previewThumbnail.width,
+                      height: previewThumbnail.height,
+                      backgroundImage: `url(${previewThumbnail.url})`,
+                      backgroundPosition: `-${previewThumbnail.x}px -${previewThumbnail.y}px`
+                    }}
+                  />
+                )}
                 <span className="preview-time">{formatTime(previewTime)}</span>
               </div>
             )}
@@ -1264,9 +1564,11 @@ export default function VideoPlayer({ video }: VideoPlayerProps) {
           settings={settings}
           sources={sortedSources}
           subtitles={video.subtitles}
+          audioTracks={audioTracks}
           onSpeedChange={setPlaybackSpeed}
           onQualityChange={changeQuality}
           onSubtitleChange={changeSubtitle}
+          onAudioTrackChange={changeAudioTrack}
           onShowShortcuts={() => {
             setShowSettings(false);
             setShowShortcuts(true);
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import type { Video, Subtitle } from '../../types';
+import type { Video, Subtitle, EncodingProfile, VideoOriginal } from '../../types';
 import { API_URL } from '../../config';
 
 export default function DashboardEditVideo() {
@@ -25,19 +25,65 @@ export default function DashboardEditVideo() {
   const [newSubtitleFontFile, setNewSubtitleFontFile] = useState<File | null>(null);
   const [uploadingSubtitle, setUploadingSubtitle] = useState(false);
   
+  // Original file state
+  const [original, setOriginal] = useState<VideoOriginal | null>(null);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+
+  // Re-encode state
+  const [profiles, setProfiles] = useState<EncodingProfile[]>([]);
+  const [encodeProfileId, setEncodeProfileId] = useState('');
+  const [encodeResolutions, setEncodeResolutions] = useState<string[]>([]);
+  const [startingEncode, setStartingEncode] = useState(false);
+
+  // Linked source probe / link check state
+  const [probingSources, setProbingSources] = useState(false);
+  const [checkingLinks, setCheckingLinks] = useState(false);
+
+  // Mirror form state
+  const [newMirrorSourceId, setNewMirrorSourceId] = useState('');
+  const [newMirrorUrl, setNewMirrorUrl] = useState('');
+  const [newMirrorPriority, setNewMirrorPriority] = useState('1');
+  const [newMirrorWeight, setNewMirrorWeight] = useState('1');
+  const [addingMirror, setAddingMirror] = useState(false);
+  
   const subtitleInputRef = useRef<HTMLInputElement>(null);
   const subtitleFontInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (id) {
       fetchVideo(id);
+      fetchOriginal(id);
     }
   }, [id]);
 
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const fetchProfiles = async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/profiles`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) return;
+
+      const data = await response.json();
+      const list: EncodingProfile[] = Array.isArray(data.profiles) ? data.profiles : [];
+      setProfiles(list);
+
+      // Preselect the default profile
+      const defaultProfile = list.find(p => p.is_default) || list[0];
+      if (defaultProfile) setEncodeProfileId(defaultProfile.id);
+    } catch (error) {
+      console.error('Error fetching encoding profiles:', error);
+    }
+  };
+
   const fetchVideo = async (videoId: string) => {
     try {
       setLoading(true);
-      const response = await fetch(`${API_URL}/api/videos/${videoId}`, {
+      const response = await fetch(`${API_URL}/api/videos/${videoId}/details`, {
         credentials: 'include'
       });
       
@@ -58,6 +104,22 @@ export default function DashboardEditVideo() {
     }
   };
 
+  const fetchOriginal = async (videoId: string) => {
+    try {
+      const response = await fetch(`${API_URL}/api/videos/${videoId}/original`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setOriginal(data.original || null);
+      setRetentionDays(typeof data.retentionDays === 'number' ? data.retentionDays : null);
+    } catch (err) {
+      console.error('Error fetching original:', err);
+    }
+  };
+
   const handleSave = async () => {
     if (!id) return;
     
@@ -240,6 +302,214 @@ export default function DashboardEditVideo() {
     }
   };
 
+  const handleToggleRetainOriginal = async () => {
+    if (!id || !original) return;
+
+    try {
+      const response = await fetch(`${API_URL}/api/videos/${id}/original`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ retain: !original.retain })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update original');
+      }
+
+      setOriginal(data.original);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update original');
+    }
+  };
+
+  const handlePurgeOriginal = async () => {
+    if (!id) return;
+    if (!confirm('Delete the original file? The encoded renditions are kept, but the video can no longer be re-encoded.')) return;
+
+    try {
+      const response = await fetch(`${API_URL}/api/videos/${id}/original`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete original');
+      }
+
+      setOriginal(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete original');
+    }
+  };
+
+  // Reload the sources, subtitles found in master playlists and the generated thumbnail without resetting the form
+  const refreshSources = async () => {
+    const response = await fetch(`${API_URL}/api/videos/${id}/details`, {
+      credentials: 'include'
+    });
+    if (!response.ok) return;
+
+    const data: Video = await response.json();
+    setVideo(data);
+    setSubtitles(data.subtitles || []);
+    if (!thumbnail) setThumbnail(data.thumbnail || '');
+  };
+
+  const handleProbeSources = async () => {
+    if (!id) return;
+
+    setProbingSources(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/videos/${id}/probe`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to probe sources');
+      }
+
+      await refreshSources();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to probe sources');
+    } finally {
+      setProbingSources(false);
+    }
+  };
+
+  const handleCheckLinks = async () => {
+    if (!id) return;
+
+    setCheckingLinks(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/videos/${id}/check-links`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to check links');
+      }
+
+      await refreshSources();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check links');
+    } finally {
+      setCheckingLinks(false);
+    }
+  };
+
+  const handleAddMirror = async () => {
+    const sourceId = newMirrorSourceId || String(video?.sources.find(source => !source.is_local)?.id ?? '');
+    if (!id || !sourceId || !newMirrorUrl.trim()) {
+      alert('Please choose a source and enter the mirror URL');
+      return;
+    }
+
+    setAddingMirror(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/videos/${id}/sources/${sourceId}/mirrors`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          url: newMirrorUrl.trim(),
+          priority: Number(newMirrorPriority),
+          weight: Number(newMirrorWeight)
+        })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to add mirror');
+      }
+
+      await refreshSources();
+      setNewMirrorUrl('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add mirror');
+    } finally {
+      setAddingMirror(false);
+    }
+  };
+
+  const handleDeleteMirror = async (sourceId: number, mirrorId: number) => {
+    if (!confirm('Are you sure you want to delete this mirror?')) return;
+
+    try {
+      const response = await fetch(`${API_URL}/api/videos/${id}/sources/${sourceId}/mirrors/${mirrorId}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete mirror');
+      }
+
+      await refreshSources();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete mirror');
+    }
+  };
+
+  const toggleEncodeResolution = (name: string) => {
+    setEncodeResolutions(current =>
+      current.includes(name) ? current.filter(r => r !== name) : [...current, name]
+    );
+  };
+
+  const handleStartEncode = async () => {
+    if (!id) return;
+
+    setStartingEncode(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/api/videos/${id}/encode`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          profileId: encodeProfileId || undefined,
+          resolutions: encodeResolutions
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details || data.error || 'Failed to start encoding');
+      }
+
+      navigate('/dashboard/encoding');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start encoding');
+    } finally {
+      setStartingEncode(false);
+    }
+  };
+
+  const encodeProfile = profiles.find(p => p.id === encodeProfileId);
+  const hasExternalSources = !!video?.sources.some(source => !source.is_local);
+
   if (loading) {
     return (
       <div className="loading-spinner" style={{ height: '400px' }}>
@@ -373,6 +643,11 @@ export default function DashboardEditVideo() {
                         {subtitle.is_default && (
                           <span className="subtitle-default-badge">Default</span>
                         )}
+                        {subtitle.link_status === 'broken' && (
+                          <span className="source-warning" title={subtitle.url}>
+                            ⚠ Unreachable ({subtitle.link_error})
+                          </span>
+                        )}
                       </div>
                       <div className="subtitle-actions">
                         {!subtitle.is_default && (
@@ -589,16 +864,271 @@ export default function DashboardEditVideo() {
                 {video.sources.map((source) => (
                   <div key={source.id} className="source-item">
                     <span className="source-resolution">{source.resolution}</span>
-                    <span className="source-type">{source.is_local ? 'Local' : 'External'}</span>
+                    {source.codec && <span className="source-type">{source.codec.toUpperCase()}</span>}
+                    <span className="source-type">{source.is_local ? 'Local' : source.master_id ? 'Variant' : 'External'}</span>
                     {source.file_size && (
                       <span className="source-size">
                         {(source.file_size / (1024 * 1024)).toFixed(1)} MB
                       </span>
                     )}
+                    {!source.is_local && source.width && source.height && (
+                      <span className="source-size">{source.width}x{source.height}</span>
+                    )}
+                    {!source.is_local && source.bandwidth && (
+                      <span className="source-size">{(source.bandwidth / 1000000).toFixed(1)} Mbps</span>
+                    )}
+                    {source.detected_resolution && source.detected_resolution !== source.resolution && (
+                      <span className="source-warning" title="The label doesn't match the frame size reported by ffprobe">
+                        ⚠ Labelled {source.resolution}, looks like {source.detected_resolution}
+                      </span>
+                    )}
+                    {source.probe_error && source.link_status !== 'broken' && (
+                      <span className="source-warning" title={source.probe_error}>
+                        ⚠ Could not probe source
+                      </span>
+                    )}
+                    {source.link_status === 'broken' && (
+                      <span className="source-warning" title={source.url}>
+                        ⚠ Unreachable ({source.link_error})
+                      </span>
+                    )}
+                    {!!source.mirrors?.length && (
+                      <span className="source-size">Priority {source.priority ?? 0} · Weight {source.weight ?? 1}</span>
+                    )}
+                    {!!source.failover_count && (
+                      <span className="source-warning">{source.failover_count} failover(s)</span>
+                    )}
+                    {!!source.mirrors?.length && (
+                      <div className="source-mirrors">
+                        {source.mirrors.map((mirror) => (
+                          <div key={mirror.id} className="source-mirror">
+                            <span className="source-mirror-url" title={mirror.url}>{mirror.url}</span>
+                            <span className="source-size">Priority {mirror.priority} · Weight {mirror.weight}</span>
+                            {mirror.failover_count > 0 && (
+                              <span className="source-warning">{mirror.failover_count} failover(s)</span>
+                            )}
+                            {mirror.link_status === 'broken' && (
+                              <span className="source-warning">⚠ Unreachable</span>
+                            )}
+                            <button
+                              className="subtitle-action-btn delete"
+                              onClick={() => handleDeleteMirror(source.id, mirror.id)}
+                              title="Delete mirror"
+                            >
+                              <svg viewBox="0 0 24 24" fill="currentColor">
+                                <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z" />
+                              </svg>
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
+
+              {/* Add Mirror */}
+              {hasExternalSources && (
+                <div className="add-subtitle-form">
+                  <h4>Add Mirror</h4>
+                  <p className="form-hint">
+                    The player tries the lowest priority first, picking between equal priorities by weight, and switches to the next mirror when one fails
+                  </p>
+
+                  <div className="form-row">
+                    <div className="form-group">
+                      <label>Source *</label>
+                      <select
+                        className="form-select"
+                        value={newMirrorSourceId}
+                        onChange={(e) => setNewMirrorSourceId(e.target.value)}
+                      >
+                        {video.sources.filter(source => !source.is_local).map((source) => (
+                          <option key={source.id} value={source.id}>
+                            {source.resolution}{source.master_id ? ' (variant)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    <div className="form-group">
+                      <label>Priority</label>
+                      <input
+                        type="number"
+                        className="form-input"
+                        min={0}
+                        max={100}
+                        value={newMirrorPriority}
+                        onChange={(e) => setNewMirrorPriority(e.target.value)}
+                      />
+                    </div>
+
+                    <div className="form-group">
+                      <label>Weight</label>
+                      <input
+                        type="number"
+                        className="form-input"
+                        min={1}
+                        max={100}
+                        value={newMirrorWeight}
+                        onChange={(e) => setNewMirrorWeight(e.target.value)}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="form-group">
+                    <label>Mirror URL *</label>
+                    <input
+                      type="text"
+                      className="form-input"
+                      value={newMirrorUrl}
+                      onChange={(e) => setNewMirrorUrl(e.target.value)}
+                      placeholder="https://mirror.example.com/video.mp4"
+                    />
+                  </div>
+
+                  <button
+                    className="btn btn-secondary"
+                    onClick={handleAddMirror}
+                    disabled={addingMirror || !newMirrorUrl.trim()}
+                  >
+                    {addingMirror ? (
+                      <>
+                        <span className="btn-spinner"></span>
+                        Adding...
+                      </>
+                    ) : (
+                      'Add Mirror'
+                    )}
+                  </button>
+                </div>
+              )}
+
+              {(hasExternalSources || subtitles.some(subtitle => subtitle.url.startsWith('http'))) && (
+                <div className="profile-form-actions" style={{ justifyContent: 'flex-start', marginTop: 16 }}>
+                  {hasExternalSources && (
+                    <button className="btn btn-secondary" onClick={handleProbeSources} disabled={probingSources}>
+                      {probingSources ? (
+                        <>
+                          <span className="btn-spinner"></span>
+                          Probing...
+                        </>
+                      ) : (
+                        'Probe Sources'
+                      )}
+                    </button>
+                  )}
+                  <button className="btn btn-secondary" onClick={handleCheckLinks} disabled={checkingLinks}>
+                    {checkingLinks ? (
+                      <>
+                        <span className="btn-spinner"></span>
+                        Checking...
+                      </>
+                    ) : (
+                      'Check Links'
+                    )}
+                  </button>
+                </div>
+              )}
             </div>
+
+            {/* Original File Section */}
+            {original && (
+              <div className="form-section" style={{ marginTop: 32 }}>
+                <div className="form-section-title">Original File</div>
+
+                <div className="sources-list">
+                  <div className="source-item">
+                    <span className="source-resolution">{original.original_name || original.url.split('/').pop()}</span>
+                    {original.file_size && (
+                      <span className="source-size">
+                        {(original.file_size / (1024 * 1024)).toFixed(1)} MB
+                      </span>
+                    )}
+                  </div>
+                </div>
+
+                <p className="profile-form-hint" style={{ marginBottom: 16 }}>
+                  {original.is_source
+                    ? 'Played directly (the video is not encoded), kept until it is encoded.'
+                    : original.retain
+                      ? 'Retained, the retention policy will not delete it.'
+                      : original.expires_at
+                        ? `Deleted by the retention policy (${retentionDays} days) on ${new Date(original.expires_at).toLocaleDateString()}.`
+                        : 'Kept indefinitely.'}
+                </p>
+
+                <div className="profile-form-actions" style={{ justifyContent: 'flex-start' }}>
+                  <a className="btn btn-secondary" href={`${API_URL}/api/videos/${id}/original/download`}>
+                    Download
+                  </a>
+                  {!original.is_source && (
+                    <>
+                      <button className="btn btn-secondary" onClick={handleToggleRetainOriginal}>
+                        {original.retain ? 'Release' : 'Retain'}
+                      </button>
+                      <button className="btn btn-danger" onClick={handlePurgeOriginal}>
+                        Purge
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Encoding Section */}
+            {original && (
+              <div className="form-section" style={{ marginTop: 32 }}>
+                <div className="form-section-title">Encoding</div>
+
+                <div className="form-group">
+                  <label>Encoding Profile</label>
+                  <select
+                    className="form-select"
+                    value={encodeProfileId}
+                    onChange={(e) => {
+                      setEncodeProfileId(e.target.value);
+                      setEncodeResolutions([]);
+                    }}
+                  >
+                    {profiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name}{profile.is_default ? ' (default)' : ''}{profile.description ? ` - ${profile.description}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {encodeProfile && (
+                  <div className="form-group">
+                    <label>Resolutions</label>
+                    <div className="profile-codecs">
+                      {encodeProfile.rungs.map((rung) => (
+                        <label key={rung.name} className="profile-codec-option">
+                          <input
+                            type="checkbox"
+                            checked={encodeResolutions.includes(rung.name)}
+                            onChange={() => toggleEncodeResolution(rung.name)}
+                          />
+                          {rung.name}
+                        </label>
+                      ))}
+                    </div>
+                    <p className="profile-form-hint">
+                      Encoded from the original file. Leave every resolution unchecked to encode the whole ladder; existing renditions keep playing until their replacement is ready.
+                    </p>
+                  </div>
+                )}
+
+                <button
+                  className="btn btn-secondary"
+                  onClick={handleStartEncode}
+                  disabled={startingEncode}
+                >
+                  {startingEncode ? 'Starting...' : 'Encode'}
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -1,6 +1,7 @@
-import { useState, useEffect } from 'react';
-import type { EncodingJob } from '../../types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { EncodingJob, EncodingEvent, EncodingCancelMode, EncodingFailureClass, EncodingJobLog, QueueSettings } from '../../types';
 import { API_URL } from '../../config';
+import { useEncodingEvents } from './EncodingEventsContext';
 
 const formatTime = (seconds?: number): string => {
   if (!seconds) return '--:--';
@@ -22,19 +23,154 @@ const formatDate = (dateString?: string): string => {
   return new Date(dateString).toLocaleString();
 };
 
+// SQLite timestamps are UTC without a zone
+const formatRetryTime = (dateString: string): string => new Date(dateString.replace(' ', 'T') + 'Z').toLocaleTimeString();
+
+const FAILURE_LABELS: Record<EncodingFailureClass, string> = {
+  corrupt_input: 'Corrupt input',
+  missing_input: 'Source missing',
+  disk_full: 'Disk full',
+  encoder_crash: 'Encoder crash',
+  gpu_failure: 'GPU failure',
+  unknown: 'Unknown error'
+};
+
+// Ordered from least to most destructive, the first one is preselected
+const CANCEL_OPTIONS: { mode: EncodingCancelMode; label: string; description: string }[] = [
+  {
+    mode: 'keep_renditions',
+    label: 'Stop and keep finished renditions',
+    description: 'Renditions that already finished stay playable. The original is kept so the rest can be encoded later.'
+  },
+  {
+    mode: 'keep_original',
+    label: 'Stop and keep the original for later',
+    description: 'Renditions of this job are removed, the video and its original are kept to encode again from the edit page.'
+  },
+  {
+    mode: 'delete',
+    label: 'Delete the video and all its files',
+    description: 'Removes the video, its renditions, subtitles and original. This cannot be undone.'
+  }
+];
+
+const isActive = (job: EncodingJob) => job.status === 'pending' || job.status === 'encoding' || job.status === 'paused' || job.status === 'downloading';
+
+// Imports download right away, they never wait in the queue
+const isQueued = (job: EncodingJob) => (job.status === 'pending' || job.status === 'paused') && job.mode !== 'import';
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const PRIORITY_LABELS: Record<number, string> = {
+  0: 'Low',
+  1: 'Normal',
+  2: 'High'
+};
+
+// Order the queue the way the server runs it: priority first, then queue position
+const compareQueued = (a: EncodingJob, b: EncodingJob) =>
+  (b.priority ?? 1) - (a.priority ?? 1) || (a.queue_position ?? 0) - (b.queue_position ?? 0);
+
 export default function DashboardEncoding() {
   const [jobs, setJobs] = useState<EncodingJob[]>([]);
   const [loading, setLoading] = useState(true);
   const [cancellingJobs, setCancellingJobs] = useState<Set<string>>(new Set());
+  const [pausingJobs, setPausingJobs] = useState<Set<string>>(new Set());
+  const [retryingJobs, setRetryingJobs] = useState<Set<string>>(new Set());
+  const [queueSettings, setQueueSettings] = useState<QueueSettings | null>(null);
+  const [inWindow, setInWindow] = useState(true);
+  const [logJobId, setLogJobId] = useState<string | null>(null);
+  const [jobLog, setJobLog] = useState<EncodingJobLog | null>(null);
+  const [logLoading, setLogLoading] = useState(false);
+  const logEndRef = useRef<HTMLDivElement>(null);
+
+  const logJob = jobs.find(job => job.id === logJobId);
+  const logJobActive = !!logJob && isActive(logJob);
+  const [cancelTarget, setCancelTarget] = useState<EncodingJob | null>(null);
+  const [cancelMode, setCancelMode] = useState<EncodingCancelMode>('keep_renditions');
 
   useEffect(() => {
     fetchJobs();
+    fetchQueueSettings();
     
-    // Poll for updates every 3 seconds
-    const interval = setInterval(fetchJobs, 3000);
+    // Live updates come from the event stream, this only resyncs after missed events
+    const interval = setInterval(() => {
+      fetchJobs();
+      fetchQueueSettings();
+    }, 30000);
     return () => clearInterval(interval);
   }, []);
 
+  // Apply live encoding events to the list
+  const handleEncodingEvent = useCallback((event: EncodingEvent) => {
+    if (event.type === 'progress') {
+      setJobs(prev => prev.map(job => job.id === event.jobId
+        ? {
+            ...job,
+            progress: event.progress ?? job.progress,
+            estimated_time_remaining: event.estimated_time_remaining ?? job.estimated_time_remaining,
+            rendition_progress: event.rendition_progress ?? job.rendition_progress
+          }
+        : job
+      ));
+      return;
+    }
+
+    const updated = event.job;
+    if (!updated) {
+      // Job (or its video) was deleted
+      setJobs(prev => prev.filter(job => job.id !== event.jobId));
+      return;
+    }
+
+    setJobs(prev => prev.some(job => job.id === updated.id)
+      ? prev.map(job => job.id === updated.id ? updated : job)
+      : [updated, ...prev]
+    );
+  }, []);
+
+  useEncodingEvents(handleEncodingEvent);
+
+  const fetchJobLog = useCallback(async (jobId: string) => {
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/jobs/${jobId}/logs`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        console.error('Error fetching encoding job logs:', response.status);
+        return;
+      }
+
+      setJobLog(await response.json());
+    } catch (error) {
+      console.error('Error fetching encoding job logs:', error);
+    } finally {
+      setLogLoading(false);
+    }
+  }, []);
+
+  // Load the log when the drawer opens, and keep following it while the job runs
+  useEffect(() => {
+    if (!logJobId) return;
+
+    fetchJobLog(logJobId);
+    if (!logJobActive) return;
+
+    const interval = setInterval(() => fetchJobLog(logJobId), 5000);
+    return () => clearInterval(interval);
+  }, [logJobId, logJobActive, fetchJobLog]);
+
+  useEffect(() => {
+    logEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [jobLog]);
+
+  const openLogDrawer = (jobId: string) => {
+    setJobLog(null);
+    setLogLoading(true);
+    setLogJobId(jobId);
+  };
+
   const fetchJobs = async () => {
     try {
       const response = await fetch(`${API_URL}/api/encoding/jobs`, {
@@ -57,17 +193,78 @@ export default function DashboardEncoding() {
     }
   };
 
-  const handleCancelJob = async (jobId: string) => {
-    if (!confirm('Are you sure you want to cancel this encoding job? The video and all files will be deleted.')) {
-      return;
+  const fetchQueueSettings = async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/settings`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setQueueSettings(data.settings);
+      setInWindow(!!data.inWindow);
+    } catch (error) {
+      console.error('Error fetching queue settings:', error);
+    }
+  };
+
+  const handleChangePriority = async (jobId: string, priority: number) => {
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/jobs/${jobId}/priority`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ priority })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to change priority');
+      }
+    } catch (error) {
+      console.error('Error changing encoding job priority:', error);
+      alert('Failed to change priority');
+    }
+  };
+
+  const handleMoveJob = async (jobId: string, direction: 'up' | 'down') => {
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/jobs/${jobId}/move`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ direction })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to move job');
+      }
+    } catch (error) {
+      console.error('Error moving encoding job:', error);
+      alert('Failed to move job');
     }
+  };
+
+  const openCancelDialog = (job: EncodingJob) => {
+    setCancelMode('keep_renditions');
+    setCancelTarget(job);
+  };
 
+  const handleCancelJob = async () => {
+    if (!cancelTarget) return;
+
+    const jobId = cancelTarget.id;
+    setCancelTarget(null);
     setCancellingJobs(prev => new Set(prev).add(jobId));
 
     try {
       const response = await fetch(`${API_URL}/api/encoding/jobs/${jobId}/cancel`, {
         method: 'POST',
-        credentials: 'include'
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ mode: cancelMode })
       });
 
       if (!response.ok) {
@@ -90,6 +287,66 @@ export default function DashboardEncoding() {
     }
   };
 
+  const handlePauseJob = async (job: EncodingJob) => {
+    const action = job.status === 'paused' ? 'resume' : 'pause';
+    setPausingJobs(prev => new Set(prev).add(job.id));
+
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/jobs/${job.id}/${action}`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || `Failed to ${action} encoding job`);
+      }
+    } catch (error) {
+      console.error(`Error trying to ${action} encoding job:`, error);
+      alert(`Failed to ${action} encoding job`);
+    } finally {
+      setPausingJobs(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(job.id);
+        return newSet;
+      });
+    }
+  };
+
+  const handleRetryJob = async (jobId: string) => {
+    setRetryingJobs(prev => new Set(prev).add(jobId));
+
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/jobs/${jobId}/retry`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to retry encoding job');
+      }
+    } catch (error) {
+      console.error('Error retrying encoding job:', error);
+      alert('Failed to retry encoding job');
+    } finally {
+      setRetryingJobs(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(jobId);
+        return newSet;
+      });
+    }
+  };
+
+  // Running jobs first, then the queue in the order it will run, then finished jobs (newest first)
+  const queue = jobs.filter(isQueued).sort(compareQueued);
+  const sortedJobs = [
+    ...jobs.filter(job => job.status === 'encoding' || job.status === 'downloading'),
+    ...queue,
+    ...jobs.filter(job => job.status === 'paused' && job.mode === 'import'),
+    ...jobs.filter(job => !isActive(job))
+  ];
+
   if (loading) {
     return (
       <div className="loading-spinner" style={{ height: '400px' }}>
@@ -104,6 +361,12 @@ export default function DashboardEncoding() {
         <h1 className="page-title">Encoding Jobs</h1>
       </div>
 
+      {queueSettings?.window_enabled && !inWindow && queue.length > 0 && (
+        <div className="encoding-window-banner">
+          Outside the encoding window ({queueSettings.window_start} – {queueSettings.window_end}): queued jobs start when it opens, high priority jobs start right away.
+        </div>
+      )}
+
       {jobs.length === 0 ? (
         <div className="empty-state">
           <div className="empty-state-icon">⚡</div>
@@ -112,20 +375,97 @@ export default function DashboardEncoding() {
         </div>
       ) : (
         <div className="encoding-jobs">
-          {jobs.map((job) => (
+          {sortedJobs.map((job) => (
             <div key={job.id} className="encoding-job-card">
               <div className="encoding-job-header">
                 <h3 className="encoding-job-title">{job.video_title}</h3>
                 <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                  {isQueued(job) && (
+                    <>
+                      <button
+                        className="pause-btn"
+                        onClick={() => handleMoveJob(job.id, 'up')}
+                        disabled={queue[queue.indexOf(job) - 1]?.priority !== job.priority}
+                        title="Move up in the queue"
+                      >
+                        ▲
+                      </button>
+                      <button
+                        className="pause-btn"
+                        onClick={() => handleMoveJob(job.id, 'down')}
+                        disabled={queue[queue.indexOf(job) + 1]?.priority !== job.priority}
+                        title="Move down in the queue"
+                      >
+                        ▼
+                      </button>
+                      <select
+                        className="settings-select encoding-priority-select"
+                        value={job.priority ?? 1}
+                        onChange={(e) => handleChangePriority(job.id, parseInt(e.target.value))}
+                        title="Priority"
+                      >
+                        {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </>
+                  )}
                   <span className={`encoding-job-status ${job.status}`}>
                     {job.status}
                   </span>
-                  {(job.status === 'pending' || job.status === 'encoding') && (
+                  <button
+                    className="pause-btn"
+                    onClick={() => openLogDrawer(job.id)}
+                    title="Show ffmpeg log"
+                  >
+                    <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
+                      <path d="M14 2H6c-1.1 0-2 .9-2 2v16c0 1.1.9 2 2 2h12c1.1 0 2-.9 2-2V8l-6-6zm2 16H8v-2h8v2zm0-4H8v-2h8v2zm-3-5V3.5L18.5 9H13z" />
+                    </svg>
+                    Logs
+                  </button>
+                  {job.status === 'failed' && (
+                    <button
+                      className="pause-btn"
+                      onClick={() => handleRetryJob(job.id)}
+                      disabled={retryingJobs.has(job.id)}
+                      title={job.mode === 'import' ? 'Continue the download' : 'Encode the remaining renditions again'}
+                    >
+                      <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
+                        <path d="M17.65 6.35A7.958 7.958 0 0012 4c-4.42 0-7.99 3.58-7.99 8s3.57 8 7.99 8c3.73 0 6.84-2.55 7.73-6h-2.08A5.99 5.99 0 0112 18c-3.31 0-6-2.69-6-6s2.69-6 6-6c1.66 0 3.14.69 4.22 1.78L13 11h7V4l-2.35 2.35z" />
+                      </svg>
+                      Retry
+                    </button>
+                  )}
+                  {isActive(job) && (
+                    <button
+                      className="pause-btn"
+                      onClick={() => handlePauseJob(job)}
+                      disabled={pausingJobs.has(job.id) || cancellingJobs.has(job.id)}
+                      title={`${job.status === 'paused' ? 'Resume' : 'Pause'} ${job.mode === 'import' ? 'download' : 'encoding'}`}
+                    >
+                      {job.status === 'paused' ? (
+                        <>
+                          <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
+                            <path d="M8 5v14l11-7z" />
+                          </svg>
+                          Resume
+                        </>
+                      ) : (
+                        <>
+                          <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
+                            <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z" />
+                          </svg>
+                          Pause
+                        </>
+                      )}
+                    </button>
+                  )}
+                  {isActive(job) && (
                     <button
                       className="cancel-btn"
-                      onClick={() => handleCancelJob(job.id)}
+                      onClick={() => openCancelDialog(job)}
                       disabled={cancellingJobs.has(job.id)}
-                      title="Cancel encoding and delete video"
+                      title="Cancel encoding"
                     >
                       {cancellingJobs.has(job.id) ? (
                         <span className="cancel-spinner"></span>
@@ -142,7 +482,7 @@ export default function DashboardEncoding() {
                 </div>
               </div>
 
-              {(job.status === 'pending' || job.status === 'encoding') && (
+              {isActive(job) && (
                 <div className="encoding-job-progress">
                   <div className="encoding-progress-bar">
                     <div
@@ -152,7 +492,11 @@ export default function DashboardEncoding() {
                   </div>
                   <div className="encoding-progress-text">
                     <span>{Math.round(job.progress)}%</span>
-                    {job.estimated_time_remaining ? (
+                    {job.status === 'paused' ? (
+                      <span>Paused</span>
+                    ) : job.status === 'pending' && job.next_retry_at ? (
+                      <span>Retrying at {formatRetryTime(job.next_retry_at)}</span>
+                    ) : job.estimated_time_remaining ? (
                       <span>~{formatTime(job.estimated_time_remaining)} remaining</span>
                     ) : (
                       <span>Calculating...</span>
@@ -169,6 +513,32 @@ export default function DashboardEncoding() {
                   </span>
                 </div>
 
+                {isQueued(job) && (
+                  <div className="encoding-detail-item">
+                    <span className="encoding-detail-label">Queue</span>
+                    <span className="encoding-detail-value">
+                      #{queue.indexOf(job) + 1} · {PRIORITY_LABELS[job.priority ?? 1]} priority
+                    </span>
+                  </div>
+                )}
+
+                {job.mode === 'import' && job.source_url && (
+                  <div className="encoding-detail-item" style={{ flexBasis: '100%' }}>
+                    <span className="encoding-detail-label">Source</span>
+                    <span className="encoding-detail-value" style={{ wordBreak: 'break-all' }}>{job.source_url}</span>
+                  </div>
+                )}
+
+                {job.mode === 'import' && (
+                  <div className="encoding-detail-item">
+                    <span className="encoding-detail-label">Downloaded</span>
+                    <span className="encoding-detail-value">
+                      {formatMegabytes(job.downloaded_bytes ?? 0)}
+                      {job.download_size ? ` of ${formatMegabytes(job.download_size)}` : ''}
+                    </span>
+                  </div>
+                )}
+
                 {job.current_resolution && (
                   <div className="encoding-detail-item">
                     <span className="encoding-detail-label">Current</span>
@@ -188,32 +558,60 @@ export default function DashboardEncoding() {
                   </div>
                 )}
 
-                <div className="encoding-detail-item" style={{ flexBasis: '100%' }}>
-                  <span className="encoding-detail-label">Resolutions</span>
-                  <div className="resolutions-list" style={{ marginTop: 8 }}>
-                    {job.resolutions_completed.map((res) => (
-                      <span key={res} className="resolution-tag completed">
-                        ✓ {res}
-                      </span>
-                    ))}
-                    {job.current_resolution && (
-                      <span className="resolution-tag current">
-                        ⟳ {job.current_resolution}
-                      </span>
-                    )}
-                    {job.resolutions_pending
-                      .filter(res => res !== job.current_resolution)
-                      .map((res) => (
-                        <span key={res} className="resolution-tag">
-                          {res}
+                {job.mode !== 'import' && (
+                  <div className="encoding-detail-item" style={{ flexBasis: '100%' }}>
+                    <span className="encoding-detail-label">Resolutions</span>
+                    <div className="resolutions-list" style={{ marginTop: 8 }}>
+                      {job.resolutions_completed.map((res) => (
+                        <span key={res} className="resolution-tag completed">
+                          ✓ {res}
                         </span>
                       ))}
+                      {/* Renditions encoded in the same ffmpeg pass are all current, each with its own progress */}
+                      {job.current_resolution?.split(', ').map((res) => (
+                        <span key={res} className="resolution-tag current">
+                          ⟳ {res} {Math.round(job.rendition_progress?.[res] ?? 0)}%
+                        </span>
+                      ))}
+                      {job.resolutions_pending
+                        .filter(res => !job.current_resolution?.split(', ').includes(res))
+                        .map((res) => (
+                          <span key={res} className="resolution-tag">
+                            {res}
+                          </span>
+                        ))}
+                    </div>
                   </div>
-                </div>
+                )}
+
+                {(job.attempts ?? 0) > 1 && (
+                  <div className="encoding-detail-item">
+                    <span className="encoding-detail-label">Attempts</span>
+                    <span className="encoding-detail-value">
+                      {job.attempts}{job.auto_retries ? ` (${job.auto_retries} automatic)` : ''}
+                    </span>
+                  </div>
+                )}
+
+                {isQueued(job) && job.estimated_size ? (
+                  <div className="encoding-detail-item">
+                    <span className="encoding-detail-label">Needs</span>
+                    <span className="encoding-detail-value">~{(job.estimated_size / 1024 / 1024 / 1024).toFixed(1)} GB</span>
+                  </div>
+                ) : null}
+
+                {job.encoder && (
+                  <div className="encoding-detail-item">
+                    <span className="encoding-detail-label">Encoder</span>
+                    <span className="encoding-detail-value">{job.encoder}</span>
+                  </div>
+                )}
 
                 {job.error && (
                   <div className="encoding-detail-item" style={{ flexBasis: '100%' }}>
-                    <span className="encoding-detail-label" style={{ color: 'var(--danger)' }}>Error</span>
+                    <span className="encoding-detail-label" style={{ color: 'var(--danger)' }}>
+                      Error{job.failure_class && ` · ${FAILURE_LABELS[job.failure_class]}`}
+                    </span>
                     <span className="encoding-detail-value" style={{ color: 'var(--danger)' }}>
                       {job.error}
                     </span>
@@ -224,6 +622,90 @@ export default function DashboardEncoding() {
           ))}
         </div>
       )}
+
+      {/* ffmpeg Log Drawer */}
+      {logJobId && (
+        <div className="log-drawer-overlay" onClick={() => setLogJobId(null)}>
+          <aside className="log-drawer" onClick={e => e.stopPropagation()}>
+            <div className="log-drawer-header">
+              <div>
+                <h3>ffmpeg log</h3>
+                <span className="log-drawer-subtitle">
+                  {logJob?.video_title || logJobId}
+                  {logJobActive && ' · following'}
+                </span>
+              </div>
+              <div className="log-drawer-actions">
+                <button className="pause-btn" onClick={() => fetchJobLog(logJobId)}>
+                  Refresh
+                </button>
+                <button className="pause-btn" onClick={() => setLogJobId(null)}>
+                  Close
+                </button>
+              </div>
+            </div>
+            <div className="log-drawer-body">
+              {logLoading ? (
+                <div className="loading-spinner">
+                  <div className="spinner"></div>
+                </div>
+              ) : !jobLog || (!jobLog.log && !jobLog.previous) ? (
+                <p className="log-drawer-empty">No log was recorded for this job yet.</p>
+              ) : (
+                <pre>
+                  {jobLog.previous && `${jobLog.previous}\n--- log rotated ---\n`}
+                  {jobLog.log}
+                </pre>
+              )}
+              <div ref={logEndRef} />
+            </div>
+          </aside>
+        </div>
+      )}
+
+      {/* Cancel Confirmation Modal */}
+      {cancelTarget && (
+        <div className="modal-overlay" onClick={() => setCancelTarget(null)}>
+          <div className="modal-content cancel-job-modal" onClick={e => e.stopPropagation()}>
+            <div className="modal-header">
+              <h3>Cancel encoding of "{cancelTarget.video_title}"</h3>
+            </div>
+            <div className="modal-body">
+              {CANCEL_OPTIONS.map(option => (
+                <label
+                  key={option.mode}
+                  className={`cancel-mode-option${option.mode === 'delete' ? ' danger' : ''}${cancelMode === option.mode ? ' selected' : ''}`}
+                >
+                  <input
+                    type="radio"
+                    name="cancel-mode"
+                    checked={cancelMode === option.mode}
+                    onChange={() => setCancelMode(option.mode)}
+                  />
+                  <span>
+                    <strong>{option.label}</strong>
+                    <small>{option.description}</small>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <div className="modal-actions">
+              <button className="btn-cancel" onClick={() => setCancelTarget(null)}>
+                Keep encoding
+              </button>
+              {cancelMode === 'delete' ? (
+                <button className="btn-confirm" onClick={handleCancelJob}>
+                  Delete video
+                </button>
+              ) : (
+                <button className="btn btn-primary" onClick={handleCancelJob}>
+                  Stop encoding
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
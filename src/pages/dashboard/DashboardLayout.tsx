@@ -1,6 +1,7 @@
 import { NavLink, Outlet, useNavigate } from 'react-router-dom';
 import { useState, useEffect, createContext, useContext } from 'react';
 import { API_URL } from '../../config';
+import type { StorageStatus } from '../../types';
 import './Dashboard.css';
 
 // Theme context
@@ -25,6 +26,11 @@ export const SearchContext = createContext<SearchContextType>({
   setSearchQuery: () => {}
 });
 
+// How often the storage headroom is checked for the low storage banner
+const STORAGE_CHECK_INTERVAL = 60000;
+
+const formatGigabytes = (bytes: number) => `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+
 export default function DashboardLayout() {
   const navigate = useNavigate();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -32,6 +38,26 @@ export default function DashboardLayout() {
   const [isDarkMode, setIsDarkMode] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [storage, setStorage] = useState<StorageStatus | null>(null);
+
+  // Warn before uploads get rejected and encoding jobs start waiting for space
+  useEffect(() => {
+    const fetchStorage = async () => {
+      try {
+        const response = await fetch(`${API_URL}/api/health`);
+        if (!response.ok) return;
+
+        const data = await response.json();
+        setStorage(data.storage || null);
+      } catch (error) {
+        console.error('Error checking storage:', error);
+      }
+    };
+
+    fetchStorage();
+    const interval = setInterval(fetchStorage, STORAGE_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
 
   // Apply theme to document
   useEffect(() => {
@@ -103,7 +129,7 @@ export default function DashboardLayout() {
                 </button>
               )}
             </div>
-            
+          
             {/* Expand button when collapsed */}
             {isSidebarCollapsed && (
               <button 
@@ -265,6 +291,15 @@ export default function DashboardLayout() {
 
             {/* Content Area */}
             <div className="dashboard-content">
+              {storage?.low && (
+                <div className="storage-banner">
+                  Low storage: {formatGigabytes(storage.headroom_bytes)} left
+                  {storage.quota_bytes !== null
+                    ? ` (${formatGigabytes(storage.used_bytes)} of the ${formatGigabytes(storage.quota_bytes)} quota used, ${formatGigabytes(storage.disk_free_bytes)} free on disk)`
+                    : ` (${formatGigabytes(storage.disk_free_bytes)} free on disk)`}
+                  . Larger uploads are rejected and encoding jobs wait until there is room.
+                </div>
+              )}
               <Outlet />
             </div>
           </main>
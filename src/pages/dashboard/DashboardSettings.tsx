@@ -1,11 +1,644 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useTheme } from './DashboardLayout';
+import { API_URL } from '../../config';
+import type { EncodingProfile, EncodingProfileRung, VideoCodec, SegmentFormat, Webhook, WebhookDelivery, WebhookEvent, QueueSettings, EncoderCapabilities, EncoderPreference, StorageStatus, OrphanReport } from '../../types';
+
+interface ProfileForm {
+  id: string | null;
+  name: string;
+  description: string;
+  audio_bitrate: string;
+  preset: string;
+  codecs: VideoCodec[];
+  segment_format: SegmentFormat;
+  rungs: EncodingProfileRung[];
+}
+
+const CODEC_LABELS: Record<VideoCodec, string> = {
+  h264: 'H.264',
+  hevc: 'HEVC (x265)',
+  av1: 'AV1 (SVT-AV1)'
+};
+
+const SEGMENT_FORMAT_LABELS: Record<SegmentFormat, string> = {
+  ts: 'MPEG-TS (.ts, HLS only)',
+  fmp4: 'fMP4 / CMAF (.m4s, HLS + DASH)'
+};
+
+const PRIORITY_LABELS: Record<number, string> = {
+  0: 'Low',
+  1: 'Normal',
+  2: 'High'
+};
+
+const ENCODER_LABELS: Record<EncoderPreference, string> = {
+  auto: 'Automatic',
+  cpu: 'CPU only (libx264)',
+  nvenc: 'NVIDIA NVENC',
+  amf: 'AMD AMF',
+  qsv: 'Intel Quick Sync',
+  vaapi: 'VAAPI'
+};
+
+// Video encoders the ladders can use (H.264, HEVC, AV1), the rest of ffmpeg's list isn't shown
+const LADDER_ENCODER_PATTERN = /264|265|hevc|av1/i;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const EMPTY_PROFILE_FORM: ProfileForm = {
+  id: null,
+  name: '',
+  description: '',
+  audio_bitrate: '128k',
+  preset: 'medium',
+  codecs: ['h264'],
+  segment_format: 'ts',
+  rungs: [{ name: '720p', height: 720, bitrate: '2500k', crf: 23 }]
+};
 
 export default function DashboardSettings() {
   const { isDarkMode, toggleTheme } = useTheme();
   const [defaultQuality, setDefaultQuality] = useState('auto');
   const [enableEncoding, setEnableEncoding] = useState(true);
 
+  // Encoding profiles state
+  const [profiles, setProfiles] = useState<EncodingProfile[]>([]);
+  const [presets, setPresets] = useState<string[]>([]);
+  const [codecs, setCodecs] = useState<VideoCodec[]>(['h264']);
+  const [profileForm, setProfileForm] = useState<ProfileForm | null>(null);
+  const [profileError, setProfileError] = useState('');
+  const [savingProfile, setSavingProfile] = useState(false);
+
+  // Encoding queue state
+  const [queueSettings, setQueueSettings] = useState<QueueSettings | null>(null);
+  const [inWindow, setInWindow] = useState(true);
+  const [queueError, setQueueError] = useState('');
+  const [savingQueue, setSavingQueue] = useState(false);
+  const [queueSaved, setQueueSaved] = useState(false);
+
+  // Encoder state
+  const [capabilities, setCapabilities] = useState<EncoderCapabilities | null>(null);
+  const [probing, setProbing] = useState(false);
+  const [encoderError, setEncoderError] = useState('');
+
+  // Storage state
+  const [storage, setStorage] = useState<StorageStatus | null>(null);
+  const [orphanReport, setOrphanReport] = useState<OrphanReport | null>(null);
+  const [scanningStorage, setScanningStorage] = useState(false);
+  const [cleaningStorage, setCleaningStorage] = useState(false);
+  const [storageMessage, setStorageMessage] = useState('');
+
+  // Webhooks state
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [webhookEvents, setWebhookEvents] = useState<WebhookEvent[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [webhookForm, setWebhookForm] = useState<{ url: string; events: WebhookEvent[] } | null>(null);
+  const [webhookError, setWebhookError] = useState('');
+  const [savingWebhook, setSavingWebhook] = useState(false);
+
+  useEffect(() => {
+    fetchProfiles();
+    fetchQueueSettings();
+    fetchCapabilities();
+    fetchStorage();
+    fetchWebhooks();
+    fetchDeliveries();
+  }, []);
+
+  const fetchProfiles = async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/profiles`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        console.error('Error fetching encoding profiles:', response.status);
+        return;
+      }
+
+      const data = await response.json();
+      setProfiles(Array.isArray(data.profiles) ? data.profiles : []);
+      setPresets(Array.isArray(data.presets) ? data.presets : []);
+      if (Array.isArray(data.codecs)) setCodecs(data.codecs);
+    } catch (error) {
+      console.error('Error fetching encoding profiles:', error);
+    }
+  };
+
+  const handleEditProfile = (profile: EncodingProfile) => {
+    setProfileError('');
+    setProfileForm({
+      id: profile.id,
+      name: profile.name,
+      description: profile.description,
+      audio_bitrate: profile.audio_bitrate,
+      preset: profile.preset,
+      codecs: [...profile.codecs],
+      segment_format: profile.segment_format,
+      rungs: profile.rungs.map(r => ({ ...r }))
+    });
+  };
+
+  const handleNewProfile = () => {
+    setProfileError('');
+    setProfileForm({ ...EMPTY_PROFILE_FORM, rungs: EMPTY_PROFILE_FORM.rungs.map(r => ({ ...r })) });
+  };
+
+  const updateRung = (index: number, field: keyof EncodingProfileRung, value: string) => {
+    if (!profileForm) return;
+
+    const rungs = profileForm.rungs.map((rung, i) => {
+      if (i !== index) return rung;
+      if (field === 'height') return { ...rung, height: parseInt(value) || 0 };
+      if (field === 'crf') return { ...rung, crf: value === '' ? undefined : parseInt(value) };
+      return { ...rung, [field]: value };
+    });
+
+    setProfileForm({ ...profileForm, rungs });
+  };
+
+  const toggleCodec = (codec: VideoCodec) => {
+    if (!profileForm || codec === 'h264') return;
+    setProfileForm({
+      ...profileForm,
+      codecs: profileForm.codecs.includes(codec)
+        ? profileForm.codecs.filter(c => c !== codec)
+        : [...profileForm.codecs, codec]
+    });
+  };
+
+  const addRung = () => {
+    if (!profileForm) return;
+    setProfileForm({
+      ...profileForm,
+      rungs: [...profileForm.rungs, { name: '', height: 0, bitrate: '', crf: 23 }]
+    });
+  };
+
+  const removeRung = (index: number) => {
+    if (!profileForm) return;
+    setProfileForm({
+      ...profileForm,
+      rungs: profileForm.rungs.filter((_, i) => i !== index)
+    });
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileForm) return;
+
+    setProfileError('');
+    setSavingProfile(true);
+
+    try {
+      const { id, ...body } = profileForm;
+      const response = await fetch(
+        id ? `${API_URL}/api/encoding/profiles/${id}` : `${API_URL}/api/encoding/profiles`,
+        {
+          method: id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            ...body,
+            rungs: body.rungs.map(r => ({
+              ...r,
+              audioBitrate: r.audioBitrate || undefined
+            }))
+          })
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setProfileError(data.error || 'Failed to save profile');
+        return;
+      }
+
+      setProfileForm(null);
+      await fetchProfiles();
+    } catch (error) {
+      console.error('Error saving encoding profile:', error);
+      setProfileError('Failed to save profile');
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleSetDefaultProfile = async (id: string) => {
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/profiles/${id}/default`, {
+        method: 'PUT',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to set default profile');
+        return;
+      }
+
+      await fetchProfiles();
+    } catch (error) {
+      console.error('Error setting default encoding profile:', error);
+      alert('Failed to set default profile');
+    }
+  };
+
+  const handleDeleteProfile = async (profile: EncodingProfile) => {
+    if (!confirm(`Delete encoding profile "${profile.name}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/profiles/${profile.id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to delete profile');
+        return;
+      }
+
+      if (profileForm?.id === profile.id) setProfileForm(null);
+      await fetchProfiles();
+    } catch (error) {
+      console.error('Error deleting encoding profile:', error);
+      alert('Failed to delete profile');
+    }
+  };
+
+  const fetchQueueSettings = async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/settings`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        console.error('Error fetching queue settings:', response.status);
+        return;
+      }
+
+      const data = await response.json();
+      setQueueSettings(data.settings);
+      setInWindow(!!data.inWindow);
+    } catch (error) {
+      console.error('Error fetching queue settings:', error);
+    }
+  };
+
+  const updateQueueSettings = (changes: Partial<QueueSettings>) => {
+    if (!queueSettings) return;
+    setQueueSaved(false);
+    setQueueSettings({ ...queueSettings, ...changes });
+  };
+
+  const handleSaveQueueSettings = async () => {
+    if (!queueSettings) return;
+
+    setQueueError('');
+    setSavingQueue(true);
+
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/settings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(queueSettings)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setQueueError(data.error || 'Failed to save queue settings');
+        return;
+      }
+
+      setQueueSettings(data.settings);
+      setInWindow(!!data.inWindow);
+      setQueueSaved(true);
+    } catch (error) {
+      console.error('Error saving queue settings:', error);
+      setQueueError('Failed to save queue settings');
+    } finally {
+      setSavingQueue(false);
+    }
+  };
+
+  const fetchCapabilities = async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/capabilities`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        console.error('Error fetching encoder capabilities:', response.status);
+        return;
+      }
+
+      setCapabilities(await response.json());
+    } catch (error) {
+      console.error('Error fetching encoder capabilities:', error);
+    }
+  };
+
+  const handleProbeEncoders = async () => {
+    setEncoderError('');
+    setProbing(true);
+
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/capabilities/probe`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setEncoderError(data.error || 'Failed to probe ffmpeg');
+        return;
+      }
+
+      setCapabilities(data);
+    } catch (error) {
+      console.error('Error probing encoder capabilities:', error);
+      setEncoderError('Failed to probe ffmpeg');
+    } finally {
+      setProbing(false);
+    }
+  };
+
+  const handleEncoderChange = async (encoder: EncoderPreference) => {
+    setEncoderError('');
+
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/settings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ encoder })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setEncoderError(data.error || 'Failed to change encoder');
+        return;
+      }
+
+      setCapabilities(current => current && { ...current, encoder: data.settings.encoder });
+      // Unsaved queue edits are kept, saving them must not bring the old encoder back
+      setQueueSettings(current => current && { ...current, encoder: data.settings.encoder });
+    } catch (error) {
+      console.error('Error changing encoder:', error);
+      setEncoderError('Failed to change encoder');
+    }
+  };
+
+  const fetchStorage = async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/storage`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        console.error('Error fetching storage status:', response.status);
+        return;
+      }
+
+      setStorage(await response.json());
+    } catch (error) {
+      console.error('Error fetching storage status:', error);
+    }
+  };
+
+  const handleScanStorage = async () => {
+    setStorageMessage('');
+    setScanningStorage(true);
+
+    try {
+      const response = await fetch(`${API_URL}/api/storage/orphans`, {
+        credentials: 'include'
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setStorageMessage(data.error || 'Failed to scan storage');
+        return;
+      }
+
+      setOrphanReport(data);
+    } catch (error) {
+      console.error('Error scanning storage:', error);
+      setStorageMessage('Failed to scan storage');
+    } finally {
+      setScanningStorage(false);
+    }
+  };
+
+  const handleCleanupStorage = async () => {
+    if (!orphanReport) return;
+    if (!confirm(`Delete ${orphanReport.orphans.length} orphaned file(s) (${formatBytes(orphanReport.reclaimable_bytes)})?`)) {
+      return;
+    }
+
+    setStorageMessage('');
+    setCleaningStorage(true);
+
+    try {
+      const response = await fetch(`${API_URL}/api/storage/orphans/cleanup`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setStorageMessage(data.error || 'Failed to clean up storage');
+        return;
+      }
+
+      setStorageMessage(`Removed ${data.orphans.length} file(s), ${formatBytes(data.reclaimable_bytes)} reclaimed`);
+      setOrphanReport({ ...data, orphans: [], reclaimable_bytes: 0 });
+      await fetchStorage();
+    } catch (error) {
+      console.error('Error cleaning up storage:', error);
+      setStorageMessage('Failed to clean up storage');
+    } finally {
+      setCleaningStorage(false);
+    }
+  };
+
+  const fetchWebhooks = async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/webhooks`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        console.error('Error fetching webhooks:', response.status);
+        return;
+      }
+
+      const data = await response.json();
+      setWebhooks(Array.isArray(data.webhooks) ? data.webhooks : []);
+      setWebhookEvents(Array.isArray(data.events) ? data.events : []);
+    } catch (error) {
+      console.error('Error fetching webhooks:', error);
+    }
+  };
+
+  const fetchDeliveries = async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/webhooks/deliveries?limit=50`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        console.error('Error fetching webhook deliveries:', response.status);
+        return;
+      }
+
+      const data = await response.json();
+      setDeliveries(Array.isArray(data.deliveries) ? data.deliveries : []);
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+    }
+  };
+
+  const toggleWebhookEvent = (event: WebhookEvent) => {
+    if (!webhookForm) return;
+    setWebhookForm({
+      ...webhookForm,
+      events: webhookForm.events.includes(event)
+        ? webhookForm.events.filter(e => e !== event)
+        : [...webhookForm.events, event]
+    });
+  };
+
+  const handleCreateWebhook = async () => {
+    if (!webhookForm) return;
+
+    setWebhookError('');
+    setSavingWebhook(true);
+
+    try {
+      const response = await fetch(`${API_URL}/api/webhooks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(webhookForm)
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setWebhookError(data.error || 'Failed to create webhook');
+        return;
+      }
+
+      setWebhookForm(null);
+      await fetchWebhooks();
+    } catch (error) {
+      console.error('Error creating webhook:', error);
+      setWebhookError('Failed to create webhook');
+    } finally {
+      setSavingWebhook(false);
+    }
+  };
+
+  const handleToggleWebhook = async (webhook: Webhook) => {
+    try {
+      const response = await fetch(`${API_URL}/api/webhooks/${webhook.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ enabled: !webhook.enabled })
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to update webhook');
+        return;
+      }
+
+      await fetchWebhooks();
+    } catch (error) {
+      console.error('Error updating webhook:', error);
+      alert('Failed to update webhook');
+    }
+  };
+
+  const handleTestWebhook = async (webhook: Webhook) => {
+    try {
+      const response = await fetch(`${API_URL}/api/webhooks/${webhook.id}/test`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to send test webhook');
+        return;
+      }
+
+      // Give the receiver a moment to answer before refreshing the log
+      setTimeout(fetchDeliveries, 1500);
+    } catch (error) {
+      console.error('Error sending test webhook:', error);
+      alert('Failed to send test webhook');
+    }
+  };
+
+  const handleDeleteWebhook = async (webhook: Webhook) => {
+    if (!confirm(`Delete webhook ${webhook.url} and its delivery log?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_URL}/api/webhooks/${webhook.id}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to delete webhook');
+        return;
+      }
+
+      await Promise.all([fetchWebhooks(), fetchDeliveries()]);
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+      alert('Failed to delete webhook');
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    try {
+      const response = await fetch(`${API_URL}/api/webhooks/deliveries/${delivery.id}/redeliver`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        alert(data.error || 'Failed to redeliver webhook');
+        return;
+      }
+
+      setTimeout(fetchDeliveries, 1500);
+    } catch (error) {
+      console.error('Error redelivering webhook:', error);
+      alert('Failed to redeliver webhook');
+    }
+  };
+
   return (
     <div className="settings-page">
       <div className="page-header-modern">
@@ -102,6 +735,598 @@ export default function DashboardSettings() {
           </div>
         </div>
 
+        {/* Encoding Profiles Section */}
+        <div className="settings-section">
+          <h2 className="settings-section-title">
+            <svg viewBox="0 0 24 24" fill="currentColor">
+              <path d="M3 17v2h6v-2H3zM3 5v2h10V5H3zm10 16v-2h8v-2h-8v-2h-2v6h2zM7 9v2H3v2h4v2h2V9H7zm14 4v-2H11v2h10zm-6-4h2V7h4V5h-4V3h-2v6z" />
+            </svg>
+            Encoding Profiles
+          </h2>
+
+          <div className="profile-list">
+            {profiles.map((profile) => (
+              <div key={profile.id} className="profile-item">
+                <div className="profile-item-info">
+                  <h3>
+                    {profile.name}
+                    {profile.is_default && <span className="profile-default-badge">Default</span>}
+                  </h3>
+                  {profile.description && <p>{profile.description}</p>}
+                  <p className="profile-item-meta">
+                    {profile.rungs.map(r => `${r.name} @ ${r.bitrate}`).join(' · ')} — {profile.codecs.map(c => CODEC_LABELS[c]).join(' + ')}, {SEGMENT_FORMAT_LABELS[profile.segment_format]}, preset {profile.preset}, audio {profile.audio_bitrate}
+                  </p>
+                </div>
+                <div className="profile-item-actions">
+                  {!profile.is_default && (
+                    <button className="btn btn-secondary btn-sm" onClick={() => handleSetDefaultProfile(profile.id)}>
+                      Set Default
+                    </button>
+                  )}
+                  <button className="btn btn-secondary btn-sm" onClick={() => handleEditProfile(profile)}>
+                    Edit
+                  </button>
+                  {!profile.is_default && (
+                    <button className="btn btn-danger btn-sm" onClick={() => handleDeleteProfile(profile)}>
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {profileForm ? (
+            <div className="profile-form">
+              <div className="form-row">
+                <div className="form-group">
+                  <label>Name</label>
+                  <input
+                    type="text"
+                    className="form-input"
+                    placeholder="anime-low-bitrate"
+                    value={profileForm.name}
+                    onChange={(e) => setProfileForm({ ...profileForm, name: e.target.value })}
+                  />
+                </div>
+                <div className="form-group">
+                  <label>Description</label>
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={profileForm.description}
+                    onChange={(e) => setProfileForm({ ...profileForm, description: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="form-row">
+                <div className="form-group">
+                  <label>Preset</label>
+                  <select
+                    className="form-select"
+                    value={profileForm.preset}
+                    onChange={(e) => setProfileForm({ ...profileForm, preset: e.target.value })}
+                  >
+                    {presets.map((preset) => (
+                      <option key={preset} value={preset}>{preset}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label>Segments</label>
+                  <select
+                    className="form-select"
+                    value={profileForm.segment_format}
+                    onChange={(e) => setProfileForm({ ...profileForm, segment_format: e.target.value as SegmentFormat })}
+                  >
+                    {(Object.keys(SEGMENT_FORMAT_LABELS) as SegmentFormat[]).map((format) => (
+                      <option key={format} value={format}>{SEGMENT_FORMAT_LABELS[format]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group">
+                  <label>Audio Bitrate</label>
+                  <input
+                    type="text"
+                    className="form-input"
+                    placeholder="128k"
+                    value={profileForm.audio_bitrate}
+                    onChange={(e) => setProfileForm({ ...profileForm, audio_bitrate: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="form-group">
+                <label>Codecs</label>
+                <div className="profile-codecs">
+                  {codecs.map((codec) => (
+                    <label key={codec} className="profile-codec-option">
+                      <input
+                        type="checkbox"
+                        checked={profileForm.codecs.includes(codec)}
+                        disabled={codec === 'h264'}
+                        onChange={() => toggleCodec(codec)}
+                      />
+                      {CODEC_LABELS[codec]}
+                    </label>
+                  ))}
+                </div>
+                <p className="profile-form-hint">
+                  HEVC and AV1 renditions use fMP4 segments at lower bitrates (60% / 50% of the H.264 rung). Players pick the most efficient codec they support.
+                </p>
+              </div>
+
+              <div className="profile-rungs">
+                <div className="profile-rung-row profile-rung-header">
+                  <span>Name</span>
+                  <span>Height</span>
+                  <span>Bitrate</span>
+                  <span>CRF</span>
+                  <span>Audio</span>
+                  <span></span>
+                </div>
+                {profileForm.rungs.map((rung, index) => (
+                  <div key={index} className="profile-rung-row">
+                    <input
+                      type="text"
+                      className="form-input"
+                      placeholder="720p"
+                      value={rung.name}
+                      onChange={(e) => updateRung(index, 'name', e.target.value)}
+                    />
+                    <input
+                      type="number"
+                      className="form-input"
+                      placeholder="720"
+                      value={rung.height || ''}
+                      onChange={(e) => updateRung(index, 'height', e.target.value)}
+                    />
+                    <input
+                      type="text"
+                      className="form-input"
+                      placeholder="2500k"
+                      value={rung.bitrate}
+                      onChange={(e) => updateRung(index, 'bitrate', e.target.value)}
+                    />
+                    <input
+                      type="number"
+                      className="form-input"
+                      placeholder="23"
+                      value={rung.crf ?? ''}
+                      onChange={(e) => updateRung(index, 'crf', e.target.value)}
+                    />
+                    <input
+                      type="text"
+                      className="form-input"
+                      placeholder={profileForm.audio_bitrate}
+                      value={rung.audioBitrate || ''}
+                      onChange={(e) => updateRung(index, 'audioBitrate', e.target.value)}
+                    />
+                    <button
+                      type="button"
+                      className="btn btn-secondary btn-sm"
+                      onClick={() => removeRung(index)}
+                      disabled={profileForm.rungs.length === 1}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button type="button" className="btn btn-secondary btn-sm" onClick={addRung}>
+                  + Add Rung
+                </button>
+              </div>
+
+              {profileError && <div className="login-error" style={{ marginBottom: 16 }}>{profileError}</div>}
+
+              <div className="profile-form-actions">
+                <button className="btn btn-secondary" onClick={() => setProfileForm(null)} disabled={savingProfile}>
+                  Cancel
+                </button>
+                <button className="btn btn-primary" onClick={handleSaveProfile} disabled={savingProfile}>
+                  {savingProfile ? 'Saving...' : profileForm.id ? 'Save Profile' : 'Create Profile'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button className="btn btn-secondary" onClick={handleNewProfile}>
+              + New Profile
+            </button>
+          )}
+        </div>
+
+        {/* Encoding Queue Section */}
+        {queueSettings && (
+          <div className="settings-section">
+            <h2 className="settings-section-title">
+              <svg viewBox="0 0 24 24" fill="currentColor">
+                <path d="M11.99 2C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67z" />
+              </svg>
+              Encoding Queue
+            </h2>
+
+            <div className="settings-option-row">
+              <div className="settings-option-info">
+                <h3>Encoding window</h3>
+                <p>
+                  Only start queued jobs between these times (server time). High priority jobs ignore the window, running jobs are never interrupted.
+                  {queueSettings.window_enabled && ` The window is ${inWindow ? 'open' : 'closed'} right now.`}
+                </p>
+              </div>
+              <div className="settings-option-control queue-window-control">
+                <input
+                  type="time"
+                  className="form-input"
+                  value={queueSettings.window_start}
+                  disabled={!queueSettings.window_enabled}
+                  onChange={(e) => updateQueueSettings({ window_start: e.target.value })}
+                />
+                <span>–</span>
+                <input
+                  type="time"
+                  className="form-input"
+                  value={queueSettings.window_end}
+                  disabled={!queueSettings.window_enabled}
+                  onChange={(e) => updateQueueSettings({ window_end: e.target.value })}
+                />
+                <label className="toggle-switch">
+                  <input
+                    type="checkbox"
+                    checked={queueSettings.window_enabled}
+                    onChange={(e) => updateQueueSettings({ window_enabled: e.target.checked })}
+                  />
+                  <span className="toggle-slider"></span>
+                </label>
+              </div>
+            </div>
+
+            <div className="settings-option-row">
+              <div className="settings-option-info">
+                <h3>Default priority</h3>
+                <p>Priority of new jobs, it can be changed per job on the Encoding page</p>
+              </div>
+              <div className="settings-option-control">
+                <select
+                  className="settings-select"
+                  value={queueSettings.default_priority}
+                  onChange={(e) => updateQueueSettings({ default_priority: parseInt(e.target.value) })}
+                >
+                  {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="settings-option-row">
+              <div className="settings-option-info">
+                <h3>ffmpeg threads</h3>
+                <p>Threads each job may use, 0 lets ffmpeg use every core</p>
+              </div>
+              <div className="settings-option-control">
+                <input
+                  type="number"
+                  className="form-input queue-number-input"
+                  min={0}
+                  max={64}
+                  value={queueSettings.threads}
+                  onChange={(e) => updateQueueSettings({ threads: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+
+            <div className="settings-option-row">
+              <div className="settings-option-info">
+                <h3>ffmpeg niceness</h3>
+                <p>CPU scheduling priority of ffmpeg (0 - 19), higher values keep the API responsive while encoding</p>
+              </div>
+              <div className="settings-option-control">
+                <input
+                  type="number"
+                  className="form-input queue-number-input"
+                  min={0}
+                  max={19}
+                  value={queueSettings.niceness}
+                  onChange={(e) => updateQueueSettings({ niceness: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+
+            {queueError && <div className="login-error" style={{ marginBottom: 16 }}>{queueError}</div>}
+
+            <div className="profile-form-actions">
+              {queueSaved && <span className="profile-form-hint">Saved</span>}
+              <button className="btn btn-primary" onClick={handleSaveQueueSettings} disabled={savingQueue}>
+                {savingQueue ? 'Saving...' : 'Save Queue Settings'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Encoder Section */}
+        {capabilities && (
+          <div className="settings-section">
+            <h2 className="settings-section-title">
+              <svg viewBox="0 0 24 24" fill="currentColor">
+                <path d="M15 9H9v6h6V9zm-2 4h-2v-2h2v2zm8-2V9h-2V7c0-1.1-.9-2-2-2h-2V3h-2v2h-2V3H9v2H7c-1.1 0-2 .9-2 2v2H3v2h2v2H3v2h2v2c0 1.1.9 2 2 2h2v2h2v-2h2v2h2v-2h2c1.1 0 2-.9 2-2v-2h2v-2h-2v-2h2zm-4 6H7V7h10v10z" />
+              </svg>
+              Encoder
+            </h2>
+
+            <div className="settings-option-row">
+              <div className="settings-option-info">
+                <h3>ffmpeg {capabilities.ffmpeg_version || 'version unknown'}</h3>
+                <p>
+                  Last probed {new Date(capabilities.probed_at).toLocaleString()}
+                  {capabilities.error && ` · ${capabilities.error}`}
+                </p>
+              </div>
+              <div className="settings-option-control">
+                <button className="btn btn-secondary" onClick={handleProbeEncoders} disabled={probing}>
+                  {probing ? 'Probing...' : 'Probe Again'}
+                </button>
+              </div>
+            </div>
+
+            <div className="settings-option-row">
+              <div className="settings-option-info">
+                <h3>H.264 encoder</h3>
+                <p>
+                  Automatic uses {capabilities.detected ? `h264_${capabilities.detected} (detected)` : 'libx264, no hardware encoder was detected'} and falls back to the CPU if it fails. A forced encoder never falls back.
+                </p>
+              </div>
+              <div className="settings-option-control">
+                <select
+                  className="settings-select"
+                  value={capabilities.encoder}
+                  onChange={(e) => handleEncoderChange(e.target.value as EncoderPreference)}
+                >
+                  {(Object.keys(ENCODER_LABELS) as EncoderPreference[]).map(encoder => (
+                    <option key={encoder} value={encoder}>
+                      {ENCODER_LABELS[encoder]}
+                      {encoder !== 'auto' && encoder !== 'cpu' && !capabilities.encoders.some(e => e.name === `h264_${encoder}`) && ' (not detected)'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="settings-option-row">
+              <div className="settings-option-info">
+                <h3>Hardware acceleration</h3>
+                <div className="resolutions-list encoder-capability-list">
+                  {capabilities.hwaccels.length > 0
+                    ? capabilities.hwaccels.map(hwaccel => <span key={hwaccel} className="resolution-tag">{hwaccel}</span>)
+                    : <span className="resolution-tag">None</span>}
+                </div>
+              </div>
+            </div>
+
+            <div className="settings-option-row">
+              <div className="settings-option-info">
+                <h3>Video encoders</h3>
+                <div className="resolutions-list encoder-capability-list">
+                  {capabilities.encoders
+                    .filter(e => e.type === 'video' && LADDER_ENCODER_PATTERN.test(e.name))
+                    .map(e => (
+                      <span
+                        key={e.name}
+                        className={`resolution-tag ${e.name === `h264_${capabilities.detected}` ? 'completed' : ''}`}
+                        title={e.description}
+                      >
+                        {e.name}
+                      </span>
+                    ))}
+                </div>
+              </div>
+            </div>
+
+            {encoderError && <div className="login-error">{encoderError}</div>}
+          </div>
+        )}
+
+        {/* Storage Section */}
+        <div className="settings-section">
+          <h2 className="settings-section-title">
+            <svg viewBox="0 0 24 24" fill="currentColor">
+              <path d="M2 20h20v-4H2v4zm2-3h2v2H4v-2zM2 4v4h20V4H2zm4 3H4V5h2v2zm-4 7h20v-4H2v4zm2-3h2v2H4v-2z" />
+            </svg>
+            Storage
+          </h2>
+
+          {storage && (
+            <div className="settings-option-row">
+              <div className="settings-option-info">
+                <h3>Usage</h3>
+                <p>
+                  {formatBytes(storage.used_bytes)} used
+                  {storage.quota_bytes !== null && ` of a ${formatBytes(storage.quota_bytes)} quota`}
+                  {` · ${formatBytes(storage.disk_free_bytes)} free on disk · ${formatBytes(storage.headroom_bytes)} available for uploads and encoding`}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="settings-option-row">
+            <div className="settings-option-info">
+              <h3>Orphaned files</h3>
+              <p>
+                {orphanReport
+                  ? `${orphanReport.orphans.length} file(s) no video, subtitle or job refers to · ${formatBytes(orphanReport.reclaimable_bytes)} reclaimable (scanned ${new Date(orphanReport.scanned_at).toLocaleString()})`
+                  : 'Files left behind by failed uploads, crashed jobs and deleted videos. They are removed daily once a day old, scan to see what would go.'}
+              </p>
+            </div>
+            <div className="settings-option-control storage-actions">
+              <button className="btn btn-secondary" onClick={handleScanStorage} disabled={scanningStorage}>
+                {scanningStorage ? 'Scanning...' : 'Scan'}
+              </button>
+              <button
+                className="btn btn-primary"
+                onClick={handleCleanupStorage}
+                disabled={cleaningStorage || !orphanReport || orphanReport.orphans.length === 0}
+              >
+                {cleaningStorage ? 'Cleaning...' : 'Clean Up'}
+              </button>
+            </div>
+          </div>
+
+          {storageMessage && <p className="profile-form-hint">{storageMessage}</p>}
+
+          {orphanReport && orphanReport.orphans.length > 0 && (
+            <div className="storage-report">
+              {orphanReport.orphans.map(orphan => (
+                <div key={orphan.url} className="storage-report-item">
+                  <div className="webhook-delivery-info">
+                    <span className="webhook-delivery-event">{orphan.url}</span>
+                    <span className="webhook-delivery-meta">{orphan.reason}</span>
+                  </div>
+                  <span className="storage-report-size">{formatBytes(orphan.size)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {orphanReport && orphanReport.missing.length > 0 && (
+            <div className="storage-report">
+              <h3>Missing files</h3>
+              {orphanReport.missing.map(row => (
+                <div key={`${row.table}-${row.id}`} className="storage-report-item">
+                  <div className="webhook-delivery-info">
+                    <span className="webhook-delivery-event">{row.url}</span>
+                    <span className="webhook-delivery-meta">{row.table === 'subtitles' ? 'Subtitle' : 'Source'} of video {row.video_id}, the file is gone</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Webhooks Section */}
+        <div className="settings-section">
+          <h2 className="settings-section-title">
+            <svg viewBox="0 0 24 24" fill="currentColor">
+              <path d="M10 15l5.88 0c.27-.31.67-.5 1.12-.5.83 0 1.5.67 1.5 1.5s-.67 1.5-1.5 1.5c-.44 0-.84-.2-1.12-.5H11.9c-.46 2.28-2.48 4-4.9 4-2.76 0-5-2.24-5-5 0-2.42 1.72-4.44 4-4.9v2.07c-1.16.41-2 1.53-2 2.83 0 1.65 1.35 3 3 3s3-1.35 3-3v-1zm2.5-11c1.65 0 3 1.35 3 3h2c0-2.76-2.24-5-5-5s-5 2.24-5 5c0 1.43.6 2.71 1.55 3.62l-2.35 3.9C6.02 14.66 5.5 15.26 5.5 16c0 .83.67 1.5 1.5 1.5s1.5-.67 1.5-1.5c0-.16-.02-.31-.07-.45l3.38-5.63C10.49 9.61 9.5 8.42 9.5 7c0-1.65 1.35-3 3-3zm4.5 9c-.64 0-1.23.2-1.72.54l-3.05-5.07C11.53 8.35 11 7.74 11 7c0-.83.67-1.5 1.5-1.5S14 6.17 14 7c0 .15-.02.29-.06.43l2.19 3.65c.28-.05.57-.08.87-.08 2.76 0 5 2.24 5 5s-2.24 5-5 5c-1.85 0-3.47-1.01-4.33-2.5h2.67c.48.32 1.05.5 1.66.5 1.65 0 3-1.35 3-3s-1.35-3-3-3z" />
+            </svg>
+            Webhooks
+          </h2>
+
+          <div className="profile-list">
+            {webhooks.map((webhook) => (
+              <div key={webhook.id} className="profile-item">
+                <div className="profile-item-info">
+                  <h3>
+                    {webhook.url}
+                    {!webhook.enabled && <span className="webhook-status failed">Disabled</span>}
+                  </h3>
+                  <p>{webhook.events.length > 0 ? webhook.events.join(', ') : 'All events'}</p>
+                  <p className="profile-item-meta">
+                    Signing secret: <code>{webhook.secret}</code>
+                  </p>
+                </div>
+                <div className="profile-item-actions">
+                  <button className="btn btn-secondary btn-sm" onClick={() => handleTestWebhook(webhook)}>
+                    Test
+                  </button>
+                  <button className="btn btn-secondary btn-sm" onClick={() => handleToggleWebhook(webhook)}>
+                    {webhook.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button className="btn btn-danger btn-sm" onClick={() => handleDeleteWebhook(webhook)}>
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {webhookForm ? (
+            <div className="profile-form">
+              <div className="form-group">
+                <label>Payload URL</label>
+                <input
+                  type="url"
+                  className="form-input"
+                  placeholder="https://example.com/hooks/anisuplayer"
+                  value={webhookForm.url}
+                  onChange={(e) => setWebhookForm({ ...webhookForm, url: e.target.value })}
+                />
+              </div>
+
+              <div className="form-group">
+                <label>Events</label>
+                <div className="profile-codecs">
+                  {webhookEvents.map((event) => (
+                    <label key={event} className="profile-codec-option">
+                      <input
+                        type="checkbox"
+                        checked={webhookForm.events.includes(event)}
+                        onChange={() => toggleWebhookEvent(event)}
+                      />
+                      {event}
+                    </label>
+                  ))}
+                </div>
+                <p className="profile-form-hint">
+                  Leave every event unchecked to receive all of them. Payloads are signed with HMAC-SHA256, see the X-AnisuPlayer-Signature header.
+                </p>
+              </div>
+
+              {webhookError && <div className="login-error" style={{ marginBottom: 16 }}>{webhookError}</div>}
+
+              <div className="profile-form-actions">
+                <button className="btn btn-secondary" onClick={() => setWebhookForm(null)} disabled={savingWebhook}>
+                  Cancel
+                </button>
+                <button className="btn btn-primary" onClick={handleCreateWebhook} disabled={savingWebhook}>
+                  {savingWebhook ? 'Saving...' : 'Create Webhook'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button className="btn btn-secondary" onClick={() => { setWebhookError(''); setWebhookForm({ url: '', events: [] }); }}>
+              + New Webhook
+            </button>
+          )}
+
+          <div className="webhook-deliveries">
+            <div className="webhook-deliveries-header">
+              <h3>Recent Deliveries</h3>
+              <button className="btn btn-secondary btn-sm" onClick={fetchDeliveries}>
+                Refresh
+              </button>
+            </div>
+
+            {deliveries.length === 0 ? (
+              <p className="profile-form-hint">No deliveries yet.</p>
+            ) : (
+              deliveries.map((delivery) => (
+                <div key={delivery.id} className="webhook-delivery">
+                  <span className={`webhook-status ${delivery.status}`}>{delivery.status}</span>
+                  <div className="webhook-delivery-info">
+                    <span className="webhook-delivery-event">{delivery.event}</span>
+                    <span className="webhook-delivery-meta">
+                      {delivery.webhook_url || 'Deleted webhook'} · {new Date(delivery.created_at.replace(' ', 'T') + 'Z').toLocaleString()}
+                      {' · '}{delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+                      {delivery.response_status !== null && ` · HTTP ${delivery.response_status}`}
+                    </span>
+                    {delivery.error && (
+                      <span className="webhook-delivery-error">
+                        {delivery.error}
+                        {delivery.status === 'pending' && delivery.next_attempt_at && ` — retrying at ${new Date(delivery.next_attempt_at.replace(' ', 'T') + 'Z').toLocaleTimeString()}`}
+                      </span>
+                    )}
+                  </div>
+                  {delivery.status !== 'pending' && delivery.webhook_url && (
+                    <button className="btn btn-secondary btn-sm" onClick={() => handleRedeliver(delivery)}>
+                      Redeliver
+                    </button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
         {/* About Section */}
         <div className="settings-section">
           <h2 className="settings-section-title">
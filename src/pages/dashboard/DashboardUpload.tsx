@@ -1,11 +1,14 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import type { DragEvent, ChangeEvent, FormEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { API_URL } from '../../config';
+import type { EncodingProfile } from '../../types';
 
 interface LinkSource {
   url: string;
   resolution: string;
+  // Other URLs of the same file, one per line
+  mirrors: string;
 }
 
 type UploadTab = 'file' | 'link';
@@ -40,11 +43,44 @@ export default function DashboardUpload() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
   const [enableEncoding, setEnableEncoding] = useState(true);
+  const [profiles, setProfiles] = useState<EncodingProfile[]>([]);
+  const [profileId, setProfileId] = useState('');
   
   // Link upload state
   const [linkSources, setLinkSources] = useState<LinkSource[]>([
-    { url: '', resolution: '1080p' }
+    { url: '', resolution: '1080p', mirrors: '' }
   ]);
+  // Download the linked file and encode it here instead of playing it from the remote host
+  const [importLink, setImportLink] = useState(false);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const fetchProfiles = async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/encoding/profiles`, {
+        credentials: 'include'
+      });
+
+      if (!response.ok) return;
+
+      const data = await response.json();
+      const list: EncodingProfile[] = Array.isArray(data.profiles) ? data.profiles : [];
+      setProfiles(list);
+
+      // Preselect the default profile
+      const defaultProfile = list.find(p => p.is_default) || list[0];
+      if (defaultProfile) setProfileId(defaultProfile.id);
+    } catch (error) {
+      console.error('Error fetching encoding profiles:', error);
+    }
+  };
+
+  const selectedProfile = profiles.find(p => p.id === profileId);
+  const profileResolutions = selectedProfile
+    ? [...selectedProfile.rungs].sort((a, b) => b.height - a.height).map(r => r.name).join(', ')
+    : '1080p, 720p, 480p, 360p';
 
   const handleDragOver = (e: DragEvent) => {
     e.preventDefault();
@@ -100,7 +136,7 @@ export default function DashboardUpload() {
   };
 
   const addLinkSource = () => {
-    setLinkSources([...linkSources, { url: '', resolution: '720p' }]);
+    setLinkSources([...linkSources, { url: '', resolution: '720p', mirrors: '' }]);
   };
 
   const removeLinkSource = (index: number) => {
@@ -131,6 +167,9 @@ export default function DashboardUpload() {
         formData.append('title', title);
         formData.append('description', description);
         formData.append('enableEncoding', enableEncoding ? 'true' : 'false');
+        if (enableEncoding && profileId) {
+          formData.append('profileId', profileId);
+        }
 
         const response = await fetch(`${API_URL}/api/videos/upload`, {
           method: 'POST',
@@ -168,7 +207,15 @@ export default function DashboardUpload() {
             title,
             description,
             thumbnail,
-            sources: validSources
+            sources: importLink
+              ? validSources.slice(0, 1).map(s => ({ url: s.url, resolution: s.resolution }))
+              : validSources.map(s => ({
+                url: s.url,
+                resolution: s.resolution,
+                mirrors: s.mirrors.split('\n').map(url => url.trim()).filter(Boolean)
+              })),
+            import: importLink,
+            profileId: importLink && profileId ? profileId : undefined
           })
         });
 
@@ -178,7 +225,7 @@ export default function DashboardUpload() {
           throw new Error(data.error || 'Failed to add video');
         }
 
-        navigate('/dashboard/videos');
+        navigate(importLink ? '/dashboard/encoding' : '/dashboard/videos');
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Something went wrong');
@@ -283,7 +330,7 @@ export default function DashboardUpload() {
                   style={{ width: 18, height: 18, cursor: 'pointer' }}
                 />
                 <span style={{ fontSize: '0.9rem', color: 'var(--text-primary)' }}>
-                  Enable encoding to multiple resolutions (1080p, 720p, 480p, 360p)
+                  Enable encoding to multiple resolutions ({profileResolutions})
                 </span>
               </label>
               <p style={{ marginTop: 8, fontSize: '0.85rem', color: 'var(--text-muted)', marginLeft: 30 }}>
@@ -291,6 +338,22 @@ export default function DashboardUpload() {
                   ? '📝 The video will be automatically encoded to multiple resolutions based on the source quality. This may take some time.'
                   : '⚡ The video will be saved in its original resolution without encoding. Upload will be faster.'}
               </p>
+              {enableEncoding && profiles.length > 0 && (
+                <div className="form-group" style={{ marginTop: 16 }}>
+                  <label>Encoding Profile</label>
+                  <select
+                    className="form-select"
+                    value={profileId}
+                    onChange={(e) => setProfileId(e.target.value)}
+                  >
+                    {profiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name}{profile.is_default ? ' (default)' : ''}{profile.description ? ` - ${profile.description}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -301,7 +364,7 @@ export default function DashboardUpload() {
             <div className="form-section-title">Video Sources</div>
             
             <div className="link-sources">
-              {linkSources.map((source, index) => (
+              {(importLink ? linkSources.slice(0, 1) : linkSources).map((source, index) => (
                 <div key={index} className="link-source-item">
                   <span className="link-source-number">{index + 1}</span>
                   <div className="link-source-fields">
@@ -311,26 +374,40 @@ export default function DashboardUpload() {
                         <input
                           type="url"
                           className="form-input"
-                          placeholder="https://example.com/video.mp4"
+                          placeholder={importLink ? 'https://example.com/video.mp4 or .m3u8' : 'https://example.com/video.mp4'}
                           value={source.url}
                           onChange={(e) => updateLinkSource(index, 'url', e.target.value)}
                         />
                       </div>
+                      {!importLink && (
+                        <div className="form-group">
+                          <label>Resolution</label>
+                          <select
+                            className="form-select"
+                            value={source.resolution}
+                            onChange={(e) => updateLinkSource(index, 'resolution', e.target.value)}
+                          >
+                            {RESOLUTIONS.map((res) => (
+                              <option key={res} value={res}>{res}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                    </div>
+                    {!importLink && (
                       <div className="form-group">
-                        <label>Resolution</label>
-                        <select
-                          className="form-select"
-                          value={source.resolution}
-                          onChange={(e) => updateLinkSource(index, 'resolution', e.target.value)}
-                        >
-                          {RESOLUTIONS.map((res) => (
-                            <option key={res} value={res}>{res}</option>
-                          ))}
-                        </select>
+                        <label>Mirror URLs</label>
+                        <textarea
+                          className="form-textarea"
+                          rows={2}
+                          placeholder="Optional, one per line. Played when the URL above fails"
+                          value={source.mirrors}
+                          onChange={(e) => updateLinkSource(index, 'mirrors', e.target.value)}
+                        />
                       </div>
-                    </div>
+                    )}
                   </div>
-                  {linkSources.length > 1 && (
+                  {!importLink && linkSources.length > 1 && (
                     <button
                       type="button"
                       className="link-source-remove"
@@ -344,16 +421,53 @@ export default function DashboardUpload() {
                 </div>
               ))}
 
-              <button
-                type="button"
-                className="add-source-btn"
-                onClick={addLinkSource}
-              >
-                <svg viewBox="0 0 24 24" fill="currentColor">
-                  <path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z" />
-                </svg>
-                Add Another Resolution
-              </button>
+              {!importLink && (
+                <button
+                  type="button"
+                  className="add-source-btn"
+                  onClick={addLinkSource}
+                >
+                  <svg viewBox="0 0 24 24" fill="currentColor">
+                    <path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z" />
+                  </svg>
+                  Add Another Resolution
+                </button>
+              )}
+            </div>
+
+            <div style={{ marginTop: 16 }}>
+              <label className="checkbox-group" style={{ display: 'flex', alignItems: 'center', gap: 12, cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={importLink}
+                  onChange={(e) => setImportLink(e.target.checked)}
+                  style={{ width: 18, height: 18, cursor: 'pointer' }}
+                />
+                <span style={{ fontSize: '0.9rem', color: 'var(--text-primary)' }}>
+                  Import: download the file and encode it on this server
+                </span>
+              </label>
+              <p style={{ marginTop: 8, fontSize: '0.85rem', color: 'var(--text-muted)', marginLeft: 30 }}>
+                {importLink
+                  ? '📥 The MP4/MKV file or HLS playlist is downloaded (resumable, progress on the Encoding page) and encoded like an upload.'
+                  : '🔗 The video is played from the remote host.'}
+              </p>
+              {importLink && profiles.length > 0 && (
+                <div className="form-group" style={{ marginTop: 16 }}>
+                  <label>Encoding Profile</label>
+                  <select
+                    className="form-select"
+                    value={profileId}
+                    onChange={(e) => setProfileId(e.target.value)}
+                  >
+                    {profiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>
+                        {profile.name}{profile.is_default ? ' (default)' : ''}{profile.description ? ` - ${profile.description}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -428,7 +542,7 @@ export default function DashboardUpload() {
                 </svg>
                 {activeTab === 'file' 
                   ? (enableEncoding ? 'Upload & Start Encoding' : 'Upload Video (No Encoding)')
-                  : 'Add Video'}
+                  : (importLink ? 'Import & Start Encoding' : 'Add Video')}
               </>
             )}
           </button>
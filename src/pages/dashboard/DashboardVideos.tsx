@@ -33,7 +33,11 @@ const formatTimeAgo = (dateString?: string): string => {
   return date.toLocaleDateString();
 };
 
-type FilterType = 'all' | 'recent' | 'viewed' | 'drafts' | 'archived';
+// Sources and subtitles served by other hosts (checked by the link health monitor)
+const hasExternalLinks = (video: Video) =>
+  video.sources.some(s => !s.is_local) || video.subtitles.some(s => s.url.startsWith('http'));
+
+type FilterType = 'all' | 'recent' | 'viewed' | 'drafts' | 'archived' | 'broken';
 
 interface MenuPosition {
   x: number;
@@ -91,6 +95,95 @@ export default function DashboardVideos() {
     }
   };
 
+  // Check every segment of the video's renditions again
+  const handleVerify = async (id: string) => {
+    closeMenu();
+
+    try {
+      const response = await fetch(`${API_URL}/api/videos/${id}/verify`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to verify video');
+        return;
+      }
+
+      const status = data.integrity?.status ?? null;
+      setVideos(prev => prev.map(v => v.id === id ? { ...v, integrity_status: status } : v));
+
+      if (!data.integrity) {
+        alert('This video has no HLS renditions to verify');
+      } else if (status === 'ok') {
+        alert('All renditions are intact');
+      } else {
+        const damaged = data.integrity.renditions.filter((r: { issues: unknown[] }) => r.issues.length > 0);
+        alert(`Damaged renditions: ${damaged.map((r: { name: string }) => r.name).join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Error verifying video:', error);
+      alert('Failed to verify video');
+    }
+  };
+
+  // Check the external source and subtitle links of a video now
+  const handleCheckLinks = async (id: string) => {
+    closeMenu();
+
+    try {
+      const response = await fetch(`${API_URL}/api/videos/${id}/check-links`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.error || 'Failed to check links');
+        return;
+      }
+
+      const broken: { url: string; history: { error: string | null }[] }[] = data.links.filter((l: { status: string }) => l.status === 'broken');
+      setVideos(prev => prev.map(v => v.id === id ? { ...v, broken_links: broken.length } : v));
+
+      if (data.links.length === 0) {
+        alert('This video has no external links');
+      } else if (broken.length === 0) {
+        alert(`All ${data.links.length} links are reachable`);
+      } else {
+        alert(`Broken links:\n${broken.map(l => `${l.url} (${l.history[0]?.error})`).join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Error checking links:', error);
+      alert('Failed to check links');
+    }
+  };
+
+  // Re-encode only the damaged renditions from the kept original
+  const handleRepair = async (id: string) => {
+    closeMenu();
+    if (!confirm('Re-encode the damaged renditions of this video?')) return;
+
+    try {
+      const response = await fetch(`${API_URL}/api/videos/${id}/repair`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(data.details || data.error || 'Failed to repair video');
+        return;
+      }
+
+      navigate('/dashboard/encoding');
+    } catch (error) {
+      console.error('Error repairing video:', error);
+      alert('Failed to repair video');
+    }
+  };
+
   const copyLink = async (id: string) => {
     const link = `${window.location.origin}/cdn/${id}`;
     await navigator.clipboard.writeText(link);
@@ -116,7 +209,7 @@ export default function DashboardVideos() {
       if (rect) {
         // Calculate position to show menu outside of card
         const menuWidth = 180;
-        const menuHeight = 200;
+        const menuHeight = 320;
         let x = rect.right + 8;
         let y = rect.top;
         
@@ -140,7 +233,7 @@ export default function DashboardVideos() {
     e.stopPropagation();
     
     const menuWidth = 180;
-    const menuHeight = 200;
+    const menuHeight = 320;
     let x = e.clientX;
     let y = e.clientY;
     
@@ -158,6 +251,7 @@ export default function DashboardVideos() {
 
   // Filter videos based on search query
   const filteredVideos = videos.filter(video => {
+    if (activeFilter === 'broken' && !video.broken_links) return false;
     if (!searchQuery) return true;
     const query = searchQuery.toLowerCase();
     return (
@@ -167,12 +261,15 @@ export default function DashboardVideos() {
     );
   });
 
+  const brokenCount = videos.filter(video => video.broken_links).length;
+
   const filters: { key: FilterType; label: string }[] = [
     { key: 'all', label: 'All Videos' },
     { key: 'recent', label: 'Most Recent' },
     { key: 'viewed', label: 'Most Viewed' },
     { key: 'drafts', label: 'Drafts' },
     { key: 'archived', label: 'Archived' },
+    { key: 'broken', label: `Broken Links${brokenCount > 0 ? ` (${brokenCount})` : ''}` },
   ];
 
   if (loading) {
@@ -255,6 +352,12 @@ export default function DashboardVideos() {
                 {video.duration && (
                   <span className="video-duration-badge">{formatDuration(video.duration)}</span>
                 )}
+                {video.integrity_status === 'broken' && (
+                  <span className="video-integrity-badge" title="Some segments are missing or truncated">Damaged</span>
+                )}
+                {!!video.broken_links && video.integrity_status !== 'broken' && (
+                  <span className="video-integrity-badge" title="Some external sources or subtitles can't be reached">Broken link</span>
+                )}
                 {/* Hover Overlay */}
                 <div className="video-hover-overlay">
                   <a 
@@ -347,6 +450,28 @@ export default function DashboardVideos() {
               </svg>
               Watch
             </a>
+            <button onClick={() => handleVerify(openMenuId)}>
+              <svg viewBox="0 0 24 24" fill="currentColor">
+                <path d="M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4zm-2 16l-4-4 1.41-1.41L10 14.17l6.59-6.59L18 9l-8 8z" />
+              </svg>
+              Verify
+            </button>
+            {videos.find(v => v.id === openMenuId)?.integrity_status === 'broken' && (
+              <button onClick={() => handleRepair(openMenuId)}>
+                <svg viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M22.7 19l-9.1-9.1c.9-2.3.4-5-1.5-6.9-2-2-5-2.4-7.4-1.3L9 6 6 9 1.6 4.7C.4 7.1.9 10.1 2.9 12.1c1.9 1.9 4.6 2.4 6.9 1.5l9.1 9.1c.4.4 1 .4 1.4 0l2.3-2.3c.5-.4.5-1.1.1-1.4z" />
+                </svg>
+                Repair
+              </button>
+            )}
+            {videos.some(v => v.id === openMenuId && hasExternalLinks(v)) && (
+              <button onClick={() => handleCheckLinks(openMenuId)}>
+                <svg viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M3.9 12c0-1.71 1.39-3.1 3.1-3.1h4V7H7c-2.76 0-5 2.24-5 5s2.24 5 5 5h4v-1.9H7c-1.71 0-3.1-1.39-3.1-3.1zM8 13h8v-2H8v2zm9-6h-4v1.9h4c1.71 0 3.1 1.39 3.1 3.1s-1.39 3.1-3.1 3.1h-4V17h4c2.76 0 5-2.24 5-5s-2.24-5-5-5z" />
+                </svg>
+                Check Links
+              </button>
+            )}
             <button 
               className="delete-option"
               onClick={() => handleDelete(openMenuId)}
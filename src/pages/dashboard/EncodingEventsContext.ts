@@ -0,0 +1,19 @@
+import { createContext, useContext, useEffect } from 'react';
+import type { EncodingEvent } from '../../types';
+
+export type EncodingEventListener = (event: EncodingEvent) => void;
+
+// Encoding events context (one SSE connection, opened by EncodingEventsProvider, shared by all dashboard pages)
+interface EncodingEventsContextType {
+  subscribe: (listener: EncodingEventListener) => () => void;
+}
+
+export const EncodingEventsContext = createContext<EncodingEventsContextType>({
+  subscribe: () => () => {}
+});
+
+// Subscribe to live encoding events while the component is mounted (listener should be stable)
+export const useEncodingEvents = (listener: EncodingEventListener) => {
+  const { subscribe } = useContext(EncodingEventsContext);
+  useEffect(() => subscribe(listener), [subscribe, listener]);
+};
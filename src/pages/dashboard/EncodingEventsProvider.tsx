@@ -0,0 +1,77 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { ReactNode } from 'react';
+import { API_URL } from '../../config';
+import type { EncodingEvent, EncodingEventType } from '../../types';
+import { EncodingEventsContext } from './EncodingEventsContext';
+import type { EncodingEventListener } from './EncodingEventsContext';
+
+const ENCODING_EVENT_TYPES: EncodingEventType[] = ['queued', 'started', 'progress', 'resolution', 'completed', 'failed', 'cancelled', 'paused', 'resumed'];
+
+interface Toast {
+  id: number;
+  type: 'success' | 'error';
+  message: string;
+}
+
+// Opens the encoding events connection for the dashboard and shows toasts on completion/failure
+export default function EncodingEventsProvider({ children }: { children: ReactNode }) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const encodingListenersRef = useRef<Set<EncodingEventListener>>(new Set());
+  const toastIdRef = useRef(0);
+
+  const showToast = useCallback((type: Toast['type'], message: string) => {
+    const id = ++toastIdRef.current;
+    setToasts(prev => [...prev, { id, type, message }]);
+    setTimeout(() => setToasts(prev => prev.filter(t => t.id !== id)), 6000);
+  }, []);
+
+  const subscribeEncodingEvents = useCallback((listener: EncodingEventListener) => {
+    encodingListenersRef.current.add(listener);
+    return () => {
+      encodingListenersRef.current.delete(listener);
+    };
+  }, []);
+
+  // Live encoding updates, EventSource reconnects by itself if the connection drops
+  useEffect(() => {
+    const source = new EventSource(`${API_URL}/api/encoding/events`, { withCredentials: true });
+
+    const handleEvent = (e: MessageEvent) => {
+      const event: EncodingEvent = JSON.parse(e.data);
+      encodingListenersRef.current.forEach(listener => listener(event));
+
+      const title = event.job?.video_title || 'Video';
+      if (event.type === 'completed' && event.job?.mode === 'import') {
+        showToast('success', `Download finished, encoding queued: ${title}`);
+      } else if (event.type === 'completed') {
+        showToast('success', `Encoding finished: ${title}`);
+      } else if (event.type === 'failed') {
+        showToast('error', `${event.job?.mode === 'import' ? 'Import' : 'Encoding'} failed: ${title}${event.job?.error ? ` (${event.job.error})` : ''}`);
+      }
+    };
+
+    ENCODING_EVENT_TYPES.forEach(type => source.addEventListener(type, handleEvent));
+    return () => source.close();
+  }, [showToast]);
+
+  return (
+    <EncodingEventsContext.Provider value={{ subscribe: subscribeEncodingEvents }}>
+      {children}
+
+      {/* Encoding notifications */}
+      {toasts.length > 0 && (
+        <div className="toast-container">
+          {toasts.map(toast => (
+            <div
+              key={toast.id}
+              className={`toast ${toast.type}`}
+              onClick={() => setToasts(prev => prev.filter(t => t.id !== toast.id))}
+            >
+              {toast.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </EncodingEventsContext.Provider>
+  );
+}
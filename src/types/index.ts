@@ -4,14 +4,49 @@ export interface VideoSource {
   url: string;
   is_local: boolean;
   file_size?: number;
+  codec?: VideoCodec | null;
+  width?: number | null;
+  height?: number | null;
+  bandwidth?: number | null;
+  // Probe, link check and failover fields below are only in the dashboard payload (GET /api/videos/:id/details)
+  // Set by probing linked sources: the label the actual frame size matches, or why ffprobe failed
+  detected_resolution?: string | null;
+  probe_error?: string | null;
+  probed_at?: string | null;
+  // Variant found in a linked HLS master playlist (id of the master's source)
+  master_id?: number | null;
+  // Last reachability check of an external source, null until it was checked
+  link_status?: LinkStatus | null;
+  link_error?: string | null;
+  link_checked_at?: string | null;
+  // The player tries the source's url and its mirrors by priority (lowest first), picking by weight among equals
+  priority?: number;
+  weight?: number;
+  failover_count?: number;
+  mirrors?: SourceMirror[];
 }
 
+// Another URL of the same rendition, used when the current one fails during playback
+// (the player payload only carries url, priority, weight and link_status)
+export interface SourceMirror {
+  id: number;
+  url: string;
+  priority: number;
+  weight: number;
+  failover_count: number;
+  link_status: LinkStatus | null;
+}
+
+export type LinkStatus = 'ok' | 'broken';
+
 export interface Subtitle {
   id: number;
   label: string;
   language: string;
   url: string;
   is_default: boolean;
+  link_status?: LinkStatus | null;
+  link_error?: string | null;
 }
 
 export interface Video {
@@ -19,9 +54,15 @@ export interface Video {
   title: string;
   description?: string;
   thumbnail?: string;
+  // WebVTT index of the trickplay sprite sheets (#xywh= cues)
+  thumbnail_track?: string | null;
   duration?: number;
   sources: VideoSource[];
   subtitles: Subtitle[];
+  // Result of the last HLS integrity check, null if never checked
+  integrity_status?: 'ok' | 'broken' | null;
+  // External sources and subtitles whose last check failed
+  broken_links?: number;
   created_at: string;
   updated_at: string;
 }
@@ -30,15 +71,188 @@ export interface EncodingJob {
   id: string;
   video_id: string;
   video_title: string;
-  status: 'pending' | 'encoding' | 'completed' | 'failed';
+  status: 'pending' | 'encoding' | 'paused' | 'completed' | 'failed' | 'cancelled' | 'downloading';
   progress: number;
   current_resolution?: string;
+  // Progress (0-100) of each rendition of the running ffmpeg pass
+  rendition_progress?: Record<string, number>;
   resolutions_completed: string[];
   resolutions_pending: string[];
   started_at?: string;
   completed_at?: string;
   estimated_time_remaining?: number;
   error?: string;
+  failure_class?: EncodingFailureClass | null;
+  attempts?: number;
+  auto_retries?: number;
+  // Set while a transient failure waits for its automatic retry
+  next_retry_at?: string | null;
+  // 0 low, 1 normal, 2 high; queued jobs run by priority, then by queue position
+  priority?: number;
+  queue_position?: number;
+  // Video encoders that produced the renditions, comma separated (e.g. "h264_nvenc, libx265")
+  encoder?: string | null;
+  // Expected size of the renditions, the job waits in the queue until they fit
+  estimated_size?: number | null;
+  // 'import' jobs download a linked file (source_url) and hand it over to an encoding job
+  mode?: 'initial' | 'reencode' | 'import' | null;
+  source_url?: string | null;
+  downloaded_bytes?: number | null;
+  download_size?: number | null;
+}
+
+// storage part of GET /api/health
+export interface StorageStatus {
+  used_bytes: number;
+  quota_bytes: number | null;
+  disk_free_bytes: number;
+  disk_total_bytes: number;
+  reserve_bytes: number;
+  headroom_bytes: number;
+  warning_bytes: number;
+  low: boolean;
+}
+
+// GET /api/storage/orphans (dry run) and POST /api/storage/orphans/cleanup
+export interface OrphanReport {
+  scanned_at: string;
+  orphans: {
+    url: string;
+    kind: 'upload' | 'video_dir' | 'staging_dir' | 'subtitle' | 'font' | 'thumbnail' | 'original';
+    reason: string;
+    size: number;
+    modified_at: string;
+  }[];
+  reclaimable_bytes: number;
+  // Rows whose local file is gone
+  missing: { table: 'video_sources' | 'subtitles'; id: number; video_id: string; url: string }[];
+}
+
+// GET/PUT /api/encoding/settings
+export interface QueueSettings {
+  window_enabled: boolean;
+  window_start: string;
+  window_end: string;
+  default_priority: number;
+  threads: number;
+  niceness: number;
+  encoder: EncoderPreference;
+  updated_at?: string;
+}
+
+// 'auto' uses the detected hardware H.264 encoder, 'cpu' always libx264, the others are forced
+export type EncoderPreference = 'auto' | 'cpu' | 'nvenc' | 'amf' | 'qsv' | 'vaapi';
+
+// GET /api/encoding/capabilities (last ffmpeg probe)
+export interface EncoderCapabilities {
+  ffmpeg_version: string | null;
+  encoders: { name: string; type: 'video' | 'audio' | 'subtitle'; description: string }[];
+  hwaccels: string[];
+  detected: Exclude<EncoderPreference, 'auto' | 'cpu'> | null;
+  probed_at: string;
+  error: string | null;
+  encoder: EncoderPreference;
+}
+
+// GET /api/encoding/jobs/:jobId/logs, previous is the part rotated out once the log grew too large
+export interface EncodingJobLog {
+  jobId: string;
+  log: string;
+  previous: string | null;
+  size: number;
+}
+
+export type EncodingFailureClass = 'corrupt_input' | 'missing_input' | 'disk_full' | 'encoder_crash' | 'gpu_failure' | 'unknown';
+
+// What POST /api/encoding/jobs/:jobId/cancel keeps of the video
+export type EncodingCancelMode = 'keep_renditions' | 'keep_original' | 'delete';
+
+// Pushed by /api/encoding/events (SSE)
+export type EncodingEventType = 'queued' | 'started' | 'progress' | 'resolution' | 'completed' | 'failed' | 'cancelled' | 'paused' | 'resumed';
+
+export interface EncodingEvent {
+  type: EncodingEventType;
+  jobId: string;
+  videoId: string;
+  // Full job on state changes, null once the job (or its video) is gone
+  job?: EncodingJob | null;
+  progress?: number;
+  estimated_time_remaining?: number;
+  rendition_progress?: Record<string, number>;
+}
+
+export type VideoCodec = 'h264' | 'hevc' | 'av1';
+
+export type SegmentFormat = 'ts' | 'fmp4';
+
+export interface EncodingProfileRung {
+  name: string;
+  height: number;
+  bitrate: string;
+  crf?: number;
+  audioBitrate?: string;
+}
+
+export interface EncodingProfile {
+  id: string;
+  name: string;
+  description: string;
+  rungs: EncodingProfileRung[];
+  codecs: VideoCodec[];
+  segment_format: SegmentFormat;
+  dash: boolean;
+  audio_bitrate: string;
+  preset: string;
+  is_default: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface VideoOriginal {
+  video_id: string;
+  url: string;
+  original_name: string | null;
+  file_size: number | null;
+  retain: boolean;
+  created_at: string;
+  is_source: boolean;
+  expires_at: string | null;
+}
+
+export type WebhookEvent =
+  | 'video.uploaded'
+  | 'video.linked'
+  | 'video.deleted'
+  | 'subtitle.added'
+  | 'subtitle.deleted'
+  | 'encoding.completed'
+  | 'encoding.failed'
+  | 'link.broken'
+  | 'link.recovered'
+  | 'ping';
+
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  created_at?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  webhook_url: string | null;
+  event: WebhookEvent;
+  payload: string;
+  status: 'pending' | 'success' | 'failed';
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  delivered_at: string | null;
 }
 
 export interface ContextMenuItem {
@@ -49,10 +263,18 @@ export interface ContextMenuItem {
   disabled?: boolean;
 }
 
+// Alternate audio rendition exposed by the playback engine (hls.js audioTracks)
+export interface AudioTrackOption {
+  id: number;
+  label: string;
+  language?: string;
+}
+
 export interface PlayerSettings {
   playbackSpeed: number;
   quality: string;
   subtitleId: number | null;
+  audioTrackId: number | null;
   volume: number;
   muted: boolean;
 }